@@ -0,0 +1,170 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Area, AreaChart, Brush, CartesianGrid, Legend, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ZoomOut } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select } from './ui/select';
+import { DateRange } from '../lib/types';
+import {
+  TIMELINE_GRANULARITIES,
+  TIMELINE_STACKS,
+  Timeline,
+  TimelineGranularity,
+  TimelineOptions,
+  TimelineStack,
+  formatDateRange,
+  toDateRange
+} from '../lib/timeline';
+import { formatBucketLabel } from '../lib/time';
+import { isCancelledError } from '../services/analyzerWorkerService';
+
+interface AccessTimelineProps {
+  dateRange: DateRange;
+  // Resolved IANA zone, for the bucket labels and brushed range
+  timeZone: string;
+  onLoad: (options: Pick<TimelineOptions, 'granularity' | 'stackBy'>) => Promise<Timeline>;
+  // Applies a brushed range; an empty range zooms back out
+  onRangeChange: (range: DateRange) => void;
+}
+
+const COLORS = ['#3b82f6', '#10b981', '#f59e0b', '#ef4444', '#8b5cf6', '#06b6d4', '#ec4899', '#9ca3af'];
+
+const AccessTimeline: React.FC<AccessTimelineProps> = ({ dateRange, timeZone, onLoad, onRangeChange }) => {
+  const [granularity, setGranularity] = useState<TimelineGranularity>('auto');
+  const [stackBy, setStackBy] = useState<TimelineStack>('none');
+  const [timeline, setTimeline] = useState<Timeline | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Brush position while moving; applied when the drag ends or the arrow key is released
+  const brushed = useRef<{ startIndex?: number; endIndex?: number }>({});
+
+  useEffect(() => {
+    let cancelled = false;
+    setError(null);
+    onLoad({ granularity, stackBy })
+      .then(result => {
+        if (!cancelled) setTimeline(result);
+      })
+      .catch(err => {
+        if (!cancelled && !isCancelledError(err)) {
+          setError(`Failed to build the timeline: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoad, granularity, stackBy]);
+
+  const points = useMemo(() => (timeline?.buckets ?? []).map(bucket => ({
+    label: formatBucketLabel(timeline!.unit, bucket.start, bucket.start, timeZone),
+    ...Object.fromEntries(bucket.counts.map((count, i) => [`s${i}`, count]))
+  })), [timeline, timeZone]);
+
+  const applyBrush = () => {
+    const { startIndex, endIndex } = brushed.current;
+    const buckets = timeline?.buckets;
+    brushed.current = {};
+    if (!buckets || startIndex === undefined || endIndex === undefined) return;
+    if (startIndex === 0 && endIndex === buckets.length - 1) return;
+    onRangeChange(toDateRange(buckets[startIndex].start, buckets[endIndex].end, timeZone));
+  };
+
+  const zoomed = !!(dateRange.startDate && dateRange.endDate);
+  const asked = granularity !== 'auto' && timeline && timeline.unit !== granularity;
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <CardTitle>Events Over Time</CardTitle>
+            <div className="text-sm text-gray-500">
+              {zoomed ? formatDateRange(dateRange) : 'All dates'}
+              {timeline && ` · per ${timeline.unit}`}
+              {asked && ` (too many ${granularity}s to chart)`}
+              {' · drag the handles below the chart to zoom'}
+            </div>
+          </div>
+          <div className="flex items-center gap-2">
+            <div className="w-32">
+              <Select
+                value={granularity}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setGranularity(e.target.value as TimelineGranularity)}
+                title="Granularity"
+              >
+                {TIMELINE_GRANULARITIES.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </div>
+            <div className="w-36">
+              <Select
+                value={stackBy}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setStackBy(e.target.value as TimelineStack)}
+                title="Stack by"
+              >
+                {TIMELINE_STACKS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </div>
+            <button
+              onClick={() => onRangeChange({ startDate: '', endDate: '' })}
+              disabled={!zoomed}
+              className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md disabled:opacity-50 disabled:cursor-not-allowed"
+              title="Zoom out to all dates"
+            >
+              <ZoomOut className="w-4 h-4" />
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent className="h-[280px] w-full">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !points.length ? (
+          <p className="text-sm text-gray-500">{timeline ? 'No events in this range.' : 'Loading timeline...'}</p>
+        ) : (
+          // The brush handles also move on arrow keys, which never end a drag
+          <div className="h-full w-full" onKeyUp={applyBrush} onBlur={applyBrush}>
+            <ResponsiveContainer width="100%" height="100%">
+              <AreaChart data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                <CartesianGrid strokeDasharray="3 3" />
+                <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={40} />
+                <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                <Tooltip />
+                {timeline!.series.length > 1 && <Legend />}
+                {timeline!.series.map((name, i) => (
+                  <Area
+                    key={name}
+                    type="monotone"
+                    dataKey={`s${i}`}
+                    name={name}
+                    stackId="events"
+                    stroke={COLORS[i % COLORS.length]}
+                    fill={COLORS[i % COLORS.length]}
+                    fillOpacity={0.4}
+                    isAnimationActive={false}
+                  />
+                ))}
+                {points.length > 1 && (
+                  <Brush
+                    // Remount on new data so the handles start at the full range
+                    key={`${timeline!.unit}|${points.length}|${points[0].label}`}
+                    dataKey="label"
+                    height={24}
+                    stroke="#3b82f6"
+                    onChange={range => {
+                      brushed.current = range;
+                    }}
+                    onDragEnd={applyBrush}
+                  />
+                )}
+              </AreaChart>
+            </ResponsiveContainer>
+          </div>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default AccessTimeline;
@@ -0,0 +1,156 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select } from './ui/select';
+import { ProcessedRow } from '../lib/types';
+import { WEEKDAY_LABELS } from '../lib/businessCalendar';
+import { HEATMAP_WEEKDAYS, HeatmapFilter, TimeSlice, formatTimeSlice } from '../lib/activityHeatmap';
+import { isCancelledError } from '../services/analyzerWorkerService';
+
+interface ActivityHeatmapProps {
+  // Current results, for the filter options
+  data: ProcessedRow[];
+  slice: TimeSlice | null;
+  onSliceChange?: (slice: TimeSlice | null) => void;
+  onLoad?: (filter: HeatmapFilter) => Promise<number[][]>;
+}
+
+const HOURS = Array.from({ length: 24 }, (_value, hour) => hour);
+
+const sameSlice = (a: TimeSlice | null, b: TimeSlice) => !!a && a.weekday === b.weekday && a.hour === b.hour;
+
+const uniqueSorted = (values: string[]) => Array.from(new Set(values.filter(Boolean))).sort();
+
+const ActivityHeatmap: React.FC<ActivityHeatmapProps> = ({ data, slice, onSliceChange, onLoad }) => {
+  const [filter, setFilter] = useState<HeatmapFilter>({});
+  const [counts, setCounts] = useState<number[][] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!onLoad) return;
+    let cancelled = false;
+    setError(null);
+    onLoad(filter)
+      .then(result => {
+        if (!cancelled) setCounts(result);
+      })
+      .catch(err => {
+        if (!cancelled && !isCancelledError(err)) {
+          setError(`Failed to build the heatmap: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [onLoad, filter]);
+
+  const options = useMemo(() => {
+    const sources = new Map<string, string>();
+    data.forEach(row => {
+      if (row.IP && !sources.has(row.IP)) {
+        sources.set(row.IP, row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP);
+      }
+    });
+    return {
+      sources: Array.from(sources.entries()).sort((a, b) => a[1].localeCompare(b[1])),
+      targets: uniqueSorted(data.map(row => row.Target)),
+      services: uniqueSorted(data.map(row => row.Service))
+    };
+  }, [data]);
+
+  const max = counts ? Math.max(1, ...counts.map(row => Math.max(...row))) : 1;
+
+  // Clicking the active slice again clears it
+  const toggle = (next: TimeSlice) => onSliceChange?.(sameSlice(slice, next) ? null : next);
+
+  const cellClass = (next: TimeSlice) => (sameSlice(slice, next) ? 'ring-2 ring-blue-600 ring-inset' : '');
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <CardTitle>Activity by Weekday and Hour</CardTitle>
+            <div className="text-sm text-gray-500">
+              {slice ? `Filtered to ${formatTimeSlice(slice)}` : 'Click a cell, weekday or hour to filter the table and cards'}
+            </div>
+          </div>
+          <div className="grid grid-cols-1 sm:grid-cols-3 gap-2 w-full lg:w-auto">
+            <Select
+              value={filter.source ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter({ ...filter, source: e.target.value || undefined })}
+              title="Heatmap source"
+            >
+              <option value="">All sources</option>
+              {options.sources.map(([ip, label]) => (
+                <option key={ip} value={ip}>{label}</option>
+              ))}
+            </Select>
+            <Select
+              value={filter.target ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter({ ...filter, target: e.target.value || undefined })}
+              title="Heatmap target"
+            >
+              <option value="">All targets</option>
+              {options.targets.map(target => (
+                <option key={target} value={target}>{target}</option>
+              ))}
+            </Select>
+            <Select
+              value={filter.service ?? ''}
+              onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setFilter({ ...filter, service: e.target.value || undefined })}
+              title="Heatmap service"
+            >
+              <option value="">All services</option>
+              {options.services.map(service => (
+                <option key={service} value={service}>{service}</option>
+              ))}
+            </Select>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        {error && <p className="mb-2 text-sm text-red-600">{error}</p>}
+        <div className="overflow-x-auto">
+          <div className="grid gap-px text-xs min-w-[640px]" style={{ gridTemplateColumns: '3rem repeat(24, minmax(0, 1fr))' }}>
+            <div />
+            {HOURS.map(hour => (
+              <button
+                key={hour}
+                onClick={() => toggle({ weekday: null, hour })}
+                className={`py-1 text-gray-500 hover:text-gray-900 rounded ${cellClass({ weekday: null, hour })}`}
+                title={formatTimeSlice({ weekday: null, hour })}
+              >
+                {hour}
+              </button>
+            ))}
+            {HEATMAP_WEEKDAYS.map(weekday => (
+              <React.Fragment key={weekday}>
+                <button
+                  onClick={() => toggle({ weekday, hour: null })}
+                  className={`pr-2 text-right text-gray-500 hover:text-gray-900 rounded ${cellClass({ weekday, hour: null })}`}
+                  title={formatTimeSlice({ weekday, hour: null })}
+                >
+                  {WEEKDAY_LABELS[weekday]}
+                </button>
+                {HOURS.map(hour => {
+                  const count = counts?.[weekday][hour] ?? 0;
+                  return (
+                    <button
+                      key={hour}
+                      onClick={() => toggle({ weekday, hour })}
+                      className={`h-7 rounded-sm hover:ring-1 hover:ring-gray-400 ${cellClass({ weekday, hour })}`}
+                      style={{ backgroundColor: count ? `rgba(37, 99, 235, ${0.1 + 0.9 * (count / max)})` : '#f3f4f6' }}
+                      title={`${formatTimeSlice({ weekday, hour })}: ${count} events`}
+                    />
+                  );
+                })}
+              </React.Fragment>
+            ))}
+          </div>
+        </div>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default ActivityHeatmap;
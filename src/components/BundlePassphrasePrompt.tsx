@@ -0,0 +1,63 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Input } from './ui/input';
+
+interface BundlePassphrasePromptProps {
+  fileName: string;
+  onSubmit: (passphrase: string) => Promise<void>;
+  onCancel: () => void;
+}
+
+const BundlePassphrasePrompt: React.FC<BundlePassphrasePromptProps> = ({ fileName, onSubmit, onCancel }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await onSubmit(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="flex items-center gap-2">
+        <Lock className="h-4 w-4 text-gray-500" />
+        <h3 className="font-medium">{fileName} is encrypted</h3>
+      </div>
+      <p className="text-sm text-gray-500">Enter the passphrase it was exported with.</p>
+      <form onSubmit={submit} className="flex items-center gap-2">
+        <Input
+          type="password"
+          autoFocus
+          value={passphrase}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+        />
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed whitespace-nowrap"
+        >
+          {busy ? 'Opening…' : 'Open'}
+        </button>
+        <button
+          type="button"
+          onClick={onCancel}
+          className="px-4 py-2 text-sm text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+      </form>
+      {error && <p className="text-sm text-red-600">{error}</p>}
+    </div>
+  );
+};
+
+export default BundlePassphrasePrompt;
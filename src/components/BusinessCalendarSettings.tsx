@@ -0,0 +1,154 @@
+import React, { useState } from 'react';
+import { Briefcase, X } from 'lucide-react';
+import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
+import { Input } from './ui/input';
+import TimeZoneSelect from './TimeZoneSelect';
+import { BusinessCalendar, WEEKDAY_LABELS, validateCalendar } from '../lib/businessCalendar';
+
+interface BusinessCalendarSettingsProps {
+  calendar: BusinessCalendar;
+  onChange: (calendar: BusinessCalendar) => void;
+}
+
+const BusinessCalendarSettings: React.FC<BusinessCalendarSettingsProps> = ({ calendar, onChange }) => {
+  const [draft, setDraft] = useState<BusinessCalendar>(calendar);
+  const [holiday, setHoliday] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+
+  const update = (changes: Partial<BusinessCalendar>) => {
+    setDraft(current => ({ ...current, ...changes }));
+    setError(null);
+    setMessage(null);
+  };
+
+  const toggleWorkday = (day: number) => {
+    update({
+      workdays: draft.workdays.includes(day)
+        ? draft.workdays.filter(item => item !== day)
+        : [...draft.workdays, day].sort((a, b) => a - b)
+    });
+  };
+
+  const addHoliday = () => {
+    if (!holiday || draft.holidays.includes(holiday)) return;
+    update({ holidays: [...draft.holidays, holiday].sort() });
+    setHoliday('');
+  };
+
+  const save = () => {
+    const problem = validateCalendar(draft);
+    if (problem) {
+      setError(problem);
+      return;
+    }
+    onChange(draft);
+    setMessage('Business calendar saved');
+  };
+
+  return (
+    <Popover
+      onOpenChange={open => {
+        if (open) {
+          setDraft(calendar);
+          setHoliday('');
+          setError(null);
+          setMessage(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button className="p-1 hover:bg-gray-100 rounded-full" title="Business hours">
+          <Briefcase className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[340px]">
+        <div className="space-y-3 text-sm">
+          <h4 className="font-medium">Business Calendar</h4>
+          <p className="text-gray-500">Access outside these hours, on other days or on holidays is flagged as off-hours.</p>
+          <div>
+            <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Time zone</label>
+            <TimeZoneSelect value={draft.timeZone} onChange={timeZone => update({ timeZone })} title="Business calendar time zone" />
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Hours</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="time"
+                value={draft.dayStart}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ dayStart: e.target.value })}
+              />
+              <span className="text-gray-500">to</span>
+              <Input
+                type="time"
+                value={draft.dayEnd}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => update({ dayEnd: e.target.value })}
+              />
+            </div>
+          </div>
+          <div>
+            <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Working days</label>
+            <div className="flex gap-1">
+              {WEEKDAY_LABELS.map((label, day) => (
+                <button
+                  key={label}
+                  onClick={() => toggleWorkday(day)}
+                  className={`flex-1 px-1 py-1 text-xs rounded border ${
+                    draft.workdays.includes(day)
+                      ? 'bg-blue-50 border-blue-300 text-blue-700'
+                      : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
+                  }`}
+                >
+                  {label}
+                </button>
+              ))}
+            </div>
+          </div>
+          <div className="space-y-2">
+            <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Holidays</label>
+            <div className="flex items-center gap-2">
+              <Input
+                type="date"
+                value={holiday}
+                onChange={(e: React.ChangeEvent<HTMLInputElement>) => setHoliday(e.target.value)}
+              />
+              <button
+                onClick={addHoliday}
+                disabled={!holiday}
+                className="px-3 py-1 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                Add
+              </button>
+            </div>
+            {draft.holidays.length > 0 && (
+              <div className="flex flex-wrap gap-1 max-h-24 overflow-y-auto">
+                {draft.holidays.map(date => (
+                  <span key={date} className="flex items-center gap-1 px-2 py-0.5 text-xs bg-gray-100 rounded-full">
+                    {date}
+                    <button
+                      onClick={() => update({ holidays: draft.holidays.filter(item => item !== date) })}
+                      className="text-gray-400 hover:text-gray-600"
+                      title="Remove holiday"
+                    >
+                      <X className="h-3 w-3" />
+                    </button>
+                  </span>
+                ))}
+              </div>
+            )}
+          </div>
+          <button
+            onClick={save}
+            className="w-full px-3 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+          >
+            Save
+          </button>
+          {error && <p className="text-red-600">{error}</p>}
+          {message && <p className="text-green-600">{message}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default BusinessCalendarSettings;
@@ -0,0 +1,151 @@
+import React, { useState } from 'react';
+import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
+import { Select } from './ui/select';
+import DateRangeSelector from './DateRangeSelector';
+import { DateConstraints, DateRange } from '../lib/types';
+import { CHANGE_KINDS, CHANGE_LABELS, ChangeKind } from '../lib/compareData';
+import { fromCalendarDate, toCalendarDate } from '../lib/time';
+import { WorkspaceMeta } from '../services/indexedDBService';
+
+export interface CompareSpec {
+  // Another workspace to take the baseline from; null uses the open one
+  baselineWorkspaceId: string | null;
+  baselineRange: DateRange;
+  comparisonRange: DateRange;
+}
+
+interface ComparePanelProps {
+  workspaces: WorkspaceMeta[];
+  activeWorkspaceId: string | null;
+  dateConstraints: DateConstraints;
+  timeZone: string;
+  running: boolean;
+  onCompare: (spec: CompareSpec) => void;
+  counts: Partial<Record<ChangeKind, number>> | null;
+  changeFilter: ChangeKind[];
+  onChangeFilterChange: (filter: ChangeKind[]) => void;
+}
+
+const EMPTY_RANGE: DateRange = { startDate: '', endDate: '' };
+
+const formatRange = (range: DateRange) =>
+  range.startDate && range.endDate ? `${range.startDate} – ${range.endDate}` : 'All dates';
+
+interface RangeButtonProps {
+  range: DateRange;
+  onChange: (range: DateRange) => void;
+  constraints?: DateConstraints;
+  timeZone: string;
+}
+
+const RangeButton: React.FC<RangeButtonProps> = ({ range, onChange, constraints, timeZone }) => (
+  <Popover>
+    <PopoverTrigger asChild>
+      <button className="w-full px-3 py-2 text-sm text-left text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50">
+        {formatRange(range)}
+      </button>
+    </PopoverTrigger>
+    <PopoverContent className="w-[400px]">
+      <DateRangeSelector
+        startDate={range.startDate ? toCalendarDate(range.startDate) : null}
+        endDate={range.endDate ? toCalendarDate(range.endDate) : null}
+        onApply={(start, end) => onChange(start && end
+          ? { startDate: fromCalendarDate(start), endDate: fromCalendarDate(end) }
+          : EMPTY_RANGE)}
+        minDate={constraints?.minDate ? toCalendarDate(constraints.minDate) : undefined}
+        maxDate={constraints?.maxDate ? toCalendarDate(constraints.maxDate) : undefined}
+        timeZone={timeZone}
+      />
+    </PopoverContent>
+  </Popover>
+);
+
+const ComparePanel: React.FC<ComparePanelProps> = ({
+  workspaces,
+  activeWorkspaceId,
+  dateConstraints,
+  timeZone,
+  running,
+  onCompare,
+  counts,
+  changeFilter,
+  onChangeFilterChange
+}) => {
+  const [baselineWorkspaceId, setBaselineWorkspaceId] = useState<string | null>(null);
+  const [baselineRange, setBaselineRange] = useState<DateRange>(EMPTY_RANGE);
+  const [comparisonRange, setComparisonRange] = useState<DateRange>(EMPTY_RANGE);
+  const others = workspaces.filter(workspace => workspace.id !== activeWorkspaceId);
+
+  // Comparing a period with itself shows nothing, so a same-workspace
+  // baseline needs at least one of the ranges set
+  const sameData = !baselineWorkspaceId
+    && formatRange(baselineRange) === formatRange(comparisonRange);
+
+  const toggleChange = (kind: ChangeKind) => {
+    onChangeFilterChange(changeFilter.includes(kind)
+      ? changeFilter.filter(item => item !== kind)
+      : CHANGE_KINDS.filter(item => item === kind || changeFilter.includes(item)));
+  };
+
+  return (
+    <div className="p-4 border border-gray-200 rounded-lg space-y-3">
+      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Baseline</label>
+          <Select
+            value={baselineWorkspaceId ?? ''}
+            onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setBaselineWorkspaceId(e.target.value || null)}
+          >
+            <option value="">This workspace</option>
+            {others.map(workspace => (
+              <option key={workspace.id} value={workspace.id}>{workspace.name}</option>
+            ))}
+          </Select>
+          <RangeButton
+            range={baselineRange}
+            onChange={setBaselineRange}
+            constraints={baselineWorkspaceId ? undefined : dateConstraints}
+            timeZone={timeZone}
+          />
+        </div>
+        <div className="space-y-2">
+          <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Comparison</label>
+          <p className="px-3 py-2 text-sm text-gray-500">This workspace</p>
+          <RangeButton
+            range={comparisonRange}
+            onChange={setComparisonRange}
+            constraints={dateConstraints}
+            timeZone={timeZone}
+          />
+        </div>
+      </div>
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <div className="flex flex-wrap gap-2">
+          {counts && CHANGE_KINDS.map(kind => (
+            <button
+              key={kind}
+              onClick={() => toggleChange(kind)}
+              className={`px-3 py-1 text-sm rounded-full border ${
+                changeFilter.includes(kind)
+                  ? 'bg-blue-50 border-blue-300 text-blue-700'
+                  : 'bg-white border-gray-300 text-gray-500 hover:bg-gray-50'
+              }`}
+            >
+              {CHANGE_LABELS[kind]} <span className="text-xs">{(counts[kind] ?? 0).toLocaleString()}</span>
+            </button>
+          ))}
+        </div>
+        <button
+          onClick={() => onCompare({ baselineWorkspaceId, baselineRange, comparisonRange })}
+          disabled={running || sameData}
+          title={sameData ? 'Pick different date ranges or another workspace as the baseline' : undefined}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {running ? 'Comparing…' : 'Compare'}
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ComparePanel;
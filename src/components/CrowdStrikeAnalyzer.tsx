@@ -1,48 +1,154 @@
-import React, { useState, useMemo, useEffect, lazy, Suspense } from 'react';
-import { initDB, saveData, loadData, clearData } from '../services/indexedDBService';
+import React, { useState, useMemo, useEffect, useRef, useCallback, lazy, Suspense } from 'react';
+import {
+  initDB,
+  loadSettings,
+  saveSettings,
+  saveHeaderMapping,
+  StorageStatus,
+  WorkspaceMeta,
+  WorkspaceState,
+  createWorkspaceId,
+  listWorkspaces,
+  saveWorkspaceMeta,
+  saveWorkspaceState,
+  loadWorkspaceState,
+  saveWorkspaceEvents,
+  loadWorkspaceEvents,
+  deleteWorkspace,
+  duplicateWorkspace,
+  loadActiveWorkspaceId,
+  saveActiveWorkspaceId,
+  getStorageStatus,
+  requestPersistentStorage,
+  loadRelationships,
+  loadSearchHistory,
+  saveSearchHistory,
+  loadSavedViews,
+  saveSavedViews
+} from '../services/indexedDBService';
 import { Card, CardContent } from './ui/card';
 import { Alert, AlertDescription } from './ui/alert';
-import { Input } from './ui/input';
 import { Select } from './ui/select';
+import { Progress } from './ui/progress';
 import Papa from 'papaparse';
 import _ from 'lodash';
-import { Upload, Download, Check, Search, RotateCcw, Info, X } from 'lucide-react';
+import { Upload, Download, Check, RotateCcw, Info, X, GitCompare } from 'lucide-react';
 import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
 import VirtualizedTable from './VirtualizedTable.tsx';
+import RawEventTable from './RawEventTable';
+import EventDrawer from './EventDrawer';
+import SearchQueryInput from './SearchQueryInput';
 import DateRangeSelector from './DateRangeSelector';
+import {
+  aggregateRows,
+  buildHeatmapRows,
+  buildTimelineRows,
+  cancelProcessing,
+  compareRows,
+  detectPeriodicRows,
+  findPathRows,
+  isCancelledError,
+  listEventRows,
+  parseFiles,
+  profileHostRows,
+  scoreRows
+} from '../services/analyzerWorkerService';
+import { HeaderGroup, groupFilesByHeaders, needsReview } from '../services/importService';
+import {
+  ARCHIVE_EXTENSIONS,
+  ImportFile,
+  SUPPORTED_EXTENSIONS,
+  expandFiles,
+  isImportableFile
+} from '../lib/importFiles';
+import { CrowdStrikeRow, DateConstraints, DateRange, ImportSummary, ProcessedRow, RawEvent } from '../lib/types';
+import { EventList, ProcessOptions, getDateConstraints } from '../lib/processData';
+import { addToHistory, createQueryMatcher, parseQuery, quoteQueryValue } from '../lib/searchQuery';
+import { PathOptions } from '../lib/lateralMovement';
+import { HeatmapFilter, TimeSlice, formatTimeSlice } from '../lib/activityHeatmap';
+import { TimelineOptions } from '../lib/timeline';
+import { DEFAULT_SORT, SavedView, ViewSort, ViewState, decodeViewHash, encodeViewHash } from '../lib/viewState';
+import TimeZoneSelect from './TimeZoneSelect';
+import ImportSummaryCard from './ImportSummaryCard';
+import { ParseProgress, ParseResult } from '../workers/protocol';
+import { ValidationIssue, excludeRows, hasValidationIssues } from '../lib/validation';
+import HeaderMappingWizard from './HeaderMappingWizard';
+import ValidationReportPanel from './ValidationReportPanel';
+import WorkspaceSwitcher from './WorkspaceSwitcher';
+import LockSettings from './LockSettings';
+import BusinessCalendarSettings from './BusinessCalendarSettings';
+import SavedViewsMenu from './SavedViewsMenu';
+import UnlockScreen from './UnlockScreen';
+import {
+  changePassphrase,
+  disableEncryption,
+  enableEncryption,
+  forgetKey,
+  initEncryption,
+  isUnlocked,
+  lock,
+  unlock
+} from '../services/encryptionService';
+import { useIdleTimer } from '../hooks/useIdleTimer';
+import BundlePassphrasePrompt from './BundlePassphrasePrompt';
+import {
+  BUNDLE_EXTENSION,
+  EncryptedBundle,
+  WorkspaceBundle,
+  decryptBundle,
+  exportWorkspace,
+  importWorkspace,
+  isBundleFile,
+  readBundle
+} from '../services/workspaceBundleService';
+import { HeaderMapping } from '../lib/headerMapping';
+import ComparePanel, { CompareSpec } from './ComparePanel';
+import { CHANGE_LABELS, ChangeKind, CompareOptions } from '../lib/compareData';
+import { RelationshipRecord, getHistory, relationshipKey } from '../lib/relationshipLedger';
+import { AnomalyScore } from '../lib/anomalyScore';
+import { CADENCE_KINDS, CADENCE_LABELS, CadenceFilter, Periodicity } from '../lib/periodicity';
+import { BusinessCalendar, DEFAULT_BUSINESS_CALENDAR, OFF_HOURS_LABELS } from '../lib/businessCalendar';
+import { recordImport } from '../services/relationshipService';
+import {
+  DEFAULT_EVENT_TYPE,
+  EVENT_TYPES,
+  EventField,
+  EventTypeId,
+  countEventTypes,
+  getFieldLabel,
+  patternKey
+} from '../lib/eventTypes';
+import {
+  BUCKET_MODES,
+  BucketMode,
+  DEFAULT_BUCKET_MODE,
+  DEFAULT_TIME_ZONE,
+  formatZonedDateTime,
+  fromCalendarDate,
+  getTimeZoneLabel,
+  isValidTimeZone,
+  resolveTimeZone,
+  toCalendarDate
+} from '../lib/time';
 
 // Lazy load the dashboard component
 const CrowdStrikeDashboard = lazy(() => import('./CrowdStrikeDashboard'));
+const AccessTimeline = lazy(() => import('./AccessTimeline'));
+const HostDetail = lazy(() => import('./HostDetail'));
 
-interface CrowdStrikeRow {
-  Timestamp: string;
-  Source: string;
-  'Source Name': string;
-  IP: string;
-  Service: string;
-  Target: string;
-  time_group?: string;
-}
-
-interface ProcessedRow {
-  Source: string;
-  'Source Name': string;
-  IP: string;
-  Service: string;
-  Target: string;
-  Time: string;
-  freq: number;
-}
-
-interface SortConfig {
-  key: keyof ProcessedRow;
-  direction: 'asc' | 'desc';
-}
-
-interface DateRange {
-  startDate: string;
-  endDate: string;
-}
+const saveFile = (blob: Blob, filename: string) => {
+  const url = window.URL.createObjectURL(blob);
+  const a = document.createElement('a');
+  a.href = url;
+  a.download = filename;
+  document.body.appendChild(a);
+  a.click();
+  document.body.removeChild(a);
+  window.URL.revokeObjectURL(url);
+};
+
+// The table lists aggregated rows, or the raw events behind them
+type TableMode = 'aggregated' | 'raw';
 
 const CrowdStrikeAnalyzer: React.FC = () => {
   const [results, setResults] = useState<ProcessedRow[] | null>(null);
@@ -54,98 +160,106 @@ const CrowdStrikeAnalyzer: React.FC = () => {
   const [downloadSuccess, setDownloadSuccess] = useState<boolean>(false);
   const [searchTerm, setSearchTerm] = useState<string>('');
   const [selectedSource, setSelectedSource] = useState<string>('');
-  const [sortConfig, setSortConfig] = useState<SortConfig>({ 
-    key: 'freq', 
-    direction: 'desc' 
-  });
+  const [sortConfig, setSortConfig] = useState<ViewSort>(DEFAULT_SORT);
   const [dateRange, setDateRange] = useState<DateRange>({
     startDate: '',
     endDate: ''
   });
   const [rawData, setRawData] = useState<CrowdStrikeRow[]>([]);
   const [currentFile, setCurrentFile] = useState<string>('');
-  const [dateConstraints, setDateConstraints] = useState<{
-    minDate: string;
-    maxDate: string;
-  }>({
+  const [dateConstraints, setDateConstraints] = useState<DateConstraints>({
     minDate: '',
     maxDate: ''
   });
+  const [progress, setProgress] = useState<ParseProgress | null>(null);
+  const [importSummary, setImportSummary] = useState<ImportSummary | null>(null);
+  const [pendingMapping, setPendingMapping] = useState<{ files: ImportFile[]; groups: HeaderGroup[] } | null>(null);
+  const [pendingValidation, setPendingValidation] = useState<ParseResult | null>(null);
+  const [eventType, setEventType] = useState<EventTypeId>(DEFAULT_EVENT_TYPE);
+  const [bucketMode, setBucketMode] = useState<BucketMode>(DEFAULT_BUCKET_MODE);
+  const [timeZoneSetting, setTimeZoneSetting] = useState<string>(DEFAULT_TIME_ZONE);
+  const settingsLoaded = useRef(false);
+  const [workspaces, setWorkspaces] = useState<WorkspaceMeta[]>([]);
+  const [activeWorkspaceId, setActiveWorkspaceId] = useState<string | null>(null);
+  const [storageStatus, setStorageStatus] = useState<StorageStatus | null>(null);
+  const [encryptionEnabled, setEncryptionEnabled] = useState(false);
+  const [locked, setLocked] = useState(false);
+  const [autoLockMinutes, setAutoLockMinutes] = useState(0);
+  // Past search queries, most recent first
+  const [searchHistory, setSearchHistory] = useState<string[]>([]);
+  const [savedViews, setSavedViews] = useState<SavedView[]>([]);
+  // Set once the history and saved views are read from storage; cleared while
+  // locked so the empty lists aren't saved over them
+  const searchDataLoaded = useRef(false);
+  // Title of the open dashboard tab
+  const [dashboardTab, setDashboardTab] = useState('');
+  // View from the URL hash or a saved view, applied once results are loaded
+  const [pendingView, setPendingView] = useState<ViewState | null>(() => decodeViewHash(window.location.hash));
+  const [headerMappings, setHeaderMappings] = useState<Record<string, HeaderMapping>>({});
+  // Mappings of the import in progress, kept until it becomes a workspace
+  const importMappings = useRef<Record<string, HeaderMapping>>({});
+  const [pendingBundle, setPendingBundle] = useState<{ fileName: string; envelope: EncryptedBundle } | null>(null);
+  const [compareMode, setCompareMode] = useState(false);
+  const [comparison, setComparison] = useState<{ spec: CompareSpec; rows: ProcessedRow[] } | null>(null);
+  const [comparing, setComparing] = useState(false);
+  const [changeFilter, setChangeFilter] = useState<ChangeKind[]>(['new', 'gone', 'changed']);
+  const [ledger, setLedger] = useState<RelationshipRecord[] | null>(null);
+  const [newOnly, setNewOnly] = useState(false);
+  const [anomalies, setAnomalies] = useState<AnomalyScore[] | null>(null);
+  const [periodicity, setPeriodicity] = useState<Periodicity[] | null>(null);
+  // IP or hostname whose host view is open
+  const [focusedHost, setFocusedHost] = useState<string | null>(null);
+  const [tableMode, setTableMode] = useState<TableMode>('aggregated');
+  const [rawEvents, setRawEvents] = useState<EventList | null>(null);
+  // Aggregated row whose raw events are open in the drawer
+  const [selectedRow, setSelectedRow] = useState<ProcessedRow | null>(null);
+  const [cadenceFilter, setCadenceFilter] = useState<CadenceFilter>('');
+  const [businessCalendar, setBusinessCalendar] = useState<BusinessCalendar>(DEFAULT_BUSINESS_CALENDAR);
+  const [offHoursOnly, setOffHoursOnly] = useState(false);
+  const [timeSlice, setTimeSlice] = useState<TimeSlice | null>(null);
+  // Rows already written to the active workspace's event store
+  const savedRows = useRef<CrowdStrikeRow[] | null>(null);
+  const tableRef = useRef<HTMLDivElement>(null);
 
-  const convertToPST = (dateStr: string): string => {
-    const date = new Date(dateStr);
-    return date.toLocaleString('en-US', {
-      timeZone: 'America/Los_Angeles',
-      hour: '2-digit',
-      minute: '2-digit',
-      second: '2-digit',
-      hour12: false
-    }) + ' PST';
-  };
+  const timeZone = useMemo(() => resolveTimeZone(timeZoneSetting), [timeZoneSetting]);
 
-  // Memoize the data processing function
-  const processData = useMemo(() => {
-    return (data: CrowdStrikeRow[], dateRange?: DateRange): ProcessedRow[] => {
-      try {
-        // First, create a map of IPs to their hostnames
-        const ipToHostnameMap = new Map<string, string>();
-        data.forEach(row => {
-          if (row.IP && row['Source Name'] && (!ipToHostnameMap.has(row.IP) || !ipToHostnameMap.get(row.IP))) {
-            ipToHostnameMap.set(row.IP, row['Source Name']);
-          }
-        });
-
-        // Convert timestamp strings to Date objects and filter by date range if provided
-        const processedData = data.map(row => ({
-          ...row,
-          'Source Name': ipToHostnameMap.get(row.IP) || row['Source Name'], // Use mapped hostname if available
-          Timestamp: new Date(row.Timestamp),
-          time_group: new Date(row.Timestamp).toLocaleString('en-US', {
-            timeZone: 'America/Los_Angeles',
-            hour: '2-digit',
-            minute: '2-digit',
-            hour12: false
-          })
-        }));
-
-        // Filter by date range if provided
-        const filteredData = dateRange?.startDate && dateRange?.endDate
-          ? processedData.filter(row => {
-              const startDate = new Date(dateRange.startDate);
-              const endDate = new Date(dateRange.endDate);
-              endDate.setHours(23, 59, 59, 999); // Include the entire end date
-              return row.Timestamp >= startDate && row.Timestamp <= endDate;
-            })
-          : processedData;
-
-        // Sort by timestamp
-        const sortedData = _.sortBy(filteredData, 'Timestamp');
-
-        // Group by relevant columns
-        const grouped = _.groupBy(sortedData, row => 
-          `${row.Source}|${row['Source Name']}|${row.IP}|${row.Service}|${row.Target}|${row.time_group}`
-        );
-
-        // Create summary with counts and time info
-        const frequencyData = Object.entries(grouped).map(([key, group]) => {
-          const [Source, SourceName, IP, Service, Target] = key.split('|');
-          return {
-            Source,
-            'Source Name': SourceName,
-            IP,
-            Service,
-            Target,
-            Time: convertToPST(group[0].Timestamp.toISOString()),
-            freq: group.length
-          };
-        });
-
-        return _.orderBy(frequencyData, ['Source', 'freq'], ['asc', 'desc']);
-      } catch (err) {
-        throw new Error(`Data processing failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
-      }
-    };
-  }, []);
+  const eventTypeCounts = useMemo(() => countEventTypes(rawData), [rawData]);
+
+  // History per relationship from the ledger, joined onto the aggregated rows.
+  // New means first seen in the open workspace's import
+  const withHistory = useMemo(() => {
+    if (!ledger?.length) return (data: ProcessedRow[]) => data;
+    const history = new Map(ledger.map(record => [record.key, getHistory(record, activeWorkspaceId)]));
+    return (data: ProcessedRow[]) => data.map(row => {
+      const found = history.get(relationshipKey(row));
+      return found ? { ...row, ...found } : row;
+    });
+  }, [ledger, activeWorkspaceId]);
+
+  // Anomaly scores and regular cadences joined onto the aggregated rows
+  const withPatterns = useMemo(() => {
+    if (!anomalies && !periodicity) return (data: ProcessedRow[]) => data;
+    const scores = new Map(anomalies?.map(score => [score.key, score]));
+    const cadences = new Map(periodicity?.map(found => [found.key, found]));
+    return (data: ProcessedRow[]) => data.map(row => {
+      const key = patternKey(row, row.eventType ?? eventType);
+      const score = scores.get(key);
+      const cadence = cadences.get(key);
+      if (!score && !cadence) return row;
+      return {
+        ...row,
+        ...(score && { anomalyScore: score.score, anomalyReasons: score.reasons }),
+        ...(cadence && {
+          cadence: cadence.cadence,
+          periodMs: cadence.periodMs,
+          jitterMs: cadence.jitterMs,
+          cadenceReason: cadence.reason
+        })
+      };
+    });
+  }, [anomalies, periodicity, eventType]);
+
+  const searchQuery = useMemo(() => parseQuery(searchTerm), [searchTerm]);
 
   // Memoize the filtering function
   const filterResults = useMemo(() => {
@@ -157,21 +271,27 @@ const CrowdStrikeAnalyzer: React.FC = () => {
         filtered = filtered.filter(row => row.IP === selectedSource);
       }
 
-      // Apply search filter
-      if (searchTerm) {
-        const searchLower = searchTerm.toLowerCase();
-        filtered = filtered.filter(row => 
-          row.Source.toLowerCase().includes(searchLower) ||
-          row.Target.toLowerCase().includes(searchLower) ||
-          row['Source Name'].toLowerCase().includes(searchLower) ||
-          row.IP.toLowerCase().includes(searchLower) ||
-          row.Service.toLowerCase().includes(searchLower)
-        );
+      if (newOnly) {
+        filtered = filtered.filter(row => row.isNew);
+      }
+
+      // Comparison rows span whole periods and carry no off-hours counts
+      if (offHoursOnly) {
+        filtered = filtered.filter(row => row.offHours === undefined || row.offHours > 0);
+      }
+
+      if (cadenceFilter) {
+        filtered = filtered.filter(row => cadenceFilter === 'periodic' ? !!row.cadence : row.cadence === cadenceFilter);
+      }
+
+      // Apply the search query; one with a syntax error filters nothing
+      if (searchQuery.node) {
+        filtered = filtered.filter(createQueryMatcher(searchQuery.node, { timeZone }));
       }
 
       return filtered;
     };
-  }, [selectedSource, searchTerm]);
+  }, [selectedSource, searchQuery, timeZone, newOnly, cadenceFilter, offHoursOnly]);
 
   // Memoize the sorting function
   const sortResults = useMemo(() => {
@@ -180,12 +300,60 @@ const CrowdStrikeAnalyzer: React.FC = () => {
     };
   }, [sortConfig]);
 
-  // Combine filtering and sorting with memoization
-  const filteredAndSortedResults = useMemo(() => {
-    if (!results) return [];
-    const filtered = filterResults(results);
+  // Kept apart from the sort, so re-sorting doesn't re-list raw events
+  const filteredResults = useMemo(
+    () => results ? filterResults(withPatterns(withHistory(results))) : [],
+    [results, withHistory, withPatterns, filterResults]
+  );
+
+  const filteredAndSortedResults = useMemo(() => sortResults(filteredResults), [filteredResults, sortResults]);
+
+  // Comparison rows go through the same search, source filter and sort
+  const comparisonResults = useMemo(() => {
+    if (!compareMode || !comparison) return null;
+    const filtered = filterResults(withPatterns(withHistory(comparison.rows))).filter(row => changeFilter.includes(row.change!));
     return sortResults(filtered);
-  }, [results, filterResults, sortResults]);
+  }, [compareMode, comparison, changeFilter, withHistory, withPatterns, filterResults, sortResults]);
+
+  const showingComparison = compareMode && !!comparison;
+
+  // Raw mode lists the events behind the rows that pass the table's filters
+  useEffect(() => {
+    if (tableMode !== 'raw' || !results || showingComparison) return;
+    let cancelled = false;
+    setRawEvents(null);
+    listEventRows(rawData, {
+      dateRange,
+      bucketMode,
+      timeZone,
+      eventType,
+      calendar: businessCalendar,
+      timeSlice,
+      // Unfiltered results cover every event, so skip matching them
+      groups: filteredResults.length === results.length ? undefined : filteredResults
+    })
+      .then(list => {
+        if (!cancelled) setRawEvents(list);
+      })
+      .catch(err => {
+        if (!cancelled && !isCancelledError(err)) {
+          setError(`Failed to list events: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [tableMode, results, showingComparison, filteredResults, rawData, dateRange, bucketMode, timeZone, eventType, businessCalendar, timeSlice]);
+
+  // A row's events only make sense against the results it came from
+  useEffect(() => {
+    setSelectedRow(null);
+  }, [results]);
+
+  const changeCounts = useMemo(
+    () => comparison ? _.countBy(comparison.rows, 'change') as Partial<Record<ChangeKind, number>> : null,
+    [comparison]
+  );
 
   // Memoized filtered and sorted results
   const uniqueSources = useMemo(() => {
@@ -227,22 +395,155 @@ const CrowdStrikeAnalyzer: React.FC = () => {
     });
   }, []);
 
-  // Load persisted data on component mount
+  // Load the saved display settings
+  useEffect(() => {
+    loadSettings()
+      .then(settings => {
+        if (settings?.timeZone && isValidTimeZone(resolveTimeZone(settings.timeZone))) {
+          setTimeZoneSetting(settings.timeZone);
+        }
+        setAutoLockMinutes(settings?.autoLockMinutes ?? 0);
+        if (settings?.businessCalendar) setBusinessCalendar(settings.businessCalendar);
+      })
+      .catch(error => {
+        setError(`Failed to load settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(() => {
+        settingsLoaded.current = true;
+      });
+  }, []);
+
+  // Persist settings once the saved ones have been read
+  useEffect(() => {
+    if (!settingsLoaded.current) return;
+    saveSettings({ timeZone: timeZoneSetting, autoLockMinutes, businessCalendar }).catch(error => {
+      setError(`Failed to save settings: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }, [timeZoneSetting, autoLockMinutes, businessCalendar]);
+
+  // The history and saved views are sealed with the workspaces, so they are
+  // only read once unlocked
+  const loadSearchData = async () => {
+    const [history, views] = await Promise.all([loadSearchHistory(), loadSavedViews()]);
+    setSearchHistory(history);
+    setSavedViews(views);
+    searchDataLoaded.current = true;
+  };
+
+  useEffect(() => {
+    if (!searchDataLoaded.current) return;
+    saveSearchHistory(searchHistory).catch(error => {
+      setError(`Failed to save search history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }, [searchHistory]);
+
+  useEffect(() => {
+    if (!searchDataLoaded.current) return;
+    saveSavedViews(savedViews).catch(error => {
+      setError(`Failed to save views: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }, [savedViews]);
+
+  const refreshStorageStatus = async () => {
+    try {
+      setStorageStatus(await getStorageStatus());
+    } catch {
+      setStorageStatus(null);
+    }
+  };
+
+  const refreshWorkspaces = async () => {
+    setWorkspaces(await listWorkspaces());
+    refreshStorageStatus();
+  };
+
+  const applyWorkspace = async (
+    id: string,
+    state: WorkspaceState | null,
+    rows: CrowdStrikeRow[],
+    displayTimeZone: string,
+    calendar: BusinessCalendar
+  ) => {
+    // Aggregates aren't stored; they are rebuilt from the events
+    const restored = await aggregateRows(rows, {
+      dateRange: state?.dateRange,
+      bucketMode: state?.bucketMode,
+      eventType: state?.eventType,
+      timeZone: displayTimeZone,
+      calendar,
+      timeSlice: state?.timeSlice
+    });
+    savedRows.current = rows;
+    setActiveWorkspaceId(id);
+    setRawData(rows);
+    setResults(restored);
+    setSearchTerm(state?.searchTerm || '');
+    setSelectedSource(state?.selectedSource || '');
+    setDateRange(state?.dateRange || { startDate: '', endDate: '' });
+    setDateConstraints(state?.dateConstraints || getDateConstraints(rows, displayTimeZone));
+    setCurrentFile(state?.currentFile || '');
+    setBucketMode(state?.bucketMode || DEFAULT_BUCKET_MODE);
+    setImportSummary(state?.importSummary || null);
+    setEventType(state?.eventType || DEFAULT_EVENT_TYPE);
+    setHeaderMappings(state?.mappings || {});
+    setNewOnly(state?.newOnly || false);
+    setCadenceFilter(state?.cadenceFilter || '');
+    setOffHoursOnly(state?.offHoursOnly || false);
+    setTimeSlice(state?.timeSlice ?? null);
+    setCompareMode(false);
+    setComparison(null);
+    setPendingMapping(null);
+    setPendingValidation(null);
+    setShowSelector(false);
+    setShowResults(true);
+  };
+
+  const openWorkspace = async (id: string, displayTimeZone = timeZone) => {
+    try {
+      const [state, rows, list] = await Promise.all([loadWorkspaceState(id), loadWorkspaceEvents(id), listWorkspaces()]);
+      const meta = list.find(workspace => workspace.id === id);
+      if (!meta) throw new Error('The workspace no longer exists');
+      if (rows.length === 0) {
+        throw new Error('Its saved events are missing. The browser may have cleared storage to free up space.');
+      }
+      await applyWorkspace(id, state, rows, displayTimeZone, businessCalendar);
+      await saveWorkspaceMeta({ ...meta, lastOpened: new Date().toISOString() });
+      await saveActiveWorkspaceId(id);
+      await refreshWorkspaces();
+    } catch (error) {
+      setError(`Failed to open workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  // Reopen the workspace that was active last time. Encrypted storage stays
+  // closed until the passphrase is entered
   useEffect(() => {
     const loadPersistedData = async () => {
       try {
-        const persistedData = await loadData();
-        if (persistedData && persistedData.rawData.length > 0) {
-          setRawData(persistedData.rawData);
-          setResults(persistedData.results);
-          setSearchTerm(persistedData.searchTerm || '');
-          setSelectedSource(persistedData.selectedSource || '');
-          setDateRange(persistedData.dateRange || { startDate: '', endDate: '' });
-          setDateConstraints(persistedData.dateConstraints || { minDate: '', maxDate: '' });
-          setCurrentFile(persistedData.currentFile || '');
-          setShowSelector(false);
-          setShowResults(true);
+        const settings = await loadSettings();
+        const enabled = await initEncryption();
+        setEncryptionEnabled(enabled);
+        if (enabled && !isUnlocked()) {
+          setLocked(true);
+          return;
         }
+        const activeId = await loadActiveWorkspaceId();
+        setWorkspaces(await listWorkspaces());
+        refreshStorageStatus();
+        await loadSearchData();
+        if (activeId) {
+          const [state, rows] = await Promise.all([loadWorkspaceState(activeId), loadWorkspaceEvents(activeId)]);
+          if (rows.length > 0) {
+            await applyWorkspace(
+              activeId,
+              state,
+              rows,
+              resolveTimeZone(settings?.timeZone || DEFAULT_TIME_ZONE),
+              settings?.businessCalendar ?? DEFAULT_BUSINESS_CALENDAR
+            );
+          }
+        }
+        setLedger(await loadRelationships());
       } catch (error) {
         setError(`Failed to load data: ${error instanceof Error ? error.message : 'Unknown error'}`);
       }
@@ -250,87 +551,440 @@ const CrowdStrikeAnalyzer: React.FC = () => {
     loadPersistedData();
   }, []);
 
-  // Save data to IndexedDB when relevant states change
+  // Events are written once per import; filters and view settings are small
+  // and saved separately, so typing in the search box never rewrites the data
+  useEffect(() => {
+    if (!activeWorkspaceId || rawData.length === 0 || savedRows.current === rawData) return;
+    savedRows.current = rawData;
+    saveWorkspaceEvents(activeWorkspaceId, rawData)
+      .catch(error => {
+        setError(`Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      })
+      .finally(refreshStorageStatus);
+  }, [activeWorkspaceId, rawData]);
+
+  useEffect(() => {
+    if (!activeWorkspaceId) return;
+    saveWorkspaceState({
+      workspaceId: activeWorkspaceId,
+      searchTerm,
+      selectedSource,
+      dateRange,
+      dateConstraints,
+      currentFile,
+      bucketMode,
+      importSummary,
+      eventType,
+      mappings: headerMappings,
+      newOnly,
+      cadenceFilter,
+      offHoursOnly,
+      timeSlice
+    }).catch(error => {
+      setError(`Failed to save view: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    });
+  }, [activeWorkspaceId, searchTerm, selectedSource, dateRange, dateConstraints, currentFile, bucketMode, importSummary, eventType, headerMappings, newOnly, cadenceFilter, offHoursOnly, timeSlice]);
+
+  // Scores judge each relationship against the whole dataset, so they ignore
+  // the date range and only follow the data, event type and time zone
+  useEffect(() => {
+    setAnomalies(null);
+    if (!rawData.length) return;
+    let cancelled = false;
+    scoreRows(rawData, { eventType, timeZone })
+      .then(scores => {
+        if (!cancelled) setAnomalies(scores);
+      })
+      .catch(error => {
+        if (!cancelled && !isCancelledError(error)) {
+          setError(`Failed to score anomalies: ${error instanceof Error ? error.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [rawData, eventType, timeZone]);
+
   useEffect(() => {
-    const persistData = async () => {
-      if (rawData.length > 0) {
-        try {
-          await saveData({
-            rawData,
-            results,
-            searchTerm,
-            selectedSource,
-            dateRange,
-            dateConstraints,
-            currentFile
-          });
-        } catch (error) {
-          setError(`Failed to save data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    setPeriodicity(null);
+    if (!rawData.length) return;
+    let cancelled = false;
+    detectPeriodicRows(rawData, { eventType })
+      .then(found => {
+        if (!cancelled) setPeriodicity(found);
+      })
+      .catch(error => {
+        if (!cancelled && !isCancelledError(error)) {
+          setError(`Failed to detect periodic activity: ${error instanceof Error ? error.message : 'Unknown error'}`);
         }
-      }
+      });
+    return () => {
+      cancelled = true;
     };
-    persistData();
-  }, [rawData, results, searchTerm, selectedSource, dateRange, dateConstraints, currentFile]);
+  }, [rawData, eventType]);
+
+  const handlePersistStorage = async () => {
+    try {
+      if (!await requestPersistentStorage()) {
+        setError('The browser declined to keep storage persistently. Bookmarking the page or installing it as an app can help.');
+      }
+    } catch (error) {
+      setError(`Failed to request persistent storage: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    refreshStorageStatus();
+  };
+
+  // Clears the view without touching what is saved
+  const clearView = () => {
+    cancelProcessing();
+    savedRows.current = null;
+    setResults(null);
+    setShowResults(false);
+    setShowSelector(true);
+    setActiveWorkspaceId(null);
+    setCurrentFile('');
+    setRawData([]);
+    setImportSummary(null);
+    setSearchTerm('');
+    setSelectedSource('');
+    setDateRange({ startDate: '', endDate: '' });
+    setPendingMapping(null);
+    setPendingValidation(null);
+    setCompareMode(false);
+    setComparison(null);
+    setNewOnly(false);
+    setCadenceFilter('');
+    setOffHoursOnly(false);
+    setTimeSlice(null);
+    setFocusedHost(null);
+    setLedger(null);
+    setWorkspaces([]);
+    searchDataLoaded.current = false;
+    setSearchHistory([]);
+    setSavedViews([]);
+  };
 
-  const resetView = async () => {
+  const handleUnlock = async (passphrase: string) => {
+    await unlock(passphrase);
+    setLocked(false);
+    const activeId = await loadActiveWorkspaceId();
+    if (activeId) {
+      await openWorkspace(activeId);
+    } else {
+      await refreshWorkspaces();
+    }
+    try {
+      setLedger(await loadRelationships());
+    } catch (error) {
+      setError(`Failed to load relationship history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    try {
+      await loadSearchData();
+    } catch (error) {
+      setError(`Failed to load search history and views: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const lockApp = () => {
+    lock();
+    clearView();
+    setLocked(true);
+  };
+
+  useIdleTimer(encryptionEnabled && !locked ? autoLockMinutes : 0, lockApp);
+
+  const handleEnableEncryption = async (passphrase: string) => {
+    await enableEncryption(passphrase);
+    setEncryptionEnabled(true);
+    await refreshWorkspaces();
+  };
+
+  const handleDisableEncryption = async () => {
+    await disableEncryption();
+    setEncryptionEnabled(false);
+    await refreshWorkspaces();
+  };
+
+  const handleForgetKey = async () => {
+    try {
+      clearView();
+      await forgetKey();
+      // The history and views went with the key; new ones are kept in plaintext
+      searchDataLoaded.current = true;
+    } catch (error) {
+      setError(`Failed to forget key: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+    setEncryptionEnabled(false);
+    setLocked(false);
+    refreshStorageStatus();
+  };
+
+  // Closing a workspace keeps it saved; it can be reopened from the switcher
+  const closeWorkspace = async () => {
     try {
       setResults(null);
       setShowResults(false);
       setTimeout(() => {
         setShowSelector(true);
       }, 300);
+      setActiveWorkspaceId(null);
       setCurrentFile('');
       setRawData([]);
+      setImportSummary(null);
       setSearchTerm('');
       setSelectedSource('');
       setDateRange({ startDate: '', endDate: '' });
-      // Clear IndexedDB when view is reset
-      await clearData();
+      setNewOnly(false);
+      setCadenceFilter('');
+      setOffHoursOnly(false);
+      setTimeSlice(null);
+      setFocusedHost(null);
+      setCompareMode(false);
+      setComparison(null);
+      await saveActiveWorkspaceId(null);
+    } catch (error) {
+      setError(`Failed to close workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleWorkspaceRename = async (id: string, name: string) => {
+    const meta = workspaces.find(workspace => workspace.id === id);
+    if (!meta) return;
+    try {
+      await saveWorkspaceMeta({ ...meta, name });
+      await refreshWorkspaces();
+    } catch (error) {
+      setError(`Failed to rename workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleWorkspaceNotesChange = async (id: string, notes: string) => {
+    const meta = workspaces.find(workspace => workspace.id === id);
+    if (!meta) return;
+    try {
+      await saveWorkspaceMeta({ ...meta, notes });
+      await refreshWorkspaces();
+    } catch (error) {
+      setError(`Failed to save notes: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleWorkspaceDuplicate = async (id: string) => {
+    const meta = workspaces.find(workspace => workspace.id === id);
+    if (!meta) return;
+    try {
+      await duplicateWorkspace(meta, `${meta.name} (copy)`);
+      await refreshWorkspaces();
+    } catch (error) {
+      setError(`Failed to duplicate workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const handleWorkspaceDelete = async (id: string) => {
+    try {
+      if (id === activeWorkspaceId) await closeWorkspace();
+      await deleteWorkspace(id);
+      await refreshWorkspaces();
     } catch (error) {
-      setError(`Failed to clear data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+      setError(`Failed to delete workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
     }
   };
 
-  const processFile = (file: File) => {
+  // Every import starts a new workspace so earlier investigations are kept
+  const createWorkspace = async (id: string, fileName: string) => {
+    const now = new Date().toISOString();
+    try {
+      await saveWorkspaceMeta({ id, name: fileName, notes: '', fileName, createdAt: now, lastOpened: now });
+      await saveActiveWorkspaceId(id);
+      await refreshWorkspaces();
+    } catch (error) {
+      setError(`Failed to create workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+    }
+  };
+
+  const showImport = (parsed: ParseResult) => {
+    const fileNames = parsed.summary.files.map(file => file.name);
+    const workspaceId = createWorkspaceId();
+    createWorkspace(workspaceId, fileNames.length === 1 ? fileNames[0] : `${fileNames.length} files`);
+    setActiveWorkspaceId(workspaceId);
+    setDateConstraints(parsed.dateConstraints);
+    setRawData(parsed.rows);
+    setResults(parsed.results);
+    setImportSummary(parsed.summary);
+    setEventType(parsed.eventType);
+    setHeaderMappings(importMappings.current);
+    setNewOnly(false);
+    setCadenceFilter('');
+    setOffHoursOnly(false);
+    setTimeSlice(null);
+    setFocusedHost(null);
+    setCompareMode(false);
+    setComparison(null);
+    updateLedger(parsed.rows, workspaceId);
+    // Start transition animation
+    setShowSelector(false);
+    setTimeout(() => {
+      setShowResults(true);
+      setLoading(false);
+      setProgress(null);
+    }, 300); // Wait for exit animation to complete
+  };
+
+  const handleImportError = (err: unknown) => {
+    if (!isCancelledError(err)) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+    setCurrentFile('');
+    setLoading(false);
+    setProgress(null);
+  };
+
+  const importFiles = async (files: ImportFile[], groups: HeaderGroup[]) => {
     setLoading(true);
     setError(null);
-    setCurrentFile(file.name);
-
-    Papa.parse<CrowdStrikeRow>(file, {
-      header: true,
-      dynamicTyping: true,
-      skipEmptyLines: true,
-      complete: (results) => {
-        try {
-          // Calculate min and max dates from the data
-          const timestamps = results.data.map(row => new Date(row.Timestamp).getTime());
-          const minDate = new Date(Math.min(...timestamps));
-          const maxDate = new Date(Math.max(...timestamps));
-          
-          setDateConstraints({
-            minDate: minDate.toISOString().split('T')[0],
-            maxDate: maxDate.toISOString().split('T')[0]
-          });
-          
-          setRawData(results.data);
-          const processedData = processData(results.data);
-          setResults(processedData);
-          // Start transition animation
-          setShowSelector(false);
-          setTimeout(() => {
-            setShowResults(true);
-            setLoading(false);
-          }, 300); // Wait for exit animation to complete
-        } catch (err) {
-          setError(err instanceof Error ? err.message : 'Unknown error');
-          setLoading(false);
-        }
-      },
-      error: (err) => {
-        setError(`File parsing failed: ${err.message}`);
+    setProgress(null);
+    setCurrentFile(files.length === 1 ? files[0].name : `${files.length} files`);
+    importMappings.current = Object.fromEntries(groups.map(group => [group.signature, group.mapping]));
+
+    try {
+      const sources = files.map(file => {
+        const { format, recordsPath, mapping } = groups.find(group => group.files.includes(file))!;
+        return { file, format, recordsPath, mapping };
+      });
+      // Parsing and aggregation run in a worker so large exports don't block the UI
+      const parsed = await parseFiles(sources, { bucketMode, timeZone, eventType, calendar: businessCalendar }, setProgress);
+      if (hasValidationIssues(parsed.validation)) {
+        setPendingValidation(parsed);
         setLoading(false);
+        setProgress(null);
+        return;
       }
-    });
+      showImport(parsed);
+    } catch (err) {
+      handleImportError(err);
+    }
+  };
+
+  // Every import adds to the relationship history. Restored bundles don't:
+  // their events were imported elsewhere, so nothing in them is new here
+  const updateLedger = (rows: CrowdStrikeRow[], workspaceId: string) => {
+    recordImport(rows, workspaceId)
+      .then(setLedger)
+      .catch(error => setError(error instanceof Error ? error.message : 'Unknown error'))
+      .finally(refreshStorageStatus);
+  };
+
+  const restoreBundle = async (bundle: WorkspaceBundle) => {
+    try {
+      const id = await importWorkspace(bundle);
+      await saveActiveWorkspaceId(id);
+      await openWorkspace(id);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  // A workspace file restores a whole investigation rather than adding events
+  const importBundle = async (file: File) => {
+    try {
+      const contents = await readBundle(file);
+      if (contents.encrypted) {
+        setPendingBundle({ fileName: file.name, envelope: contents.envelope });
+        return;
+      }
+      await restoreBundle(contents.bundle);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const handleBundlePassphrase = async (passphrase: string) => {
+    if (!pendingBundle) return;
+    const bundle = await decryptBundle(pendingBundle.envelope, passphrase);
+    setPendingBundle(null);
+    await restoreBundle(bundle);
+  };
+
+  const handleWorkspaceExport = async (id: string, passphrase: string) => {
+    const meta = workspaces.find(workspace => workspace.id === id);
+    if (!meta) return;
+    try {
+      const blob = await exportWorkspace(id, passphrase || undefined);
+      saveFile(blob, `${meta.name.replace(/[\\/:*?"<>|]+/g, '_')}${BUNDLE_EXTENSION}`);
+    } catch (error) {
+      setError(error instanceof Error ? error.message : 'Unknown error');
+    }
+  };
+
+  const processFiles = async (uploads: File[]) => {
+    setError(null);
+    setPendingMapping(null);
+    setPendingValidation(null);
+    setPendingBundle(null);
+    const bundleFile = uploads.find(file => isBundleFile(file.name));
+    if (bundleFile) {
+      importBundle(bundleFile);
+      return;
+    }
+    try {
+      // Archives are opened in the browser and each member imported as its own file
+      const files = await expandFiles(uploads);
+      // Check headers up front; unfamiliar layouts go through the mapping step
+      const groups = await groupFilesByHeaders(files);
+      if (groups.some(needsReview)) {
+        setPendingMapping({ files, groups });
+        return;
+      }
+      importFiles(files, groups);
+    } catch (err) {
+      handleImportError(err);
+    }
+  };
+
+  const handleMappingConfirm = async (groups: HeaderGroup[]) => {
+    if (!pendingMapping) return;
+    const { files } = pendingMapping;
+    setPendingMapping(null);
+    try {
+      await Promise.all(groups.map(group => saveHeaderMapping(group.signature, group.mapping)));
+    } catch (err) {
+      setError(`Failed to save column mapping: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+    importFiles(files, groups);
+  };
+
+  const handleValidationConfirm = async (exclude: ValidationIssue[]) => {
+    if (!pendingValidation) return;
+    const parsed = pendingValidation;
+    setPendingValidation(null);
+
+    const rows = excludeRows(parsed.rows, parsed.validation, exclude);
+    if (rows === parsed.rows) {
+      showImport(parsed);
+      return;
+    }
+
+    setLoading(true);
+    try {
+      showImport({
+        ...parsed,
+        rows,
+        results: await aggregateRows(rows, { bucketMode, timeZone, eventType: parsed.eventType, calendar: businessCalendar }),
+        dateConstraints: getDateConstraints(rows, timeZone),
+        summary: { ...parsed.summary, totalRows: rows.length }
+      });
+    } catch (err) {
+      handleImportError(err);
+    }
+  };
+
+  const handleValidationCancel = () => {
+    setPendingValidation(null);
+    setCurrentFile('');
+  };
+
+  const cancelImport = () => {
+    cancelProcessing();
   };
 
   const loadSampleData = async () => {
@@ -338,16 +992,18 @@ const CrowdStrikeAnalyzer: React.FC = () => {
       const response = await fetch('/sample_data.csv');
       const text = await response.text();
       const file = new File([text], 'sample_data.csv', { type: 'text/csv' });
-      processFile(file);
+      processFiles([file]);
     } catch (error) {
       setError('Failed to load sample data: ' + (error instanceof Error ? error.message : 'Unknown error'));
     }
   };
 
   const handleFileUpload = (event: React.ChangeEvent<HTMLInputElement>) => {
-    const file = event.target.files?.[0];
-    if (!file) return;
-    processFile(file);
+    const files = Array.from(event.target.files ?? []);
+    // Allow selecting the same files again after a reset
+    event.target.value = '';
+    if (!files.length) return;
+    processFiles(files);
   };
 
   const handleDragOver = (event: React.DragEvent<HTMLDivElement>) => {
@@ -367,69 +1023,366 @@ const CrowdStrikeAnalyzer: React.FC = () => {
     event.stopPropagation();
     setIsDragging(false);
 
-    const file = event.dataTransfer.files[0];
-    if (!file || !file.name.toLowerCase().endsWith('.csv')) {
-      setError('Please drop a valid CSV file');
+    const files = Array.from(event.dataTransfer.files).filter(file => isImportableFile(file.name) || isBundleFile(file.name));
+    if (!files.length) {
+      setError(`Please drop one or more CSV, JSON or NDJSON files (optionally .gz or .zip compressed), or a ${BUNDLE_EXTENSION} workspace file`);
       return;
     }
-    processFile(file);
+    processFiles(files);
+  };
+
+  const downloadEvents = (events: RawEvent[]) => {
+    const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
+    const columns = EVENT_TYPES[eventType].columns.filter((key): key is EventField => key !== 'IP' && key !== 'Time' && key !== 'freq');
+    const csv = Papa.unparse(events.map(event => ({
+      Timestamp: new Date(event.time).toISOString(),
+      Time: formatZonedDateTime(event.time, timeZone),
+      'Time Zone': timeZone,
+      Source: event['Source Name'] ? `${event['Source Name']} (${event.IP})` : event.IP,
+      ...Object.fromEntries(columns.map(key => [getFieldLabel(eventType, key), event[key] ?? ''])),
+      'Off-Hours Reason': event.offHoursReason ? OFF_HOURS_LABELS[event.offHoursReason] : '',
+      File: event.sourceFile ?? ''
+    })));
+    saveFile(new Blob([csv], { type: 'text/csv' }), `crowdstrike_events_${timestamp}.csv`);
+
+    setDownloadSuccess(true);
+    setTimeout(() => setDownloadSuccess(false), 3000);
   };
 
   const downloadResults = () => {
     if (!results || !filteredAndSortedResults) return;
+    if (tableMode === 'raw' && rawEvents && !comparisonResults) {
+      downloadEvents(rawEvents.events);
+      return;
+    }
     
     const timestamp = new Date().toISOString().replace(/[:.]/g, '-');
-    const filename = `crowdstrike_analysis_${timestamp}.csv`;
+    const filename = `crowdstrike_${comparisonResults ? 'comparison' : 'analysis'}_${timestamp}.csv`;
     
     // Transform the data to match the table structure
-    const transformedData = filteredAndSortedResults.map(row => ({
+    const columns = EVENT_TYPES[eventType].columns.filter(key => key !== 'IP' && key !== 'Time' && key !== 'freq');
+    // Papa takes its header from the first row, so every row gets the history columns
+    const history = (row: ProcessedRow): Record<string, string | number> => ledger?.length ? {
+      'First Seen': row.firstSeen ?? '',
+      'Last Seen': row.lastSeen ?? '',
+      'Days Active': row.daysActive ?? '',
+      'Events (All Imports)': row.totalCount ?? '',
+      'New Since Last Import': row.isNew ? 'yes' : ''
+    } : {};
+    const anomaly = (row: ProcessedRow): Record<string, string | number> => anomalies ? {
+      'Anomaly Score': row.anomalyScore ?? '',
+      'Anomaly Reasons': (row.anomalyReasons ?? []).map(reason => reason.detail).join('; ')
+    } : {};
+    const offHours = (row: ProcessedRow): Record<string, string | number> => ({
+      'Off-Hours Events': row.offHours ?? '',
+      'Off-Hours Reason': row.offHoursReason ? OFF_HOURS_LABELS[row.offHoursReason] : ''
+    });
+    const cadence = (row: ProcessedRow): Record<string, string | number> => periodicity ? {
+      Cadence: row.cadence ? CADENCE_LABELS[row.cadence] : '',
+      'Period (s)': row.periodMs !== undefined ? Math.round(row.periodMs / 1000) : '',
+      'Jitter (s)': row.jitterMs !== undefined ? Math.round(row.jitterMs / 100) / 10 : '',
+      'Cadence Detail': row.cadenceReason ?? ''
+    } : {};
+    const transformedData: Array<Record<string, string | number>> = comparisonResults ? comparisonResults.map(row => ({
+      Change: CHANGE_LABELS[row.change!],
+      'Rate Change %': row.changePct ?? '',
+      Source: row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP,
+      ...Object.fromEntries(columns.map(key => [getFieldLabel(eventType, key), row[key] ?? ''])),
+      Baseline: row.baselineFreq ?? 0,
+      Comparison: row.freq,
+      Seen: row.Time,
+      'Time Zone': timeZone,
+      ...history(row),
+      ...anomaly(row),
+      ...cadence(row)
+    })) : filteredAndSortedResults.map(row => ({
       Source: row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP,
-      Service: row.Service,
-      Target: row.Target,
+      ...Object.fromEntries(columns.map(key => [getFieldLabel(eventType, key), row[key] ?? ''])),
       Time: row.Time,
-      freq: row.freq
+      'Time Zone': timeZone,
+      'Bucket Start': row.bucketStart,
+      'Bucket End': row.bucketEnd,
+      freq: row.freq,
+      ...offHours(row),
+      ...history(row),
+      ...anomaly(row),
+      ...cadence(row)
     }));
     const csv = Papa.unparse(transformedData);
-    const blob = new Blob([csv], { type: 'text/csv' });
-    const url = window.URL.createObjectURL(blob);
-    const a = document.createElement('a');
-    a.href = url;
-    a.download = filename;
-    document.body.appendChild(a);
-    a.click();
-    document.body.removeChild(a);
-    window.URL.revokeObjectURL(url);
+    saveFile(new Blob([csv], { type: 'text/csv' }), filename);
     
     setDownloadSuccess(true);
     setTimeout(() => setDownloadSuccess(false), 3000);
   };
 
-  const handleDateRangeApply = () => {
+  const reprocess = async (options: ProcessOptions) => {
     if (!rawData.length) return;
-    const processedData = processData(rawData, dateRange);
-    setResults(processedData);
+    try {
+      const processedData = await aggregateRows(rawData, { bucketMode, timeZone, eventType, calendar: businessCalendar, timeSlice, ...options });
+      setResults(processedData);
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    }
+  };
+
+  const handleDateRangeApply = (range: DateRange) => {
+    reprocess({ dateRange: range });
+  };
+
+  const runComparison = useCallback(async (spec: CompareSpec, overrides: Partial<CompareOptions> = {}) => {
+    setComparing(true);
+    try {
+      const baselineRows = spec.baselineWorkspaceId ? await loadWorkspaceEvents(spec.baselineWorkspaceId) : null;
+      if (baselineRows && baselineRows.length === 0) {
+        throw new Error('The baseline workspace has no saved events');
+      }
+      const rows = await compareRows(rawData, baselineRows, {
+        timeZone,
+        eventType,
+        baselineRange: spec.baselineRange,
+        comparisonRange: spec.comparisonRange,
+        ...overrides
+      });
+      setComparison({ spec, rows });
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(`Failed to compare: ${err instanceof Error ? err.message : 'Unknown error'}`);
+      }
+    }
+    setComparing(false);
+  }, [rawData, timeZone, eventType]);
+
+  const handleEventTypeChange = (type: EventTypeId) => {
+    setEventType(type);
+    reprocess({ eventType: type, dateRange });
+    if (comparison) runComparison(comparison.spec, { eventType: type });
+  };
+
+  const handleTimeZoneChange = (setting: string) => {
+    const zone = resolveTimeZone(setting);
+    setTimeZoneSetting(setting);
+    if (rawData.length) {
+      setDateConstraints(getDateConstraints(rawData, zone));
+    }
+    reprocess({ timeZone: zone, dateRange });
+    if (comparison) runComparison(comparison.spec, { timeZone: zone });
+  };
+
+  const handleCalendarChange = (calendar: BusinessCalendar) => {
+    setBusinessCalendar(calendar);
+    reprocess({ calendar, dateRange });
+  };
+
+  // Shows the off-hours rows of one source or target in the table
+  const showOffHours = (filter: { source?: string; target?: string }) => {
+    setOffHoursOnly(true);
+    setSelectedSource(filter.source ?? '');
+    setSearchTerm(filter.target ? `target:${quoteQueryValue(filter.target)}` : '');
+    setShowResults(true);
+    tableRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Filters the table on a source IP or a search term and scrolls to it
+  const showInTable = (filter: { source?: string; search?: string }) => {
+    if (filter.source !== undefined) setSelectedSource(filter.source);
+    if (filter.search !== undefined) setSearchTerm(quoteQueryValue(filter.search));
+    setShowResults(true);
+    tableRef.current?.scrollIntoView({ behavior: 'smooth', block: 'start' });
+  };
+
+  // Narrows the table and dashboard to a weekday/hour slice; null clears it
+  const handleTimeSliceChange = (slice: TimeSlice | null) => {
+    setTimeSlice(slice);
+    reprocess({ timeSlice: slice, dateRange });
+  };
+
+  // Counts follow the data, date range and time zone, not the table filters
+  const loadHeatmap = useCallback(
+    (filter: HeatmapFilter) => buildHeatmapRows(rawData, { ...filter, dateRange, timeZone, eventType }),
+    [rawData, dateRange, timeZone, eventType]
+  );
+
+  const loadTimeline = useCallback(
+    (options: TimelineOptions) => buildTimelineRows(rawData, { ...options, dateRange, timeZone, eventType }),
+    [rawData, dateRange, timeZone, eventType]
+  );
+
+  const saveView = (name: string) => {
+    const existing = savedViews.find(view => view.name === name);
+    const view: SavedView = {
+      id: existing?.id ?? crypto.randomUUID(),
+      name,
+      state: {
+        searchTerm,
+        selectedSource,
+        dateRange,
+        sort: sortConfig,
+        timeZone: timeZoneSetting,
+        tab: dashboardTab
+      },
+      createdAt: new Date().toISOString()
+    };
+    setSavedViews(current => [...current.filter(item => item.id !== view.id), view]
+      .sort((a, b) => a.name.localeCompare(b.name)));
+  };
+
+  // A link opened in this tab, or pasted over its URL, restores its view
+  useEffect(() => {
+    const handleHashChange = () => {
+      const view = decodeViewHash(window.location.hash);
+      if (view) setPendingView(view);
+    };
+    window.addEventListener('hashchange', handleHashChange);
+    return () => window.removeEventListener('hashchange', handleHashChange);
+  }, []);
+
+  // Links and saved views are both applied here. It waits for the data:
+  // whether opened from a workspace or imported, the view is applied over the
+  // workspace's own filters
+  useEffect(() => {
+    if (!results || !pendingView) return;
+    const zone = resolveTimeZone(pendingView.timeZone);
+    setPendingView(null);
+    setSearchTerm(pendingView.searchTerm);
+    setSelectedSource(pendingView.selectedSource);
+    setSortConfig(pendingView.sort);
+    setDashboardTab(pendingView.tab);
+    setTimeZoneSetting(pendingView.timeZone);
+    setDateRange(pendingView.dateRange);
+    setDateConstraints(getDateConstraints(rawData, zone));
+    aggregateRows(rawData, {
+      bucketMode,
+      timeZone: zone,
+      eventType,
+      calendar: businessCalendar,
+      timeSlice,
+      dateRange: pendingView.dateRange
+    })
+      .then(setResults)
+      .catch(err => {
+        if (!isCancelledError(err)) {
+          setError(`Failed to apply view: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    if (comparison && pendingView.timeZone !== timeZoneSetting) {
+      runComparison(comparison.spec, { timeZone: zone });
+    }
+  }, [results, pendingView, rawData, bucketMode, eventType, businessCalendar, timeSlice, comparison, timeZoneSetting, runComparison]);
+
+  // Keeps the URL hash on the current view, without adding history entries.
+  // The search and source name hosts, so with encryption on they stay out of
+  // the address bar and browser history
+  useEffect(() => {
+    if (pendingView) return;
+    const hash = results && !encryptionEnabled ? encodeViewHash({
+      searchTerm,
+      selectedSource,
+      dateRange,
+      sort: sortConfig,
+      timeZone: timeZoneSetting,
+      tab: dashboardTab
+    }) : '';
+    if (hash === window.location.hash) return;
+    window.history.replaceState(null, '', `${window.location.pathname}${window.location.search}${hash}`);
+  }, [pendingView, results, encryptionEnabled, searchTerm, selectedSource, dateRange, sortConfig, timeZoneSetting, dashboardTab]);
+
+  // Brushing the timeline narrows the date range, down to the minute
+  const handleTimelineRange = (range: DateRange) => {
+    setDateRange(range);
+    handleDateRangeApply(range);
+  };
+
+  const findPaths = (options: PathOptions) => findPathRows(rawData, { ...options, eventType });
+
+  // Whole dataset, so first and last seen aren't cut short by the date range
+  const loadHost = useCallback(
+    (host: string) => profileHostRows(rawData, { host, timeZone, eventType }),
+    [rawData, timeZone, eventType]
+  );
+
+  const closeHost = useCallback(() => setFocusedHost(null), []);
+
+  const loadRowEvents = useCallback(
+    (row: ProcessedRow) => listEventRows(rawData, {
+      dateRange,
+      bucketMode,
+      timeZone,
+      eventType,
+      calendar: businessCalendar,
+      timeSlice,
+      groups: [row]
+    }),
+    [rawData, dateRange, bucketMode, timeZone, eventType, businessCalendar, timeSlice]
+  );
+
+  const closeRow = useCallback(() => setSelectedRow(null), []);
+
+  const handleBucketModeChange = (mode: BucketMode) => {
+    setBucketMode(mode);
+    reprocess({ bucketMode: mode, dateRange });
   };
 
+  if (locked) {
+    return (
+      <div className="space-y-4">
+        <h1 className="text-2xl font-bold">CrowdStrike Service Access Analyzer</h1>
+        <Card className="w-full">
+          <CardContent className="pt-4">
+            <UnlockScreen onUnlock={handleUnlock} onForgetKey={handleForgetKey} />
+            {error && (
+              <div className="p-4 text-red-700 bg-red-100 rounded-md">
+                {error}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
   return (
     <div className="space-y-4">
       <div className="flex flex-row items-center justify-between">
         <h1 className="text-2xl font-bold">CrowdStrike Service Access Analyzer</h1>
-        {results && (
-          <div className="flex items-center gap-2">
-            {results && (
-              <>
-                <span className="text-sm text-gray-600">{currentFile}</span>
-                <button
-                  onClick={resetView}
-                  className="p-1 hover:bg-gray-100 rounded-full"
-                  title="Close current file"
-                >
-                  <X className="h-4 w-4 text-gray-500 hover:text-gray-700" />
-                </button>
-              </>
-            )}
-          </div>
-        )}
+        <div className="flex items-center gap-2">
+          {workspaces.length > 0 && (
+            <WorkspaceSwitcher
+              workspaces={workspaces}
+              activeId={activeWorkspaceId}
+              onOpen={(id) => openWorkspace(id)}
+              onRename={handleWorkspaceRename}
+              onDuplicate={handleWorkspaceDuplicate}
+              onDelete={handleWorkspaceDelete}
+              onNotesChange={handleWorkspaceNotesChange}
+              onExport={handleWorkspaceExport}
+              onImport={(file) => processFiles([file])}
+              storage={storageStatus}
+              onPersistStorage={handlePersistStorage}
+            />
+          )}
+          {results && (
+            <button
+              onClick={closeWorkspace}
+              className="p-1 hover:bg-gray-100 rounded-full"
+              title="Close workspace"
+            >
+              <X className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+            </button>
+          )}
+          <BusinessCalendarSettings calendar={businessCalendar} onChange={handleCalendarChange} />
+          <LockSettings
+            enabled={encryptionEnabled}
+            autoLockMinutes={autoLockMinutes}
+            onAutoLockChange={setAutoLockMinutes}
+            onEnable={handleEnableEncryption}
+            onChangePassphrase={changePassphrase}
+            onDisable={handleDisableEncryption}
+            onLock={lockApp}
+            onForgetKey={handleForgetKey}
+          />
+        </div>
       </div>
       <Card className="w-full">
         <CardContent className="pt-4">
@@ -487,6 +1440,7 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                   <li>Target</li>
                   <li>Timestamp</li>
                 </ul>
+                <p className="text-xs text-gray-500 mt-2">Differently named columns can be mapped during import.</p>
               </div>
             </div>
           </div>
@@ -504,7 +1458,7 @@ const CrowdStrikeAnalyzer: React.FC = () => {
             onDrop={handleDrop}
           >
             <Upload className={`w-8 h-8 mb-2 ${isDragging ? 'text-blue-500' : 'text-gray-400'}`} />
-            <p className="mb-2 text-sm text-gray-500">Drag and drop your CSV file here, or</p>
+            <p className="mb-2 text-sm text-gray-500">Drag and drop CSV, JSON or NDJSON files (or .gz and .zip archives of them) here, or</p>
             <div className="flex gap-2">
               <button
                 onClick={loadSampleData}
@@ -513,10 +1467,11 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                 Load Sample Data
               </button>
               <label className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md cursor-pointer hover:bg-blue-700">
-                Select CSV File
+                Select Files
                 <input
                   type="file"
-                  accept=".csv"
+                  accept={[...SUPPORTED_EXTENSIONS, ...ARCHIVE_EXTENSIONS, BUNDLE_EXTENSION].join(',')}
+                  multiple
                   onChange={handleFileUpload}
                   className="hidden"
                 />
@@ -524,9 +1479,57 @@ const CrowdStrikeAnalyzer: React.FC = () => {
             </div>
           </div>
 
+          {/* Passphrase for an encrypted workspace file */}
+          {pendingBundle && (
+            <BundlePassphrasePrompt
+              fileName={pendingBundle.fileName}
+              onSubmit={handleBundlePassphrase}
+              onCancel={() => setPendingBundle(null)}
+            />
+          )}
+
+          {/* Column mapping for non-standard headers */}
+          {pendingMapping && (
+            <HeaderMappingWizard
+              groups={pendingMapping.groups}
+              onConfirm={handleMappingConfirm}
+              onCancel={() => setPendingMapping(null)}
+            />
+          )}
+
+          {/* Validation report for rows with bad values */}
+          {pendingValidation && (
+            <ValidationReportPanel
+              report={pendingValidation.validation}
+              totalRows={pendingValidation.rows.length}
+              onConfirm={handleValidationConfirm}
+              onCancel={handleValidationCancel}
+            />
+          )}
+
           {/* Loading State */}
           {loading && (
-            <div className="text-center">Processing data...</div>
+            <div className="space-y-2">
+              <div className="flex items-center justify-between text-sm text-gray-600">
+                <span>
+                  {progress?.phase === 'aggregating'
+                    ? `Aggregating ${progress.rowsParsed.toLocaleString()} rows...`
+                    : `Parsed ${(progress?.rowsParsed ?? 0).toLocaleString()} rows${
+                        progress && progress.fileCount > 1 ? ` (file ${progress.fileIndex + 1} of ${progress.fileCount}: ${progress.fileName})` : ''
+                      }...`}
+                </span>
+                <button
+                  onClick={cancelImport}
+                  className="px-3 py-1 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+                >
+                  Cancel
+                </button>
+              </div>
+              <Progress
+                value={progress && progress.totalBytes > 0 ? (progress.bytesRead / progress.totalBytes) * 100 : 0}
+                className="h-2"
+              />
+            </div>
           )}
 
           {/* Error State */}
@@ -544,33 +1547,104 @@ const CrowdStrikeAnalyzer: React.FC = () => {
             `}>
               <div className="flex flex-col sm:flex-row justify-between items-start sm:items-center gap-4">
                 <div>
-                  <h3 className="text-lg font-semibold">Results</h3>
+                  <h3 className="text-lg font-semibold">{compareMode ? 'Comparison' : 'Results'}</h3>
                   <p className="text-sm text-gray-500">
-                    Found {results.length} unique patterns
+                    {comparison && compareMode
+                      ? `${comparison.rows.length} relationships across both periods`
+                      : `Found ${results.length} unique patterns`}
                   </p>
                 </div>
-                <button
-                  onClick={downloadResults}
-                  className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 flex items-center gap-2 w-full sm:w-auto justify-center"
-                >
-                  <Download className="w-4 h-4" />
-                  Export to CSV
-                </button>
+                <div className="flex gap-2 w-full sm:w-auto">
+                  <button
+                    onClick={() => {
+                      setCompareMode(!compareMode);
+                      setComparison(null);
+                    }}
+                    className={`px-4 py-2 text-sm font-medium border rounded-md flex items-center gap-2 justify-center ${
+                      compareMode
+                        ? 'text-blue-700 bg-blue-50 border-blue-300'
+                        : 'text-gray-700 bg-white border-gray-300 hover:bg-gray-50'
+                    }`}
+                  >
+                    <GitCompare className="w-4 h-4" />
+                    Compare periods
+                  </button>
+                  <button
+                    onClick={downloadResults}
+                    className="px-4 py-2 text-sm font-medium text-white bg-green-600 rounded-md hover:bg-green-700 flex items-center gap-2 w-full sm:w-auto justify-center"
+                  >
+                    <Download className="w-4 h-4" />
+                    Export to CSV
+                  </button>
+                </div>
               </div>
 
+              {/* Baseline vs. comparison period */}
+              {compareMode && (
+                <ComparePanel
+                  workspaces={workspaces}
+                  activeWorkspaceId={activeWorkspaceId}
+                  dateConstraints={dateConstraints}
+                  timeZone={timeZone}
+                  running={comparing}
+                  onCompare={runComparison}
+                  counts={changeCounts}
+                  changeFilter={changeFilter}
+                  onChangeFilterChange={setChangeFilter}
+                />
+              )}
+
+              {/* Activity types found in the import */}
+              {Object.keys(eventTypeCounts).length > 1 && (
+                <div className="flex space-x-4 border-b">
+                  {(Object.keys(eventTypeCounts) as EventTypeId[]).map((type) => (
+                    <button
+                      key={type}
+                      onClick={() => handleEventTypeChange(type)}
+                      className={`px-4 py-2 font-medium ${
+                        eventType === type
+                          ? 'text-blue-600 border-b-2 border-blue-600'
+                          : 'text-gray-500 hover:text-gray-700'
+                      }`}
+                    >
+                      {EVENT_TYPES[type].label}
+                      <span className="ml-2 text-xs text-gray-400">{eventTypeCounts[type]?.toLocaleString()}</span>
+                    </button>
+                  ))}
+                </div>
+              )}
+
+              {/* Import summary for multi-file imports */}
+              {importSummary && importSummary.files.length > 1 && (
+                <ImportSummaryCard summary={importSummary} />
+              )}
+
               {/* Search and Filter Controls */}
               <div className="flex flex-col sm:flex-row gap-4">
-                <div className="relative w-full">
-                  <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
-                  <Input
-                    type="text"
-                    placeholder="Search by source, target, IP..."
-                    value={searchTerm}
-                    onChange={(e: React.ChangeEvent<HTMLInputElement>) => setSearchTerm(e.target.value)}
-                    className="pl-8 w-full"
-                  />
-                </div>
+                <SearchQueryInput
+                  value={searchTerm}
+                  onChange={setSearchTerm}
+                  error={searchQuery.error}
+                  history={searchHistory}
+                  onCommit={query => setSearchHistory(current => addToHistory(current, query))}
+                />
                 <div className="flex gap-2 items-center w-full sm:w-auto">
+                  <div className="w-48">
+                    <TimeZoneSelect value={timeZoneSetting} onChange={handleTimeZoneChange} />
+                  </div>
+                  <div className="w-48">
+                    <Select
+                      value={bucketMode}
+                      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => handleBucketModeChange(e.target.value as BucketMode)}
+                      title="Time bucketing"
+                    >
+                      {BUCKET_MODES.map((mode) => (
+                        <option key={mode.value} value={mode.value}>
+                          {mode.label}
+                        </option>
+                      ))}
+                    </Select>
+                  </div>
                   <div className="w-64">
                     <Select
                       value={selectedSource}
@@ -584,6 +1658,51 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                       ))}
                     </Select>
                   </div>
+                  {!!ledger?.length && (
+                    <button
+                      onClick={() => setNewOnly(!newOnly)}
+                      className={`px-3 py-2 text-sm whitespace-nowrap border rounded-md ${
+                        newOnly ? 'bg-blue-50 text-blue-600 border-blue-300' : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                      }`}
+                      title="Only relationships first seen in this workspace's import"
+                    >
+                      New since last import
+                    </button>
+                  )}
+                  <button
+                    onClick={() => setOffHoursOnly(!offHoursOnly)}
+                    className={`px-3 py-2 text-sm whitespace-nowrap border rounded-md ${
+                      offHoursOnly ? 'bg-blue-50 text-blue-600 border-blue-300' : 'text-gray-600 border-gray-300 hover:bg-gray-50'
+                    }`}
+                    title="Only rows with access outside business hours"
+                  >
+                    Off-hours
+                  </button>
+                  {timeSlice && (
+                    <button
+                      onClick={() => handleTimeSliceChange(null)}
+                      className="flex items-center gap-1 px-3 py-2 text-sm whitespace-nowrap border rounded-md bg-blue-50 text-blue-600 border-blue-300"
+                      title="Clear the time slice"
+                    >
+                      {formatTimeSlice(timeSlice)}
+                      <X className="w-3 h-3" />
+                    </button>
+                  )}
+                  {!!periodicity?.length && (
+                    <div className="w-48">
+                      <Select
+                        value={cadenceFilter}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setCadenceFilter(e.target.value as CadenceFilter)}
+                        title="Regular cadence"
+                      >
+                        <option value="">Any cadence</option>
+                        <option value="periodic">Periodic</option>
+                        {CADENCE_KINDS.map(kind => (
+                          <option key={kind} value={kind}>{CADENCE_LABELS[kind]}</option>
+                        ))}
+                      </Select>
+                    </div>
+                  )}
                   <Popover>
                     <PopoverTrigger asChild>
                       <div
@@ -604,19 +1723,21 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                     </PopoverTrigger>
                     <PopoverContent className="w-[400px]">
                       <DateRangeSelector
-                        startDate={dateRange.startDate ? new Date(dateRange.startDate) : null}
-                        endDate={dateRange.endDate ? new Date(dateRange.endDate) : null}
+                        startDate={dateRange.startDate ? toCalendarDate(dateRange.startDate) : null}
+                        endDate={dateRange.endDate ? toCalendarDate(dateRange.endDate) : null}
                         onApply={(start, end) => {
                           if (start && end) {
-                            setDateRange({
-                              startDate: start.toISOString().split('T')[0],
-                              endDate: end.toISOString().split('T')[0]
-                            });
-                            handleDateRangeApply();
+                            const range = {
+                              startDate: fromCalendarDate(start),
+                              endDate: fromCalendarDate(end)
+                            };
+                            setDateRange(range);
+                            handleDateRangeApply(range);
                           }
                         }}
-                        minDate={dateConstraints.minDate ? new Date(dateConstraints.minDate) : undefined}
-                        maxDate={dateConstraints.maxDate ? new Date(dateConstraints.maxDate) : undefined}
+                        minDate={dateConstraints.minDate ? toCalendarDate(dateConstraints.minDate) : undefined}
+                        maxDate={dateConstraints.maxDate ? toCalendarDate(dateConstraints.maxDate) : undefined}
+                        timeZone={timeZone}
                       />
                     </PopoverContent>
                   </Popover>
@@ -624,18 +1745,26 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                     onClick={() => {
                       setSearchTerm('');
                       setSelectedSource('');
+                      setNewOnly(false);
+                      setCadenceFilter('');
+                      setOffHoursOnly(false);
+                      setTimeSlice(null);
                       setDateRange({ startDate: '', endDate: '' });
                       setDateConstraints({ minDate: '', maxDate: '' });
-                      if (rawData.length) {
-                        const processedData = processData(rawData);
-                        setResults(processedData);
-                      }
+                      reprocess({ timeSlice: null });
                     }}
                     className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md"
                     title="Reset all filters"
                   >
                     <RotateCcw className="w-4 h-4" />
                   </button>
+                  <SavedViewsMenu
+                    views={savedViews}
+                    onApply={view => setPendingView(view.state)}
+                    onSave={saveView}
+                    onDelete={id => setSavedViews(current => current.filter(view => view.id !== id))}
+                    linksDisabled={encryptionEnabled}
+                  />
                 </div>
               </div>
 
@@ -649,12 +1778,73 @@ const CrowdStrikeAnalyzer: React.FC = () => {
                 </Alert>
               )}
 
+              {/* Events over time, brushing sets the date range */}
+              {!comparisonResults && (
+                <Suspense fallback={<div className="text-center py-4">Loading timeline...</div>}>
+                  <AccessTimeline
+                    dateRange={dateRange}
+                    timeZone={timeZone}
+                    onLoad={loadTimeline}
+                    onRangeChange={handleTimelineRange}
+                  />
+                </Suspense>
+              )}
+
               {/* Results Table with Virtualization */}
-              <VirtualizedTable 
-                results={results} 
-                filteredAndSortedResults={filteredAndSortedResults} 
-                handleSort={handleSort} 
-              />
+              <div ref={tableRef} className="space-y-2">
+                {!comparisonResults && (
+                  <div className="flex items-center gap-3">
+                    <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                      {([['aggregated', 'Aggregated'], ['raw', 'Raw events']] as const).map(([value, label]) => (
+                        <button
+                          key={value}
+                          onClick={() => setTableMode(value)}
+                          className={`px-3 py-1 ${tableMode === value ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                        >
+                          {label}
+                        </button>
+                      ))}
+                    </div>
+                    <span className="text-sm text-gray-500">
+                      {tableMode === 'raw'
+                        ? 'Every event behind the rows that match the filters'
+                        : 'Click a row to see its events'}
+                    </span>
+                  </div>
+                )}
+                {tableMode === 'raw' && !comparisonResults ? (
+                  rawEvents ? (
+                    <RawEventTable
+                      events={rawEvents.events}
+                      total={rawEvents.total}
+                      eventType={eventType}
+                      timeZone={timeZone}
+                      timeZoneLabel={getTimeZoneLabel(timeZoneSetting)}
+                      offHours
+                      onHostSelect={setFocusedHost}
+                      onExport={downloadEvents}
+                    />
+                  ) : (
+                    <div className="border rounded-lg p-8 text-center text-gray-500">Loading events...</div>
+                  )
+                ) : (
+                  <VirtualizedTable 
+                    results={results} 
+                    filteredAndSortedResults={comparisonResults ?? filteredAndSortedResults} 
+                    handleSort={handleSort} 
+                    timeZoneLabel={getTimeZoneLabel(timeZoneSetting)}
+                    eventType={eventType}
+                    compare={!!comparisonResults}
+                    history={!!ledger?.length}
+                    anomalies={!!anomalies}
+                    cadence={!!periodicity?.length}
+                    offHours={!comparisonResults}
+                    timeZone={timeZone}
+                    onHostSelect={setFocusedHost}
+                    onRowSelect={comparisonResults ? undefined : setSelectedRow}
+                  />
+                )}
+              </div>
             </div>
           )}
 
@@ -666,10 +1856,55 @@ const CrowdStrikeAnalyzer: React.FC = () => {
             `}>
               <h3 className="text-lg font-semibold mb-4">Analytics Dashboard</h3>
               <Suspense fallback={<div className="text-center py-4">Loading dashboard...</div>}>
-                <CrowdStrikeDashboard data={filteredAndSortedResults} />
+                <CrowdStrikeDashboard
+                  data={filteredAndSortedResults}
+                  eventType={eventType}
+                  timeZone={timeZone}
+                  onShowOffHours={showOffHours}
+                  onFindPaths={findPaths}
+                  onFilter={showInTable}
+                  timeSlice={timeSlice}
+                  onTimeSliceChange={handleTimeSliceChange}
+                  onLoadHeatmap={loadHeatmap}
+                  onHostSelect={setFocusedHost}
+                  tab={dashboardTab}
+                  onTabChange={setDashboardTab}
+                />
               </Suspense>
             </div>
           )}
+
+          {/* Raw events behind one table row */}
+          {results && selectedRow && (
+            <EventDrawer
+              row={selectedRow}
+              eventType={eventType}
+              timeZone={timeZone}
+              timeZoneLabel={getTimeZoneLabel(timeZoneSetting)}
+              offHours
+              onLoad={loadRowEvents}
+              onClose={closeRow}
+              onHostSelect={host => {
+                setSelectedRow(null);
+                setFocusedHost(host);
+              }}
+              onExport={downloadEvents}
+            />
+          )}
+
+          {/* Host drill-down, over the rest of the page */}
+          {results && focusedHost && (
+            <Suspense fallback={<div className="text-center py-4">Loading host...</div>}>
+              <HostDetail
+                host={focusedHost}
+                timeZone={timeZone}
+                anomalies={anomalies}
+                onLoad={loadHost}
+                onClose={closeHost}
+                onHostSelect={setFocusedHost}
+              />
+            </Suspense>
+          )}
         </div>
       </CardContent>
     </Card>
@@ -5,6 +5,18 @@ import { Button } from './ui/button';
 import { Copy } from 'lucide-react';
 import { Toast } from './ui/toast';
 import _ from 'lodash';
+import { ProcessedRow } from '../lib/types';
+import { DEFAULT_EVENT_TYPE, EVENT_TYPES, EventTypeId, patternKey } from '../lib/eventTypes';
+import { relationshipKey } from '../lib/relationshipLedger';
+import { ANOMALY_LABELS } from '../lib/anomalyScore';
+import { CADENCE_KINDS, CADENCE_LABELS } from '../lib/periodicity';
+import { DEFAULT_TIME_ZONE, formatDuration, formatZonedDate, getZonedParts } from '../lib/time';
+import { MovementPath, PathOptions } from '../lib/lateralMovement';
+import LateralMovementPanel from './LateralMovementPanel';
+import NetworkGraphView from './NetworkGraphView';
+import ActivityHeatmap from './ActivityHeatmap';
+import HostLink from './HostLink';
+import { HeatmapFilter, TimeSlice } from '../lib/activityHeatmap';
 
 // Lazy load the chart component
 const BarChartComponent = lazy(() => import('./charts/BarChartComponent').then(mod => ({ default: mod.BarChartComponent })));
@@ -13,21 +25,37 @@ const BarChartComponent = lazy(() => import('./charts/BarChartComponent').then(m
 const TABS = {
   OVERVIEW: 'Overview',
   SERVER_ANALYSIS: 'Server Analysis',
-  UNIQUE_ANALYSIS: 'Unique Targets & Sources'
+  UNIQUE_ANALYSIS: 'Unique Targets & Sources',
+  GRAPH: 'Network Graph',
+  ANOMALIES: 'Anomalies',
+  PERIODIC: 'Periodic Activity',
+  PATHS: 'Lateral Movement'
 } as const;
 
 type TabType = typeof TABS[keyof typeof TABS];
 
+// Relationships listed on the Anomalies tab
+const MAX_ANOMALIES = 50;
+
 interface DashboardProps {
-  data?: Array<{
-    Source: string;
-    'Source Name': string;
-    IP: string;
-    Service: string;
-    Target: string;
-    Time: string;
-    freq: number;
-  }>;
+  data?: ProcessedRow[];
+  eventType?: EventTypeId;
+  timeZone?: string;
+  // Shows the off-hours rows of a source IP or a target in the table
+  onShowOffHours?: (filter: { source?: string; target?: string }) => void;
+  // Runs path discovery over the full dataset of the event type
+  onFindPaths?: (options: PathOptions) => Promise<MovementPath[]>;
+  // Filters the table on a source IP or a search term
+  onFilter?: (filter: { source?: string; search?: string }) => void;
+  // Weekday/hour slice the results are narrowed to
+  timeSlice?: TimeSlice | null;
+  onTimeSliceChange?: (slice: TimeSlice | null) => void;
+  onLoadHeatmap?: (filter: HeatmapFilter) => Promise<number[][]>;
+  // Opens the host view for an IP or hostname
+  onHostSelect?: (host: string) => void;
+  // Title of the open tab, when the parent keeps it; unknown titles open the first tab
+  tab?: string;
+  onTabChange?: (tab: string) => void;
 }
 
 // Memoized chart components
@@ -45,7 +73,7 @@ const ChartCard = React.memo(({ title, children }: { title: string; children: Re
 ));
 
 // Memoized progress bar component
-const ProgressBar = React.memo(({ label, value, total, unit }: { label: string; value: number; total: number; unit: string }) => (
+const ProgressBar = React.memo(({ label, value, total, unit }: { label: React.ReactNode; value: number; total: number; unit: string }) => (
   <div>
     <div className="flex justify-between text-sm mb-2">
       <span className="truncate">{label}</span>
@@ -58,8 +86,28 @@ const ProgressBar = React.memo(({ label, value, total, unit }: { label: string;
   </div>
 ));
 
-const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
-  const [activeTab, setActiveTab] = useState<TabType>(TABS.OVERVIEW);
+const CrowdStrikeDashboard: React.FC<DashboardProps> = ({
+  data = [],
+  eventType = DEFAULT_EVENT_TYPE,
+  timeZone = DEFAULT_TIME_ZONE,
+  onShowOffHours,
+  onFindPaths,
+  onFilter,
+  timeSlice = null,
+  onTimeSliceChange,
+  onLoadHeatmap,
+  onHostSelect,
+  tab,
+  onTabChange
+}) => {
+  const [localTab, setLocalTab] = useState<TabType>(TABS.OVERVIEW);
+  const activeTab: TabType = tab === undefined
+    ? localTab
+    : Object.values(TABS).find(title => title === tab) ?? TABS.OVERVIEW;
+  const setActiveTab = (title: TabType) => {
+    setLocalTab(title);
+    onTabChange?.(title);
+  };
   const [showToast, setShowToast] = useState(false);
 
   // Combined data processing for better performance
@@ -115,6 +163,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
           timePattern: row.Time,
           count: 0,
           totalFreq: 0,
+          offHours: 0,
           sources: new Set(),
           targets: new Set()
         });
@@ -122,6 +171,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
       const timeData = timeMap.get(row.Time);
       timeData.count++;
       timeData.totalFreq += row.freq;
+      timeData.offHours += row.offHours ?? 0;
       timeData.sources.add(row.Source);
       timeData.targets.add(row.Target);
 
@@ -147,7 +197,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
       // Source-Target relationships
       const relationKey = `${sourceKey}->${targetKey}`;
       if (!relationMap.has(relationKey)) {
-        relationMap.set(relationKey, { strength: 0 });
+        relationMap.set(relationKey, { strength: 0, host: row.Source });
       }
       relationMap.get(relationKey).strength += row.freq;
     });
@@ -183,6 +233,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
       timePatternAnalysis: Array.from(timeMap.entries())
         .map(([_, data]) => ({
           ...data,
+          onHours: data.totalFreq - data.offHours,
           sources: data.sources.size,
           targets: data.targets.size
         }))
@@ -211,6 +262,91 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
     };
   }, [data]);
 
+  // Top values for the current event type's own cards
+  const typeBreakdowns = useMemo(() => {
+    return EVENT_TYPES[eventType].cards.map(card => {
+      const totals = new Map<string, number>();
+      data.forEach(row => {
+        const value = row[card.field] || 'Unknown';
+        totals.set(value, (totals.get(value) || 0) + row.freq);
+      });
+      return {
+        ...card,
+        values: Array.from(totals.entries())
+          .map(([value, total]) => ({ value, total }))
+          .sort((a, b) => b.total - a.total)
+          .slice(0, 5)
+      };
+    });
+  }, [data, eventType]);
+
+  // Relationship history from the ledger, when the rows carry it
+  const history = useMemo(() => {
+    const tracked = _.uniqBy(data.filter(row => row.firstSeen), relationshipKey);
+    if (!tracked.length) return null;
+    return {
+      total: tracked.length,
+      newCount: tracked.filter(row => row.isNew).length,
+      newest: _.orderBy(tracked, ['firstSeen'], ['desc']).slice(0, 5),
+      mostActive: _.orderBy(tracked, ['daysActive'], ['desc']).slice(0, 5)
+    };
+  }, [data]);
+
+  // Access outside business hours, by source and by target
+  const offHours = useMemo(() => {
+    if (!data.some(row => row.offHours !== undefined)) return null;
+    const flagged = data.filter(row => row.offHours);
+    const top = (rows: Array<{ key: string; label: string; events: number }>) => rows.slice(0, 5);
+    return {
+      events: _.sumBy(flagged, 'offHours'),
+      total: _.sumBy(data, 'freq'),
+      sources: top(_.orderBy(
+        Object.entries(_.groupBy(flagged, 'IP')).map(([ip, rows]) => ({
+          key: ip,
+          label: rows[0]['Source Name'] ? `${rows[0]['Source Name']} (${ip})` : ip,
+          events: _.sumBy(rows, 'offHours')
+        })),
+        ['events'],
+        ['desc']
+      )),
+      targets: top(_.orderBy(
+        Object.entries(_.groupBy(flagged, 'Target')).map(([target, rows]) => ({
+          key: target,
+          label: target,
+          events: _.sumBy(rows, 'offHours')
+        })),
+        ['events'],
+        ['desc']
+      ))
+    };
+  }, [data]);
+
+  // Highest scoring relationships, once each rather than once per time bucket
+  const anomalies = useMemo(() => _.orderBy(
+    _.uniqBy(data.filter(row => row.anomalyScore), row => patternKey(row, row.eventType ?? eventType)),
+    ['anomalyScore'],
+    ['desc']
+  ).slice(0, MAX_ANOMALIES), [data, eventType]);
+
+  // Relationships with a regular cadence, suspicious ones first
+  const periodic = useMemo(() => _.orderBy(
+    _.uniqBy(data.filter(row => row.cadence), row => patternKey(row, row.eventType ?? eventType)),
+    [row => CADENCE_KINDS.indexOf(row.cadence!), 'periodMs'],
+    ['asc', 'asc']
+  ), [data, eventType]);
+
+  const describe = (row: ProcessedRow) => (
+    <>
+      <HostLink host={row.IP || row.Source} onSelect={onHostSelect}>
+        {row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP}
+      </HostLink>
+      {[row.Account, row.Service].filter(Boolean).map(part => ` → ${part}`).join('')}
+      {row.Target && <> → <HostLink host={row.Target} onSelect={onHostSelect} /></>}
+    </>
+  );
+
+  const formatDay = (iso: string) => formatZonedDate(getZonedParts(new Date(iso).getTime(), timeZone));
+
   // Memoized overview component
   const Overview = React.memo(() => {
     // If no analytics data, show empty state
@@ -243,7 +379,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
               {analytics.topSources.map((source, index) => (
                 <ProgressBar
                   key={index}
-                  label={source.source}
+                  label={<HostLink host={source.source} onSelect={onHostSelect} />}
                   value={source.totalFreq}
                   total={maxSourceFreq}
                   unit="events"
@@ -262,7 +398,7 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
               {analytics.ipDistribution.slice(0, 5).map((ip, index) => (
                 <ProgressBar
                   key={index}
-                  label={ip.ip}
+                  label={<HostLink host={ip.ip} onSelect={onHostSelect} />}
                   value={ip.totalFreq}
                   total={maxIpFreq}
                   unit="events"
@@ -291,24 +427,118 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
           </CardContent>
         </Card>
 
+        {typeBreakdowns.map((breakdown) => (
+          <Card key={breakdown.title}>
+            <CardHeader>
+              <CardTitle>{breakdown.title}</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {breakdown.values.map((item) => (
+                  <ProgressBar
+                    key={item.value}
+                    label={item.value}
+                    value={item.total}
+                    total={breakdown.values[0]?.total || 1}
+                    unit="events"
+                  />
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        ))}
+
+        {offHours && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Off-Hours Access</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {offHours.events.toLocaleString()} of {offHours.total.toLocaleString()} events
+                  ({offHours.total ? Math.round((offHours.events / offHours.total) * 100) : 0}%) fall outside business hours
+                </p>
+                {offHours.events > 0 && ([
+                  ['Sources', offHours.sources, (key: string) => ({ source: key })],
+                  ['Targets', offHours.targets, (key: string) => ({ target: key })]
+                ] as const).map(([title, items, toFilter]) => (
+                  <div key={title}>
+                    <div className="text-sm font-medium mb-1">{title}</div>
+                    {items.map(item => (
+                      <button
+                        key={item.key}
+                        onClick={() => onShowOffHours?.(toFilter(item.key))}
+                        className="flex w-full justify-between gap-2 text-sm text-left hover:text-blue-600"
+                        title="Show these rows in the table"
+                      >
+                        <span className="truncate">{item.label}</span>
+                        <span className="text-gray-500 whitespace-nowrap">{item.events} events</span>
+                      </button>
+                    ))}
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
+        {history && (
+          <Card>
+            <CardHeader>
+              <CardTitle>Relationship History</CardTitle>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                <p className="text-sm text-gray-600">
+                  {history.newCount} of {history.total} relationships first appeared in this import
+                </p>
+                <div>
+                  <div className="text-sm font-medium mb-1">Most Recently First Seen</div>
+                  {history.newest.map(row => (
+                    <div key={relationshipKey(row)} className="flex justify-between gap-2 text-sm">
+                      <span className="truncate" title={`${row.Source} → ${row.Service} → ${row.Target}`}>
+                        <HostLink host={row.Source} onSelect={onHostSelect} /> → <HostLink host={row.Target} onSelect={onHostSelect} />
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">{formatDay(row.firstSeen!)}</span>
+                    </div>
+                  ))}
+                </div>
+                <div>
+                  <div className="text-sm font-medium mb-1">Longest Running</div>
+                  {history.mostActive.map(row => (
+                    <div key={relationshipKey(row)} className="flex justify-between gap-2 text-sm">
+                      <span className="truncate" title={`${row.Source} → ${row.Service} → ${row.Target}`}>
+                        <HostLink host={row.Source} onSelect={onHostSelect} /> → <HostLink host={row.Target} onSelect={onHostSelect} />
+                      </span>
+                      <span className="text-gray-500 whitespace-nowrap">{row.daysActive} days</span>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            </CardContent>
+          </Card>
+        )}
+
         <ChartCard title="Most Targeted Systems">
           <Suspense fallback={<div>Loading chart...</div>}>
             <BarChartComponent data={analytics.targetFrequency.slice(0, 5).map(item => ({
               ...item,
-              target: item.target.length > 15 ? item.target.slice(0, 15) + '...' : item.target
-            }))} type="target" />
+              target: item.target.length > 15 ? item.target.slice(0, 15) + '...' : item.target,
+              host: item.target
+            }))} type="target" onHostSelect={onHostSelect} />
           </Suspense>
         </ChartCard>
 
         <ChartCard title="Common Time Patterns">
           <Suspense fallback={<div>Loading chart...</div>}>
-            <BarChartComponent data={analytics.timePatternAnalysis} type="time" />
+            <BarChartComponent data={analytics.timePatternAnalysis} type="time" split={!!offHours} />
           </Suspense>
         </ChartCard>
 
         <ChartCard title="Strongest Source-Target Relations">
           <Suspense fallback={<div>Loading chart...</div>}>
-            <BarChartComponent data={analytics.relationshipStrength} type="relation" />
+            <BarChartComponent data={analytics.relationshipStrength} type="relation" onHostSelect={onHostSelect} />
           </Suspense>
         </ChartCard>
       </div>
@@ -333,9 +563,11 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
         <Card key={server.ip}>
           <CardHeader>
             <CardTitle className="text-lg">
-              {server.hostnames.length > 0 
-                ? `${server.hostnames[0]} (${server.ip})`
-                : server.ip}
+              <HostLink host={server.ip} onSelect={onHostSelect}>
+                {server.hostnames.length > 0 
+                  ? `${server.hostnames[0]} (${server.ip})`
+                  : server.ip}
+              </HostLink>
             </CardTitle>
           </CardHeader>
           <CardContent>
@@ -439,9 +671,11 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
                 <div className="flex justify-between items-start mb-2">
                   <div>
                     <div className="font-medium">
-                      {source.hostnames.length > 0 
-                        ? `${source.hostnames[0]} (${source.ip})`
-                        : source.ip}
+                      <HostLink host={source.ip} onSelect={onHostSelect}>
+                        {source.hostnames.length > 0 
+                          ? `${source.hostnames[0]} (${source.ip})`
+                          : source.ip}
+                      </HostLink>
                     </div>
                   </div>
                   <div className="text-sm text-gray-500">
@@ -494,7 +728,9 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
               return (
                 <div key={target.target} className="border-b pb-4 last:border-b-0">
                   <div className="flex justify-between items-start mb-2">
-                    <div className="font-medium">{target.target}</div>
+                    <div className="font-medium">
+                      <HostLink host={target.target} onSelect={onHostSelect} />
+                    </div>
                     <div className="text-sm text-gray-500">
                       {target.frequency} events
                     </div>
@@ -515,6 +751,104 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
     </div>
   ));
 
+  // Memoized anomalies component
+  const Anomalies = React.memo(() => !anomalies.length ? (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>No Anomalies Scored</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500">Scores appear once the dataset has been analyzed. Relationships scoring 0 are not listed.</p>
+        </CardContent>
+      </Card>
+    </div>
+  ) : (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-col gap-1">
+          <CardTitle>Most Unusual Relationships</CardTitle>
+          <div className="text-sm text-gray-500">
+            Scored 0–100 on rarity, activity at hours the source is usually quiet, and services new to a host
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div className="space-y-4">
+          {anomalies.map(row => (
+            <div key={patternKey(row, row.eventType ?? eventType)} className="border-b pb-4 last:border-b-0">
+              <div className="flex justify-between items-start gap-2 mb-2">
+                <div className="font-medium">{describe(row)}</div>
+                <div className="text-sm font-semibold whitespace-nowrap">{row.anomalyScore}</div>
+              </div>
+              <Progress value={row.anomalyScore} className="h-2" />
+              <ul className="mt-2 space-y-1 text-sm text-gray-600">
+                {row.anomalyReasons?.map(reason => (
+                  <li key={reason.factor}>
+                    <span className="font-medium">{ANOMALY_LABELS[reason.factor]} +{reason.points}</span> · {reason.detail}
+                  </li>
+                ))}
+              </ul>
+            </div>
+          ))}
+        </div>
+      </CardContent>
+    </Card>
+  ));
+
+  // Memoized periodic activity component
+  const PeriodicActivity = React.memo(() => !periodic.length ? (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>No Periodic Activity</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500">No relationship in the current results arrives at regular intervals.</p>
+        </CardContent>
+      </Card>
+    </div>
+  ) : (
+    <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+      {CADENCE_KINDS.map(kind => {
+        const rows = periodic.filter(row => row.cadence === kind);
+        return (
+          <Card key={kind}>
+            <CardHeader>
+              <div className="flex flex-col gap-1">
+                <CardTitle>{CADENCE_LABELS[kind]}</CardTitle>
+                <div className="text-sm text-gray-500">Total: {rows.length}</div>
+              </div>
+            </CardHeader>
+            <CardContent>
+              <div className="space-y-4">
+                {rows.map(row => (
+                  <div key={patternKey(row, row.eventType ?? eventType)} className="border-b pb-4 last:border-b-0">
+                    <div className="flex justify-between items-start gap-2 mb-2">
+                      <div className="font-medium">{describe(row)}</div>
+                      <div className="text-sm text-gray-500 whitespace-nowrap">every {formatDuration(row.periodMs!)}</div>
+                    </div>
+                    <div className="grid grid-cols-2 gap-4">
+                      <div>
+                        <div className="text-sm text-gray-500">Jitter</div>
+                        <div className="font-medium">±{formatDuration(row.jitterMs!)}</div>
+                      </div>
+                      <div>
+                        <div className="text-sm text-gray-500">Of Period</div>
+                        <div className="font-medium">±{Math.round((row.jitterMs! / row.periodMs!) * 100)}%</div>
+                      </div>
+                    </div>
+                    <p className="mt-2 text-sm text-gray-600">{row.cadenceReason}</p>
+                  </div>
+                ))}
+              </div>
+            </CardContent>
+          </Card>
+        );
+      })}
+    </div>
+  ));
+
   // Render empty state if no data
   if (!data || data.length === 0) {
     return (
@@ -536,7 +870,14 @@ const CrowdStrikeDashboard: React.FC<DashboardProps> = ({ data = [] }) => {
       {renderTabs()}
       {activeTab === TABS.SERVER_ANALYSIS ? <ServerAnalysis /> : 
        activeTab === TABS.UNIQUE_ANALYSIS ? <UniqueAnalysis /> : 
-       <Overview />}
+       activeTab === TABS.GRAPH ? <NetworkGraphView data={data} onFilter={onFilter} /> :
+       activeTab === TABS.ANOMALIES ? <Anomalies /> :
+       activeTab === TABS.PERIODIC ? <PeriodicActivity /> :
+       activeTab === TABS.PATHS ? <LateralMovementPanel data={data} timeZone={timeZone} onFindPaths={onFindPaths} onHostSelect={onHostSelect} /> :
+       <div className="space-y-4">
+         <Overview />
+         <ActivityHeatmap data={data} slice={timeSlice} onSliceChange={onTimeSliceChange} onLoad={onLoadHeatmap} />
+       </div>}
       {showToast && (
         <Toast
           message="Copied to clipboard"
@@ -4,6 +4,7 @@ import { Calendar } from "./ui/calendar";
 import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
 import { Label } from "./ui/label";
 import { Input } from "./ui/input";
+import { formatZonedDate, getZonedParts, toCalendarDate } from "../lib/time";
 
 interface DateRangeSelectorProps {
   startDate: Date | null;
@@ -11,6 +12,7 @@ interface DateRangeSelectorProps {
   onApply: (start: Date | null, end: Date | null) => void;
   minDate?: Date;
   maxDate?: Date;
+  timeZone: string;
 }
 
 const DateRangeSelector: React.FC<DateRangeSelectorProps> = ({
@@ -18,7 +20,8 @@ const DateRangeSelector: React.FC<DateRangeSelectorProps> = ({
   endDate: initialEndDate,
   onApply,
   minDate,
-  maxDate
+  maxDate,
+  timeZone
 }) => {
   const [startDate, setStartDate] = useState<Date | null>(initialStartDate);
   const [endDate, setEndDate] = useState<Date | null>(initialEndDate);
@@ -41,8 +44,9 @@ const DateRangeSelector: React.FC<DateRangeSelectorProps> = ({
   };
 
   const handleQuickSelect = (days: number) => {
-    const end = new Date();
-    const start = new Date();
+    // "Today" is the current calendar day in the display time zone
+    const end = toCalendarDate(formatZonedDate(getZonedParts(Date.now(), timeZone)));
+    const start = new Date(end);
     start.setDate(end.getDate() - days);
     setStartDate(start);
     setEndDate(end);
@@ -52,7 +56,10 @@ const DateRangeSelector: React.FC<DateRangeSelectorProps> = ({
   return (
     <div className="w-full p-4">
       <div className="space-y-4">
-        <h3 className="text-base font-medium">Select Date Range</h3>
+        <div>
+          <h3 className="text-base font-medium">Select Date Range</h3>
+          <p className="text-xs text-gray-500">Days are in {timeZone}</p>
+        </div>
         
         <div className="flex gap-4">
           <div className="flex-1">
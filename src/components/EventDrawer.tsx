@@ -0,0 +1,108 @@
+import React, { useEffect, useState } from 'react';
+import { X } from 'lucide-react';
+import RawEventTable from './RawEventTable';
+import { EventList } from '../lib/processData';
+import { ProcessedRow, RawEvent } from '../lib/types';
+import { EventTypeId } from '../lib/eventTypes';
+import { isCancelledError } from '../services/analyzerWorkerService';
+
+interface EventDrawerProps {
+  // The aggregated row whose events are listed
+  row: ProcessedRow;
+  eventType: EventTypeId;
+  timeZone: string;
+  timeZoneLabel: string;
+  offHours?: boolean;
+  onLoad: (row: ProcessedRow) => Promise<EventList>;
+  onClose: () => void;
+  onHostSelect?: (host: string) => void;
+  onExport?: (events: RawEvent[]) => void;
+}
+
+/** Side drawer listing the raw events behind one aggregated table row. */
+const EventDrawer: React.FC<EventDrawerProps> = ({
+  row,
+  eventType,
+  timeZone,
+  timeZoneLabel,
+  offHours,
+  onLoad,
+  onClose,
+  onHostSelect,
+  onExport
+}) => {
+  const [list, setList] = useState<EventList | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setList(null);
+    setError(null);
+    onLoad(row)
+      .then(result => {
+        if (!cancelled) setList(result);
+      })
+      .catch(err => {
+        if (!cancelled && !isCancelledError(err)) {
+          setError(`Failed to load the events: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [row, onLoad]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const source = row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP;
+
+  return (
+    <div className="fixed inset-y-0 right-0 z-40 w-full max-w-4xl bg-white border-l border-gray-200 shadow-xl flex flex-col">
+      <div className="flex justify-between items-start gap-4 p-4 border-b border-gray-200">
+        <div className="min-w-0">
+          <h3 className="text-lg font-semibold">Raw Events</h3>
+          <p className="text-sm text-gray-600 break-all">
+            {[source, row.Account, row.Service, row.Protocol, row.Target, row.Result].filter(Boolean).join(' → ')}
+          </p>
+          <p className="text-sm text-gray-500">
+            {row.Time} ({timeZoneLabel}) · {row.freq} events
+          </p>
+        </div>
+        <button
+          onClick={onClose}
+          className="p-1 hover:bg-gray-100 rounded-full"
+          title="Close (Esc)"
+        >
+          <X className="h-4 w-4 text-gray-500 hover:text-gray-700" />
+        </button>
+      </div>
+      <div className="flex-1 min-h-0 p-4 flex flex-col">
+        {error ? (
+          <p className="text-sm text-red-600">{error}</p>
+        ) : !list ? (
+          <div className="text-center py-4">Loading events...</div>
+        ) : (
+          <RawEventTable
+            events={list.events}
+            total={list.total}
+            eventType={eventType}
+            timeZone={timeZone}
+            timeZoneLabel={timeZoneLabel}
+            offHours={offHours}
+            height="h-[calc(100vh-14rem)]"
+            onHostSelect={onHostSelect}
+            onExport={onExport}
+          />
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default EventDrawer;
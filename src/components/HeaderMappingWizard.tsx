@@ -0,0 +1,128 @@
+import React, { useState } from 'react';
+import { Select } from './ui/select';
+import { Input } from './ui/input';
+import { HeaderGroup } from '../services/importService';
+import {
+  HeaderMapping,
+  MAPPED_FIELDS,
+  MappedField,
+  getMissingFields,
+  getRequiredFields,
+  inferEventType
+} from '../lib/headerMapping';
+import { EVENT_TYPES } from '../lib/eventTypes';
+
+interface HeaderMappingWizardProps {
+  groups: HeaderGroup[];
+  onConfirm: (groups: HeaderGroup[]) => void;
+  onCancel: () => void;
+}
+
+const HeaderMappingWizard: React.FC<HeaderMappingWizardProps> = ({ groups, onConfirm, onCancel }) => {
+  const [mappings, setMappings] = useState<HeaderMapping[]>(() => groups.map(group => ({ ...group.mapping })));
+
+  const updateField = (groupIndex: number, field: MappedField, column: string) => {
+    setMappings(current => current.map((mapping, index) =>
+      index === groupIndex ? { ...mapping, [field]: column || null } : mapping
+    ));
+  };
+
+  const incomplete = mappings.some(mapping => getMissingFields(mapping).length > 0);
+
+  return (
+    <div className="space-y-4">
+      <div>
+        <h3 className="text-lg font-semibold">Map Columns</h3>
+        <p className="text-sm text-gray-500">
+          Some columns don't match the standard export headers. Choose which column holds each field;
+          for JSON, pick or type a field path such as <code>source.ip</code>.
+          Mappings are remembered for files with the same headers.
+        </p>
+      </div>
+
+      {groups.map((group, groupIndex) => {
+        const mapping = mappings[groupIndex];
+        const missing = getMissingFields(mapping);
+        const required = getRequiredFields(mapping);
+        const isJson = group.format !== 'csv';
+        const pathListId = `field-paths-${groupIndex}`;
+        return (
+          <div key={`${group.format}:${group.recordsPath}:${group.signature}`} className="border rounded-lg p-4 space-y-3">
+            <div className="text-sm">
+              <span className="font-medium">{group.files.map(file => file.name).join(', ')}</span>
+              <span className="text-gray-500">
+                {' '}— {group.headers.length} {isJson ? 'fields' : 'columns'},{' '}
+                {mapping.Activity ? 'split by Activity column' : EVENT_TYPES[inferEventType(mapping)].label}
+              </span>
+              {group.format === 'json' && group.recordsPath && (
+                <span className="text-gray-500">, records read from <code>{group.recordsPath}</code></span>
+              )}
+            </div>
+            {isJson && (
+              <datalist id={pathListId}>
+                {group.headers.map((header) => <option key={header} value={header} />)}
+              </datalist>
+            )}
+            <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-3">
+              {MAPPED_FIELDS.map((field) => {
+                const column = mapping[field];
+                return (
+                  <div key={field}>
+                    <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">
+                      {field}{required.includes(field) ? ' *' : ''}
+                      {column && column !== field && (
+                        <span className="ml-2 normal-case text-blue-600">renamed</span>
+                      )}
+                    </label>
+                    {isJson ? (
+                      // Sparse fields may be missing from the sampled records, so any path can be typed
+                      <Input
+                        list={pathListId}
+                        value={column ?? ''}
+                        placeholder="Not mapped"
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => updateField(groupIndex, field, e.target.value)}
+                        className={missing.includes(field) ? 'border-red-400' : ''}
+                      />
+                    ) : (
+                      <Select
+                        value={column ?? ''}
+                        onChange={(e: React.ChangeEvent<HTMLSelectElement>) => updateField(groupIndex, field, e.target.value)}
+                        className={missing.includes(field) ? 'border-red-400' : ''}
+                      >
+                        <option value="">— Not mapped —</option>
+                        {group.headers.map((header) => (
+                          <option key={header} value={header}>{header}</option>
+                        ))}
+                      </Select>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+            {missing.length > 0 && (
+              <p className="text-sm text-red-600">Missing required fields: {missing.join(', ')}</p>
+            )}
+          </div>
+        );
+      })}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel
+        </button>
+        <button
+          onClick={() => onConfirm(groups.map((group, index) => ({ ...group, mapping: mappings[index] })))}
+          disabled={incomplete}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          Import
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HeaderMappingWizard;
@@ -0,0 +1,334 @@
+import React, { useEffect, useMemo, useState } from 'react';
+import { Area, AreaChart, CartesianGrid, ResponsiveContainer, Tooltip, XAxis, YAxis } from 'recharts';
+import { ArrowLeft } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Progress } from './ui/progress';
+import HostLink from './HostLink';
+import { HostProfile, HostRelationship } from '../lib/hostProfile';
+import { ANOMALY_LABELS, AnomalyScore } from '../lib/anomalyScore';
+import { formatBucketLabel, formatZonedDateTime } from '../lib/time';
+import { isCancelledError } from '../services/analyzerWorkerService';
+
+interface HostDetailProps {
+  // IP or hostname the view is for
+  host: string;
+  timeZone: string;
+  // Scores for the current results, when they have been computed
+  anomalies: AnomalyScore[] | null;
+  onLoad: (host: string) => Promise<HostProfile>;
+  onClose: () => void;
+  // Opens another host's view, from a peer in the relationship lists
+  onHostSelect: (host: string) => void;
+}
+
+// Relationships listed per direction; the rest are counted
+const MAX_RELATIONSHIPS = 100;
+const MAX_ANOMALIES = 10;
+
+const formatTime = (iso: string | null, timeZone: string) => (iso ? formatZonedDateTime(new Date(iso).getTime(), timeZone) : '-');
+
+const RelationshipTable = ({ title, peerLabel, relationships, timeZone, onHostSelect }: {
+  title: string;
+  peerLabel: string;
+  relationships: HostRelationship[];
+  timeZone: string;
+  onHostSelect: (host: string) => void;
+}) => (
+  <Card>
+    <CardHeader>
+      <CardTitle>{title}</CardTitle>
+      <div className="text-sm text-gray-500">
+        Total: {relationships.length}{relationships.length > MAX_RELATIONSHIPS && `, showing ${MAX_RELATIONSHIPS}`}
+      </div>
+    </CardHeader>
+    <CardContent>
+      {!relationships.length ? (
+        <p className="text-sm text-gray-500">None in this dataset.</p>
+      ) : (
+        <div className="max-h-80 overflow-y-auto">
+          <table className="w-full text-sm">
+            <thead className="text-xs text-gray-500 uppercase tracking-wider text-left">
+              <tr>
+                <th className="py-1 pr-2">{peerLabel}</th>
+                <th className="py-1 pr-2">Service</th>
+                <th className="py-1 pr-2 text-right">Events</th>
+                <th className="py-1">Last seen</th>
+              </tr>
+            </thead>
+            <tbody>
+              {relationships.slice(0, MAX_RELATIONSHIPS).map(relationship => (
+                <tr key={relationship.key} className="border-t border-gray-100">
+                  <td className="py-1 pr-2 break-all">
+                    <HostLink host={relationship.peerHost} onSelect={onHostSelect}>{relationship.peer}</HostLink>
+                    {relationship.account && <div className="text-xs text-gray-500">as {relationship.account}</div>}
+                  </td>
+                  <td className="py-1 pr-2">{relationship.service}</td>
+                  <td className="py-1 pr-2 text-right tabular-nums">{relationship.events}</td>
+                  <td className="py-1 text-gray-500 tabular-nums whitespace-nowrap">{formatTime(relationship.lastSeen, timeZone)}</td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      )}
+    </CardContent>
+  </Card>
+);
+
+/** Full-page view of one host: its names, access both ways, activity and raw events. */
+const HostDetail: React.FC<HostDetailProps> = ({ host, timeZone, anomalies, onLoad, onClose, onHostSelect }) => {
+  const [profile, setProfile] = useState<HostProfile | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    setProfile(null);
+    setError(null);
+    onLoad(host)
+      .then(result => {
+        if (!cancelled) setProfile(result);
+      })
+      .catch(err => {
+        if (!cancelled && !isCancelledError(err)) {
+          setError(`Failed to load the host: ${err instanceof Error ? err.message : 'Unknown error'}`);
+        }
+      });
+    return () => {
+      cancelled = true;
+    };
+  }, [host, onLoad]);
+
+  useEffect(() => {
+    const handleKeyDown = (event: KeyboardEvent) => {
+      if (event.key === 'Escape') onClose();
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, [onClose]);
+
+  const points = useMemo(() => (profile?.timeline.buckets ?? []).map(bucket => ({
+    label: formatBucketLabel(profile!.timeline.unit, bucket.start, bucket.start, timeZone),
+    events: bucket.counts[0] ?? 0
+  })), [profile, timeZone]);
+
+  // This host's relationships among the scored anomalies, highest first
+  const flagged = useMemo(() => {
+    if (!profile || !anomalies) return [];
+    const scores = new Map(anomalies.map(anomaly => [anomaly.key, anomaly]));
+    return [...profile.inbound, ...profile.outbound]
+      .filter(relationship => scores.has(relationship.key))
+      .map(relationship => ({ relationship, anomaly: scores.get(relationship.key)! }))
+      .sort((a, b) => b.anomaly.score - a.anomaly.score)
+      .slice(0, MAX_ANOMALIES);
+  }, [profile, anomalies]);
+
+  const maxService = profile?.services[0]?.events ?? 1;
+
+  return (
+    <div className="fixed inset-0 z-40 bg-gray-50 overflow-y-auto">
+      <div className="max-w-7xl mx-auto p-4 space-y-4">
+        <div className="flex items-center gap-3">
+          <button
+            onClick={onClose}
+            className="flex items-center gap-1 px-3 py-1.5 text-sm text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+            title="Back to the analyzer (Esc)"
+          >
+            <ArrowLeft className="h-4 w-4" />
+            Back
+          </button>
+          <h2 className="text-2xl font-bold break-all">{host}</h2>
+        </div>
+
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        {!profile && !error && <div className="text-center py-4">Loading host...</div>}
+
+        {profile && !profile.events && (
+          <p className="text-sm text-gray-500">No events for this host in the current event type.</p>
+        )}
+
+        {profile && !!profile.events && (
+          <>
+            <Card>
+              <CardContent className="pt-4">
+                <div className="grid grid-cols-1 md:grid-cols-4 gap-4 text-sm">
+                  <div>
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Hostnames</div>
+                    <div className="flex flex-wrap gap-1">
+                      {profile.hostnames.length ? profile.hostnames.map(name => (
+                        <span key={name} className="px-2 py-0.5 bg-gray-100 rounded-full break-all">{name}</span>
+                      )) : <span className="text-gray-500">None seen</span>}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">IPs</div>
+                    <div className="flex flex-wrap gap-1">
+                      {profile.ips.length ? profile.ips.map(ip => (
+                        <span key={ip} className="px-2 py-0.5 bg-gray-100 rounded-full">{ip}</span>
+                      )) : <span className="text-gray-500">None seen</span>}
+                    </div>
+                  </div>
+                  <div>
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">First / last seen</div>
+                    <div className="tabular-nums">{formatTime(profile.firstSeen, timeZone)}</div>
+                    <div className="tabular-nums">{formatTime(profile.lastSeen, timeZone)}</div>
+                  </div>
+                  <div>
+                    <div className="text-xs font-medium text-gray-500 uppercase tracking-wider mb-1">Activity</div>
+                    <div>{profile.events} events</div>
+                    <div className="text-gray-500">
+                      {profile.inbound.length} inbound, {profile.outbound.length} outbound relationships
+                    </div>
+                  </div>
+                </div>
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <Card className="md:col-span-2">
+                <CardHeader>
+                  <CardTitle>Timeline</CardTitle>
+                  <div className="text-sm text-gray-500">Events per {profile.timeline.unit}</div>
+                </CardHeader>
+                <CardContent className="h-[220px] w-full">
+                  <ResponsiveContainer width="100%" height="100%">
+                    <AreaChart data={points} margin={{ top: 5, right: 20, left: 0, bottom: 5 }}>
+                      <CartesianGrid strokeDasharray="3 3" />
+                      <XAxis dataKey="label" tick={{ fontSize: 11 }} minTickGap={40} />
+                      <YAxis allowDecimals={false} tick={{ fontSize: 11 }} />
+                      <Tooltip />
+                      <Area
+                        type="monotone"
+                        dataKey="events"
+                        name="Events"
+                        stroke="#3b82f6"
+                        fill="#3b82f6"
+                        fillOpacity={0.4}
+                        isAnimationActive={false}
+                      />
+                    </AreaChart>
+                  </ResponsiveContainer>
+                </CardContent>
+              </Card>
+
+              <Card>
+                <CardHeader>
+                  <CardTitle>Service Mix</CardTitle>
+                </CardHeader>
+                <CardContent>
+                  <div className="space-y-3 max-h-[220px] overflow-y-auto">
+                    {profile.services.map(service => (
+                      <div key={service.service}>
+                        <div className="flex justify-between text-sm mb-1">
+                          <span className="truncate">{service.service}</span>
+                          <span>{service.events} events</span>
+                        </div>
+                        <Progress value={(service.events / maxService) * 100} className="h-2" />
+                      </div>
+                    ))}
+                  </div>
+                </CardContent>
+              </Card>
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Anomalies</CardTitle>
+              </CardHeader>
+              <CardContent>
+                {!anomalies ? (
+                  <p className="text-sm text-gray-500">Anomaly scores are not available for these results.</p>
+                ) : !flagged.length ? (
+                  <p className="text-sm text-gray-500">None of this host's relationships are in the scored results.</p>
+                ) : (
+                  <div className="space-y-2">
+                    {flagged.map(({ relationship, anomaly }) => (
+                      <div key={`${relationship.direction}|${relationship.key}`} className="flex flex-wrap items-center gap-2 text-sm">
+                        <span className="w-10 text-right font-medium tabular-nums">{anomaly.score}</span>
+                        <span className="text-gray-500">{relationship.direction === 'inbound' ? 'from' : 'to'}</span>
+                        <HostLink host={relationship.peerHost} onSelect={onHostSelect}>{relationship.peer}</HostLink>
+                        <span className="text-gray-600">via {relationship.service}</span>
+                        {anomaly.reasons[0] && (
+                          <span className="text-gray-500">
+                            · {ANOMALY_LABELS[anomaly.reasons[0].factor]} +{anomaly.reasons[0].points}, {anomaly.reasons[0].detail}
+                          </span>
+                        )}
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </CardContent>
+            </Card>
+
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <RelationshipTable
+                title="Inbound"
+                peerLabel="From"
+                relationships={profile.inbound}
+                timeZone={timeZone}
+                onHostSelect={onHostSelect}
+              />
+              <RelationshipTable
+                title="Outbound"
+                peerLabel="To"
+                relationships={profile.outbound}
+                timeZone={timeZone}
+                onHostSelect={onHostSelect}
+              />
+            </div>
+
+            <Card>
+              <CardHeader>
+                <CardTitle>Raw Events</CardTitle>
+                <div className="text-sm text-gray-500">
+                  {profile.events > profile.recentEvents.length
+                    ? `Most recent ${profile.recentEvents.length} of ${profile.events}`
+                    : `Total: ${profile.events}`}
+                </div>
+              </CardHeader>
+              <CardContent>
+                <div className="max-h-[480px] overflow-y-auto">
+                  <table className="w-full text-sm">
+                    <thead className="sticky top-0 bg-white text-xs text-gray-500 uppercase tracking-wider text-left">
+                      <tr>
+                        <th className="py-1 pr-2">Time</th>
+                        <th className="py-1 pr-2">Direction</th>
+                        <th className="py-1 pr-2">Source</th>
+                        <th className="py-1 pr-2">Service</th>
+                        <th className="py-1 pr-2">Target</th>
+                        <th className="py-1 pr-2">Account</th>
+                        <th className="py-1">Result</th>
+                      </tr>
+                    </thead>
+                    <tbody>
+                      {profile.recentEvents.map((event, i) => (
+                        <tr key={i} className="border-t border-gray-100 align-top">
+                          <td className="py-1 pr-2 text-gray-500 tabular-nums whitespace-nowrap">
+                            {formatZonedDateTime(new Date(event.Timestamp).getTime(), timeZone)}
+                          </td>
+                          <td className="py-1 pr-2">{event.direction === 'inbound' ? 'In' : 'Out'}</td>
+                          <td className="py-1 pr-2 break-all">
+                            <HostLink host={event.IP || event.Source} onSelect={onHostSelect}>
+                              {event['Source Name'] || event.IP || event.Source}
+                            </HostLink>
+                          </td>
+                          <td className="py-1 pr-2">{event.Service}</td>
+                          <td className="py-1 pr-2 break-all">
+                            <HostLink host={event.Target} onSelect={onHostSelect} />
+                          </td>
+                          <td className="py-1 pr-2 break-all">{event.Account || '-'}</td>
+                          <td className="py-1">{event.Result || '-'}</td>
+                        </tr>
+                      ))}
+                    </tbody>
+                  </table>
+                </div>
+              </CardContent>
+            </Card>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default HostDetail;
@@ -0,0 +1,28 @@
+import React from 'react';
+
+interface HostLinkProps {
+  // IP or hostname the host view opens on
+  host: string;
+  onSelect?: (host: string) => void;
+  children?: React.ReactNode;
+  className?: string;
+}
+
+/** A host name that opens the host view when clicked, or plain text without a handler. */
+const HostLink: React.FC<HostLinkProps> = ({ host, onSelect, children, className = '' }) => {
+  if (!onSelect || !host) return <span className={className}>{children ?? host}</span>;
+  return (
+    <button
+      onClick={event => {
+        event.stopPropagation();
+        onSelect(host);
+      }}
+      className={`text-left hover:text-blue-600 hover:underline ${className}`}
+      title={`Open host view for ${host}`}
+    >
+      {children ?? host}
+    </button>
+  );
+};
+
+export default HostLink;
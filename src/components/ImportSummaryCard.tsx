@@ -0,0 +1,49 @@
+import React from 'react';
+import { ImportSummary } from '../lib/types';
+
+interface ImportSummaryCardProps {
+  summary: ImportSummary;
+}
+
+const ImportSummaryCard: React.FC<ImportSummaryCardProps> = ({ summary }) => {
+  return (
+    <div className="border rounded-lg overflow-hidden">
+      <div className="bg-gray-50 border-b border-gray-200 px-3 py-2 flex justify-between text-sm">
+        <span className="font-medium">Imported {summary.files.length} files</span>
+        <span className="text-gray-500">
+          {summary.totalRows.toLocaleString()} events, {summary.duplicates.toLocaleString()} duplicates dropped
+        </span>
+      </div>
+      <table className="w-full text-sm">
+        <thead>
+          <tr className="text-left text-xs font-medium text-gray-500 uppercase tracking-wider">
+            <th className="px-3 py-2">File</th>
+            <th className="px-3 py-2 text-right">Rows</th>
+            <th className="px-3 py-2 text-right">Added</th>
+            <th className="px-3 py-2 text-right">Duplicates</th>
+            <th className="px-3 py-2">Overlaps With</th>
+          </tr>
+        </thead>
+        <tbody>
+          {summary.files.map((file) => (
+            <tr key={file.name} className="border-t border-gray-200 text-gray-600">
+              <td className="px-3 py-2 truncate max-w-[240px]" title={file.name}>{file.name}</td>
+              <td className="px-3 py-2 text-right">{file.rows.toLocaleString()}</td>
+              <td className="px-3 py-2 text-right">{file.added.toLocaleString()}</td>
+              <td className="px-3 py-2 text-right">{file.duplicates.toLocaleString()}</td>
+              <td className="px-3 py-2">
+                {Object.keys(file.overlaps).length === 0
+                  ? <span className="text-gray-400">None</span>
+                  : Object.entries(file.overlaps)
+                      .map(([name, count]) => `${name} (${count.toLocaleString()})`)
+                      .join(', ')}
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+export default ImportSummaryCard;
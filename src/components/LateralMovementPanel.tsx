@@ -0,0 +1,197 @@
+import React, { useMemo, useState } from 'react';
+import { ArrowRight } from 'lucide-react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { Select } from './ui/select';
+import HostLink from './HostLink';
+import { ProcessedRow } from '../lib/types';
+import {
+  DEFAULT_PATH_WINDOW,
+  MovementPath,
+  PATH_WINDOWS,
+  PathOptions,
+  hostKey,
+  sourceHost
+} from '../lib/lateralMovement';
+import { formatZonedDateTime } from '../lib/time';
+import { isCancelledError } from '../services/analyzerWorkerService';
+
+type PathSort = 'recent' | 'privileged';
+
+// Paths listed at once; the rest are counted
+const MAX_SHOWN = 50;
+
+interface LateralMovementPanelProps {
+  data: ProcessedRow[];
+  timeZone: string;
+  onFindPaths?: (options: PathOptions) => Promise<MovementPath[]>;
+  onHostSelect?: (host: string) => void;
+}
+
+const sortPaths = (paths: MovementPath[], sort: PathSort) =>
+  [...paths].sort((a, b) =>
+    (sort === 'privileged' ? b.privilegedHops - a.privilegedHops : 0) ||
+    b.lastTime.localeCompare(a.lastTime) ||
+    b.hops.length - a.hops.length
+  );
+
+const LateralMovementPanel: React.FC<LateralMovementPanelProps> = ({ data, timeZone, onFindPaths, onHostSelect }) => {
+  const [start, setStart] = useState('');
+  const [windowMs, setWindowMs] = useState(DEFAULT_PATH_WINDOW);
+  const [sort, setSort] = useState<PathSort>('recent');
+  const [paths, setPaths] = useState<MovementPath[] | null>(null);
+  const [running, setRunning] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // Source hosts in the current results, one entry per host however it is named
+  const hosts = useMemo(() => {
+    const found = new Map<string, string>();
+    data.forEach(row => {
+      const name = sourceHost(row);
+      if (name && !found.has(hostKey(name))) found.set(hostKey(name), name);
+    });
+    return Array.from(found.entries())
+      .map(([key, label]) => ({ key, label }))
+      .sort((a, b) => a.label.localeCompare(b.label));
+  }, [data]);
+
+  const sorted = useMemo(() => (paths ? sortPaths(paths, sort) : []), [paths, sort]);
+
+  const findPaths = async () => {
+    if (!onFindPaths || !start) return;
+    setRunning(true);
+    setError(null);
+    try {
+      setPaths(await onFindPaths({ start, windowMs }));
+    } catch (err) {
+      if (!isCancelledError(err)) {
+        setError(err instanceof Error ? err.message : 'Unknown error');
+      }
+    } finally {
+      setRunning(false);
+    }
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle>Lateral Movement</CardTitle>
+        </CardHeader>
+        <CardContent>
+          <p className="text-sm text-gray-500 mb-4">
+            Follows access out of a host to targets that, within the window, go on to access other hosts.
+          </p>
+          <div className="grid grid-cols-1 md:grid-cols-4 gap-4 items-end">
+            <div className="md:col-span-2">
+              <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Starting host</label>
+              <Select
+                value={start}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => {
+                  setStart(e.target.value);
+                  setPaths(null);
+                }}
+              >
+                <option value="">Choose a host</option>
+                {hosts.map(host => (
+                  <option key={host.key} value={host.key}>{host.label}</option>
+                ))}
+              </Select>
+            </div>
+            <div>
+              <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Window per hop</label>
+              <Select
+                value={windowMs}
+                onChange={(e: React.ChangeEvent<HTMLSelectElement>) => setWindowMs(Number(e.target.value))}
+              >
+                {PATH_WINDOWS.map(option => (
+                  <option key={option.value} value={option.value}>{option.label}</option>
+                ))}
+              </Select>
+            </div>
+            <button
+              onClick={findPaths}
+              disabled={!start || running || !onFindPaths}
+              className="h-10 px-4 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {running ? 'Searching...' : 'Find Paths'}
+            </button>
+          </div>
+          {error && <p className="mt-4 text-sm text-red-600">{error}</p>}
+        </CardContent>
+      </Card>
+
+      {paths && (
+        <Card>
+          <CardHeader>
+            <div className="flex justify-between items-center gap-4">
+              <div className="flex flex-col gap-1">
+                <CardTitle>Paths</CardTitle>
+                <div className="text-sm text-gray-500">
+                  Total: {paths.length}{paths.length > MAX_SHOWN && `, showing ${MAX_SHOWN}`}
+                </div>
+              </div>
+              <div className="flex rounded-md border border-gray-300 overflow-hidden text-sm">
+                {([['recent', 'Most recent'], ['privileged', 'Most privileged']] as const).map(([value, label]) => (
+                  <button
+                    key={value}
+                    onClick={() => setSort(value)}
+                    className={`px-3 py-1 ${sort === value ? 'bg-blue-50 text-blue-700' : 'bg-white text-gray-600 hover:bg-gray-50'}`}
+                  >
+                    {label}
+                  </button>
+                ))}
+              </div>
+            </div>
+          </CardHeader>
+          <CardContent>
+            {!paths.length ? (
+              <p className="text-sm text-gray-500">
+                No host reached from this one went on to access another host within the window.
+              </p>
+            ) : (
+              <div className="space-y-4">
+                {sorted.slice(0, MAX_SHOWN).map(path => (
+                  <div
+                    key={path.hops.map(hop => `${hop.to}|${hop.service}`).join('>')}
+                    className="border-b pb-4 last:border-b-0"
+                  >
+                    <div className="flex justify-between items-start gap-2 mb-2">
+                      <div className="font-medium flex flex-wrap items-center gap-1">
+                        <HostLink host={path.hops[0].from} onSelect={onHostSelect} />
+                        {path.hops.map((hop, i) => (
+                          <React.Fragment key={i}>
+                            <ArrowRight className="h-4 w-4 text-gray-400" />
+                            <HostLink host={hop.to} onSelect={onHostSelect} />
+                          </React.Fragment>
+                        ))}
+                      </div>
+                      <div className="text-sm text-gray-500 whitespace-nowrap">
+                        {path.hops.length} hops, {path.privilegedHops} privileged
+                      </div>
+                    </div>
+                    <ol className="space-y-1 text-sm">
+                      {path.hops.map((hop, i) => (
+                        <li key={i} className="flex flex-wrap items-center gap-2">
+                          <span className="text-gray-500 tabular-nums">{formatZonedDateTime(new Date(hop.time).getTime(), timeZone)}</span>
+                          <span>{hop.from} → {hop.to}</span>
+                          <span className="text-gray-600">via {hop.service}</span>
+                          {hop.privileged && (
+                            <span className="px-2 py-0.5 text-xs font-medium bg-red-100 text-red-800 rounded-full">
+                              {hop.privileged}
+                            </span>
+                          )}
+                        </li>
+                      ))}
+                    </ol>
+                  </div>
+                ))}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      )}
+    </div>
+  );
+};
+
+export default LateralMovementPanel;
@@ -0,0 +1,191 @@
+import React, { useState } from 'react';
+import { Lock, LockOpen } from 'lucide-react';
+import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
+import { Input } from './ui/input';
+import { Select } from './ui/select';
+import { MIN_PASSPHRASE_LENGTH } from '../lib/crypto';
+
+const AUTO_LOCK_OPTIONS = [
+  { value: 0, label: 'Never' },
+  { value: 5, label: 'After 5 minutes idle' },
+  { value: 15, label: 'After 15 minutes idle' },
+  { value: 30, label: 'After 30 minutes idle' },
+  { value: 60, label: 'After 1 hour idle' }
+];
+
+interface LockSettingsProps {
+  enabled: boolean;
+  autoLockMinutes: number;
+  onAutoLockChange: (minutes: number) => void;
+  onEnable: (passphrase: string) => Promise<void>;
+  onChangePassphrase: (current: string, next: string) => Promise<void>;
+  onDisable: () => Promise<void>;
+  onLock: () => void;
+  onForgetKey: () => void;
+}
+
+const LockSettings: React.FC<LockSettingsProps> = ({
+  enabled,
+  autoLockMinutes,
+  onAutoLockChange,
+  onEnable,
+  onChangePassphrase,
+  onDisable,
+  onLock,
+  onForgetKey
+}) => {
+  const [current, setCurrent] = useState('');
+  const [passphrase, setPassphrase] = useState('');
+  const [confirm, setConfirm] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [message, setMessage] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmForget, setConfirmForget] = useState(false);
+
+  const reset = () => {
+    setCurrent('');
+    setPassphrase('');
+    setConfirm('');
+    setError(null);
+    setMessage(null);
+    setConfirmForget(false);
+  };
+
+  const run = async (action: () => Promise<void>, done: string) => {
+    if (passphrase && passphrase !== confirm) {
+      setError('Passphrases do not match');
+      return;
+    }
+    setBusy(true);
+    setError(null);
+    try {
+      await action();
+      reset();
+      setMessage(done);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+    }
+    setBusy(false);
+  };
+
+  const passphraseFields = (
+    <>
+      <Input
+        type="password"
+        autoComplete="new-password"
+        value={passphrase}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+        placeholder={`New passphrase (${MIN_PASSPHRASE_LENGTH}+ characters)`}
+      />
+      <Input
+        type="password"
+        autoComplete="new-password"
+        value={confirm}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setConfirm(e.target.value)}
+        placeholder="Confirm passphrase"
+      />
+    </>
+  );
+
+  return (
+    <Popover onOpenChange={reset}>
+      <PopoverTrigger asChild>
+        <button
+          className="p-1 hover:bg-gray-100 rounded-full"
+          title={enabled ? 'Saved data is encrypted' : 'Encrypt saved data'}
+        >
+          {enabled
+            ? <Lock className="h-4 w-4 text-green-600" />
+            : <LockOpen className="h-4 w-4 text-gray-500 hover:text-gray-700" />}
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[340px]">
+        <div className="space-y-3 text-sm">
+          <h4 className="font-medium">Encryption</h4>
+          {enabled ? (
+            <>
+              <p className="text-gray-500">Saved workspaces are encrypted with your passphrase.</p>
+              <button
+                onClick={onLock}
+                className="w-full px-3 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+              >
+                Lock now
+              </button>
+              <div>
+                <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Auto-lock</label>
+                <Select
+                  value={autoLockMinutes}
+                  onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onAutoLockChange(Number(e.target.value))}
+                >
+                  {AUTO_LOCK_OPTIONS.map(({ value, label }) => (
+                    <option key={value} value={value}>{label}</option>
+                  ))}
+                </Select>
+              </div>
+              <div className="space-y-2">
+                <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Change passphrase</label>
+                <Input
+                  type="password"
+                  autoComplete="current-password"
+                  value={current}
+                  onChange={(e: React.ChangeEvent<HTMLInputElement>) => setCurrent(e.target.value)}
+                  placeholder="Current passphrase"
+                />
+                {passphraseFields}
+                <button
+                  onClick={() => run(() => onChangePassphrase(current, passphrase), 'Passphrase changed')}
+                  disabled={!current || !passphrase || busy}
+                  className="px-3 py-1 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+                >
+                  Change
+                </button>
+              </div>
+              <div className="border-t border-gray-100 pt-2 flex flex-wrap gap-2 text-xs">
+                <button
+                  onClick={() => run(onDisable, 'Encryption turned off')}
+                  disabled={busy}
+                  className="px-2 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-50 disabled:opacity-50"
+                >
+                  Turn off encryption
+                </button>
+                {confirmForget ? (
+                  <button
+                    onClick={onForgetKey}
+                    className="px-2 py-1 text-white bg-red-600 rounded hover:bg-red-700"
+                  >
+                    Forget key and delete all workspaces
+                  </button>
+                ) : (
+                  <button
+                    onClick={() => setConfirmForget(true)}
+                    className="px-2 py-1 text-red-600 border border-red-200 rounded hover:bg-red-50"
+                  >
+                    Forget key
+                  </button>
+                )}
+              </div>
+            </>
+          ) : (
+            <>
+              <p className="text-gray-500">
+                Encrypt saved workspaces with a passphrase. It can't be recovered if forgotten.
+              </p>
+              {passphraseFields}
+              <button
+                onClick={() => run(() => onEnable(passphrase), 'Saved data is now encrypted')}
+                disabled={!passphrase || busy}
+                className="w-full px-3 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+              >
+                {busy ? 'Encrypting…' : 'Encrypt saved data'}
+              </button>
+            </>
+          )}
+          {error && <p className="text-red-600">{error}</p>}
+          {message && <p className="text-green-600">{message}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default LockSettings;
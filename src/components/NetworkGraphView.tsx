@@ -0,0 +1,348 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Card, CardContent, CardHeader, CardTitle } from './ui/card';
+import { ProcessedRow } from '../lib/types';
+import {
+  GRAPH_ROLE_LABELS,
+  GraphNode,
+  GraphRole,
+  buildNetworkGraph,
+  createForceLayout
+} from '../lib/networkGraph';
+
+interface NetworkGraphViewProps {
+  data: ProcessedRow[];
+  // Filters the table on a source IP or, for target-only hosts, a search term
+  onFilter?: (filter: { source?: string; search?: string }) => void;
+}
+
+interface View {
+  x: number;
+  y: number;
+  scale: number;
+}
+
+const HEIGHT = 600;
+const MIN_SCALE = 0.02;
+const MAX_SCALE = 8;
+// Nodes whose on-screen radius reaches this get a label
+const LABEL_RADIUS = 6;
+// Mouse travel that turns a click into a pan
+const DRAG_THRESHOLD = 3;
+
+const ROLE_COLORS: Record<GraphRole, string> = {
+  source: '#3b82f6',
+  target: '#10b981',
+  both: '#f59e0b'
+};
+
+const nodeRadius = (node: GraphNode) => 3 + 2 * Math.log10(1 + node.weight);
+
+const NetworkGraphView: React.FC<NetworkGraphViewProps> = ({ data, onFilter }) => {
+  const containerRef = useRef<HTMLDivElement>(null);
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [width, setWidth] = useState(0);
+  const [clustered, setClustered] = useState(false);
+  const [hovered, setHovered] = useState<GraphNode | null>(null);
+
+  const graph = useMemo(() => buildNetworkGraph(data), [data]);
+  const layout = useMemo(() => createForceLayout(graph), [graph]);
+
+  // Mutable drawing state lives in refs so the animation loop and mouse
+  // handlers don't re-render the component on every frame
+  const view = useRef<View>({ x: 0, y: 0, scale: 1 });
+  // Follow the layout until the user zooms or pans
+  const autoFit = useRef(true);
+  const hoveredRef = useRef<GraphNode | null>(null);
+  const clusteredRef = useRef(false);
+  const drawRef = useRef<() => void>(() => {});
+
+  useEffect(() => {
+    const container = containerRef.current;
+    if (!container) return;
+    const observer = new ResizeObserver(([entry]) => setWidth(Math.floor(entry.contentRect.width)));
+    observer.observe(container);
+    return () => observer.disconnect();
+  }, []);
+
+  useEffect(() => {
+    clusteredRef.current = clustered;
+    layout.setClustered(clustered);
+  }, [layout, clustered]);
+
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context || !width) return;
+    const ratio = window.devicePixelRatio || 1;
+    canvas.width = width * ratio;
+    canvas.height = HEIGHT * ratio;
+    autoFit.current = true;
+    hoveredRef.current = null;
+    setHovered(null);
+
+    const fit = () => {
+      if (!graph.nodes.length) return;
+      let x0 = Infinity;
+      let y0 = Infinity;
+      let x1 = -Infinity;
+      let y1 = -Infinity;
+      graph.nodes.forEach(node => {
+        x0 = Math.min(x0, node.x);
+        y0 = Math.min(y0, node.y);
+        x1 = Math.max(x1, node.x);
+        y1 = Math.max(y1, node.y);
+      });
+      const scale = Math.min(MAX_SCALE, 0.9 * Math.min(width / Math.max(x1 - x0, 1), HEIGHT / Math.max(y1 - y0, 1)));
+      view.current = { scale, x: width / 2 - ((x0 + x1) / 2) * scale, y: HEIGHT / 2 - ((y0 + y1) / 2) * scale };
+    };
+
+    const draw = () => {
+      if (autoFit.current) fit();
+      const { x, y, scale } = view.current;
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.clearRect(0, 0, width, HEIGHT);
+      context.setTransform(ratio * scale, 0, 0, ratio * scale, ratio * x, ratio * y);
+
+      if (clusteredRef.current) {
+        // A faint disc behind each cluster of three or more hosts
+        const extents = graph.clusters.map(() => ({ x: 0, y: 0, count: 0, radius: 0 }));
+        graph.nodes.forEach(node => {
+          const extent = extents[node.cluster];
+          extent.x += node.x;
+          extent.y += node.y;
+          extent.count++;
+        });
+        extents.forEach(extent => {
+          extent.x /= extent.count || 1;
+          extent.y /= extent.count || 1;
+        });
+        graph.nodes.forEach(node => {
+          const extent = extents[node.cluster];
+          extent.radius = Math.max(extent.radius, Math.hypot(node.x - extent.x, node.y - extent.y) + nodeRadius(node));
+        });
+        context.fillStyle = 'rgba(107, 114, 128, 0.08)';
+        extents.forEach(extent => {
+          if (extent.count < 3) return;
+          context.beginPath();
+          context.arc(extent.x, extent.y, extent.radius + 4, 0, Math.PI * 2);
+          context.fill();
+        });
+      }
+
+      // Edges in a few width bands, one stroke per band
+      const logMax = Math.log1p(graph.maxEdgeWeight) || 1;
+      const bands: Array<typeof graph.edges> = [[], [], [], []];
+      graph.edges.forEach(edge => {
+        bands[Math.min(3, Math.floor((Math.log1p(edge.weight) / logMax) * 4))].push(edge);
+      });
+      const focus = hoveredRef.current;
+      bands.forEach((edges, band) => {
+        context.strokeStyle = `rgba(156, 163, 175, ${0.25 + band * 0.15})`;
+        context.lineWidth = (0.5 + band) / Math.max(scale, 0.5);
+        context.beginPath();
+        edges.forEach(edge => {
+          context.moveTo(edge.source.x, edge.source.y);
+          context.lineTo(edge.target.x, edge.target.y);
+        });
+        context.stroke();
+      });
+      if (focus) {
+        context.strokeStyle = '#1f2937';
+        context.lineWidth = 1.5 / scale;
+        context.beginPath();
+        graph.edges.forEach(edge => {
+          if (edge.source !== focus && edge.target !== focus) return;
+          context.moveTo(edge.source.x, edge.source.y);
+          context.lineTo(edge.target.x, edge.target.y);
+        });
+        context.stroke();
+      }
+
+      (Object.keys(ROLE_COLORS) as GraphRole[]).forEach(role => {
+        context.fillStyle = ROLE_COLORS[role];
+        context.beginPath();
+        graph.nodes.forEach(node => {
+          if (node.role !== role) return;
+          const radius = nodeRadius(node);
+          context.moveTo(node.x + radius, node.y);
+          context.arc(node.x, node.y, radius, 0, Math.PI * 2);
+        });
+        context.fill();
+      });
+
+      context.setTransform(ratio, 0, 0, ratio, 0, 0);
+      context.font = '11px sans-serif';
+      context.fillStyle = '#374151';
+      graph.nodes.forEach(node => {
+        const radius = nodeRadius(node) * scale;
+        if (radius < LABEL_RADIUS && node !== focus) return;
+        context.fillText(node.label, node.x * scale + x + radius + 2, node.y * scale + y + 4);
+      });
+    };
+    drawRef.current = draw;
+
+    let frame = requestAnimationFrame(function step() {
+      const moving = layout.tick();
+      draw();
+      frame = moving ? requestAnimationFrame(step) : 0;
+    });
+    return () => cancelAnimationFrame(frame);
+  }, [graph, layout, width, clustered]);
+
+  const nodeAt = (event: { clientX: number; clientY: number }): GraphNode | null => {
+    const rect = canvasRef.current!.getBoundingClientRect();
+    const { x, y, scale } = view.current;
+    const worldX = (event.clientX - rect.left - x) / scale;
+    const worldY = (event.clientY - rect.top - y) / scale;
+    let found: GraphNode | null = null;
+    let best = Infinity;
+    graph.nodes.forEach(node => {
+      // At least a few pixels to aim at, however small the node is drawn
+      const reach = Math.max(nodeRadius(node), 4 / scale);
+      const distance = Math.hypot(node.x - worldX, node.y - worldY);
+      if (distance <= reach && distance < best) {
+        found = node;
+        best = distance;
+      }
+    });
+    return found;
+  };
+
+  // Wheel zoom needs a non-passive listener to keep the page from scrolling
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    if (!canvas) return;
+    const onWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = canvas.getBoundingClientRect();
+      const pointX = event.clientX - rect.left;
+      const pointY = event.clientY - rect.top;
+      const { x, y, scale } = view.current;
+      const next = Math.min(MAX_SCALE, Math.max(MIN_SCALE, scale * Math.exp(-event.deltaY * 0.001)));
+      view.current = {
+        scale: next,
+        x: pointX - ((pointX - x) / scale) * next,
+        y: pointY - ((pointY - y) / scale) * next
+      };
+      autoFit.current = false;
+      drawRef.current();
+    };
+    canvas.addEventListener('wheel', onWheel, { passive: false });
+    return () => canvas.removeEventListener('wheel', onWheel);
+  }, []);
+
+  const drag = useRef<{ startX: number; startY: number; viewX: number; viewY: number; moved: boolean } | null>(null);
+
+  const handleMouseDown = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    drag.current = { startX: event.clientX, startY: event.clientY, viewX: view.current.x, viewY: view.current.y, moved: false };
+  };
+
+  const handleMouseMove = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const current = drag.current;
+    if (current) {
+      const dx = event.clientX - current.startX;
+      const dy = event.clientY - current.startY;
+      if (!current.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+      current.moved = true;
+      autoFit.current = false;
+      view.current = { ...view.current, x: current.viewX + dx, y: current.viewY + dy };
+      drawRef.current();
+      return;
+    }
+    const node = nodeAt(event);
+    if (node !== hoveredRef.current) {
+      hoveredRef.current = node;
+      setHovered(node);
+      drawRef.current();
+    }
+  };
+
+  const handleMouseUp = (event: React.MouseEvent<HTMLCanvasElement>) => {
+    const current = drag.current;
+    drag.current = null;
+    if (!current || current.moved) return;
+    const node = nodeAt(event);
+    if (!node) return;
+    onFilter?.(node.ip ? { source: node.ip } : { search: node.label });
+  };
+
+  const resetView = () => {
+    autoFit.current = true;
+    drawRef.current();
+  };
+
+  const hoveredEdges = hovered
+    ? graph.edges.filter(edge => edge.source === hovered || edge.target === hovered)
+    : [];
+
+  return (
+    <Card>
+      <CardHeader>
+        <div className="flex flex-wrap justify-between items-center gap-4">
+          <div className="flex flex-col gap-1">
+            <CardTitle>Network Graph</CardTitle>
+            <div className="text-sm text-gray-500">
+              {graph.nodes.length} hosts, {graph.edges.length} connections, {graph.clusters.length} clusters
+            </div>
+          </div>
+          <div className="flex items-center gap-4 text-sm">
+            {(Object.keys(ROLE_COLORS) as GraphRole[]).map(role => (
+              <span key={role} className="flex items-center gap-1 text-gray-600">
+                <span className="inline-block w-3 h-3 rounded-full" style={{ backgroundColor: ROLE_COLORS[role] }} />
+                {GRAPH_ROLE_LABELS[role]}
+              </span>
+            ))}
+            <label className="flex items-center gap-1 text-gray-700">
+              <input type="checkbox" checked={clustered} onChange={e => setClustered(e.target.checked)} />
+              Group clusters
+            </label>
+            <button
+              onClick={resetView}
+              className="px-3 py-1 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50"
+            >
+              Fit
+            </button>
+          </div>
+        </div>
+      </CardHeader>
+      <CardContent>
+        <div ref={containerRef} className="relative w-full border rounded-md overflow-hidden" style={{ height: HEIGHT }}>
+          <canvas
+            ref={canvasRef}
+            style={{ width, height: HEIGHT, cursor: hovered ? 'pointer' : 'grab' }}
+            onMouseDown={handleMouseDown}
+            onMouseMove={handleMouseMove}
+            onMouseUp={handleMouseUp}
+            onMouseLeave={() => {
+              drag.current = null;
+              hoveredRef.current = null;
+              setHovered(null);
+              drawRef.current();
+            }}
+          />
+          {hovered && (
+            <div className="absolute top-2 left-2 max-w-xs p-2 text-sm bg-white border rounded-md shadow pointer-events-none">
+              <div className="font-medium">{hovered.label}{hovered.ip && hovered.ip !== hovered.label && ` (${hovered.ip})`}</div>
+              <div className="text-gray-500">
+                {GRAPH_ROLE_LABELS[hovered.role]} · {hovered.weight} events · cluster {hovered.cluster + 1}
+              </div>
+              <div className="text-gray-600 mt-1">
+                {hoveredEdges.slice(0, 5).map(edge => (
+                  <div key={`${edge.source.id}>${edge.target.id}`} className="truncate">
+                    {edge.source === hovered ? `→ ${edge.target.label}` : `← ${edge.source.label}`}: {edge.services.join(', ')} ({edge.weight})
+                  </div>
+                ))}
+                {hoveredEdges.length > 5 && <div>and {hoveredEdges.length - 5} more</div>}
+              </div>
+            </div>
+          )}
+        </div>
+        <p className="mt-2 text-sm text-gray-500">
+          Scroll to zoom, drag to pan, click a host to filter the table on it.
+        </p>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default NetworkGraphView;
@@ -0,0 +1,200 @@
+import React, { useMemo, useRef, useState } from 'react';
+import { useVirtualizer } from '@tanstack/react-virtual';
+import { ArrowDown, ArrowUp, ArrowUpDown, Download } from 'lucide-react';
+import _ from 'lodash';
+import HostLink from './HostLink';
+import { RawEvent } from '../lib/types';
+import { EVENT_TYPES, EventField, EventTypeId, getFieldLabel } from '../lib/eventTypes';
+import { OFF_HOURS_LABELS } from '../lib/businessCalendar';
+import { formatZonedDateTime } from '../lib/time';
+
+type RawColumn = 'time' | EventField | 'offHoursReason' | 'sourceFile';
+
+interface RawEventTableProps {
+  events: RawEvent[];
+  // Matching events, when more than were loaded
+  total: number;
+  eventType: EventTypeId;
+  timeZone: string;
+  timeZoneLabel: string;
+  // Events carry off-hours reasons from the business calendar
+  offHours?: boolean;
+  // Tailwind height of the scrolling body
+  height?: string;
+  onHostSelect?: (host: string) => void;
+  // Called with the events in their current order
+  onExport?: (events: RawEvent[]) => void;
+}
+
+const FIXED_WIDTHS: Partial<Record<RawColumn, number>> = {
+  time: 22,
+  offHoursReason: 14
+};
+
+const cellText = (event: RawEvent, key: RawColumn, timeZone: string): string => {
+  if (key === 'time') return formatZonedDateTime(event.time, timeZone);
+  if (key === 'IP') return event['Source Name'] ? `${event['Source Name']} (${event.IP})` : event.IP;
+  if (key === 'offHoursReason') return event.offHoursReason ? OFF_HOURS_LABELS[event.offHoursReason] : '';
+  return event[key] ?? '';
+};
+
+/** Sortable, virtualized list of individual events with exact timestamps. */
+const RawEventTable: React.FC<RawEventTableProps> = ({
+  events,
+  total,
+  eventType,
+  timeZone,
+  timeZoneLabel,
+  offHours = false,
+  height = 'h-[450px]',
+  onHostSelect,
+  onExport
+}) => {
+  const parentRef = useRef<HTMLDivElement>(null);
+  const [sort, setSort] = useState<{ key: RawColumn; direction: 'asc' | 'desc' }>({ key: 'time', direction: 'desc' });
+
+  // The event type's columns, with the exact time in place of the bucket
+  const columns = useMemo((): RawColumn[] => [
+    'time',
+    ...EVENT_TYPES[eventType].columns.filter((key): key is EventField => key !== 'Time' && key !== 'freq'),
+    ...(offHours ? ['offHoursReason'] as const : []),
+    ...(events.some(event => event.sourceFile) ? ['sourceFile'] as const : [])
+  ], [eventType, offHours, events]);
+
+  const columnWidths = useMemo(() => {
+    const fixed = columns.reduce((sum, key) => sum + (FIXED_WIDTHS[key] ?? 0), 0);
+    const shares = columns.filter(key => FIXED_WIDTHS[key] === undefined).length + 1;
+    return Object.fromEntries(columns.map(key => [
+      key,
+      FIXED_WIDTHS[key] !== undefined ? `${FIXED_WIDTHS[key]}%` : `${((100 - fixed) / shares) * (key === 'IP' ? 2 : 1)}%`
+    ])) as Record<RawColumn, string>;
+  }, [columns]);
+
+  const sorted = useMemo(() => (sort.key === 'time' && sort.direction === 'desc'
+    // Events arrive most recent first
+    ? events
+    : _.orderBy(events, [sort.key === 'time' ? 'time' : (event: RawEvent) => cellText(event, sort.key, timeZone)], [sort.direction])
+  ), [events, sort, timeZone]);
+
+  const rowVirtualizer = useVirtualizer({
+    count: sorted.length,
+    getScrollElement: () => parentRef.current,
+    estimateSize: () => 45,
+    overscan: 5
+  });
+
+  const handleSort = (key: RawColumn) => {
+    setSort(current => ({
+      key,
+      direction: current.key === key && current.direction === 'asc' ? 'desc' : 'asc'
+    }));
+  };
+
+  const headerLabel = (key: RawColumn) => {
+    if (key === 'time') return `Time (${timeZoneLabel})`;
+    if (key === 'offHoursReason') return 'Off-Hours';
+    if (key === 'sourceFile') return 'File';
+    return getFieldLabel(eventType, key);
+  };
+
+  if (!events.length) {
+    return (
+      <div className="border rounded-lg p-8 text-center text-gray-500">
+        No events found for your search criteria
+      </div>
+    );
+  }
+
+  return (
+    <div className="border rounded-lg overflow-hidden w-full flex flex-col min-h-0">
+      <div className="flex justify-between items-center gap-2 px-3 py-2 border-b border-gray-200 text-sm text-gray-500">
+        <span>
+          {total > events.length
+            ? `Most recent ${events.length.toLocaleString()} of ${total.toLocaleString()} events`
+            : `${total.toLocaleString()} events`}
+        </span>
+        {onExport && (
+          <button
+            onClick={() => onExport(sorted)}
+            className="flex items-center gap-1 px-2 py-1 text-gray-700 hover:bg-gray-100 rounded-md"
+            title="Export these events to CSV"
+          >
+            <Download className="w-4 h-4" />
+            Export
+          </button>
+        )}
+      </div>
+      <div className="overflow-x-auto w-full flex flex-col min-h-0">
+        <div className="relative w-full min-w-[600px] max-w-full flex flex-col min-h-0">
+          {/* Header */}
+          <div className="bg-gray-50 border-b border-gray-200">
+            <div className="flex w-full">
+              {columns.map(key => (
+                <div
+                  key={key}
+                  className="p-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 select-none"
+                  style={{ width: columnWidths[key] }}
+                  onClick={() => handleSort(key)}
+                >
+                  <div className="flex items-center gap-1">
+                    {headerLabel(key)}
+                    {sort.key !== key
+                      ? <ArrowUpDown className="h-4 w-4" />
+                      : sort.direction === 'asc'
+                        ? <ArrowUp className="h-4 w-4" />
+                        : <ArrowDown className="h-4 w-4" />}
+                  </div>
+                </div>
+              ))}
+            </div>
+          </div>
+
+          {/* Virtualized Body */}
+          <div ref={parentRef} className={`overflow-y-auto ${height}`}>
+            <div
+              style={{
+                height: `${rowVirtualizer.getTotalSize()}px`,
+                width: '100%',
+                position: 'relative'
+              }}
+            >
+              {rowVirtualizer.getVirtualItems().map(virtualRow => {
+                const event = sorted[virtualRow.index];
+                return (
+                  <div
+                    key={virtualRow.index}
+                    className={`absolute top-0 left-0 flex hover:bg-gray-50 border-b border-gray-200 w-full ${virtualRow.index % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}
+                    style={{
+                      height: virtualRow.size,
+                      transform: `translateY(${virtualRow.start}px)`
+                    }}
+                  >
+                    {columns.map(key => (
+                      <div
+                        key={key}
+                        className={`p-3 text-sm text-gray-500 ${key === 'time' ? 'tabular-nums' : ''}`}
+                        style={{ width: columnWidths[key], minWidth: '100px' }}
+                      >
+                        <div className="truncate" title={key === 'time' ? event.Timestamp : cellText(event, key, timeZone)}>
+                          {key === 'IP' ? (
+                            <HostLink host={event.IP || event.Source} onSelect={onHostSelect} className="max-w-full truncate">
+                              {cellText(event, key, timeZone)}
+                            </HostLink>
+                          ) : key === 'Target' ? (
+                            <HostLink host={event.Target} onSelect={onHostSelect} className="max-w-full truncate" />
+                          ) : cellText(event, key, timeZone)}
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+export default RawEventTable;
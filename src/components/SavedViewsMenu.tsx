@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Bookmark, Link, Trash2 } from 'lucide-react';
+import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
+import { Input } from './ui/input';
+import { SavedView, ViewState } from '../lib/viewState';
+import { getTimeZoneLabel } from '../lib/time';
+
+interface SavedViewsMenuProps {
+  views: SavedView[];
+  onApply: (view: SavedView) => void;
+  // Saves the current view; an existing name is overwritten
+  onSave: (name: string) => void;
+  onDelete: (id: string) => void;
+  // With encryption on the URL doesn't carry the view, so there is no link to copy
+  linksDisabled?: boolean;
+}
+
+const describe = (state: ViewState): string => {
+  const { startDate, endDate, startTime, endTime } = state.dateRange;
+  const range = startDate || endDate
+    ? `${startDate || '…'}${startTime ? ` ${startTime}` : ''} – ${endDate || '…'}${endTime ? ` ${endTime}` : ''}`
+    : '';
+  return [
+    state.searchTerm,
+    state.selectedSource,
+    range,
+    `${state.sort.key} ${state.sort.direction}`,
+    getTimeZoneLabel(state.timeZone),
+    state.tab
+  ].filter(Boolean).join(' · ');
+};
+
+/** Named views to switch between, and a link that reopens the current one. */
+const SavedViewsMenu: React.FC<SavedViewsMenuProps> = ({ views, onApply, onSave, onDelete, linksDisabled = false }) => {
+  const [name, setName] = useState('');
+  const [message, setMessage] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  const save = () => {
+    const trimmed = name.trim();
+    if (!trimmed) return;
+    onSave(trimmed);
+    setName('');
+    setError(null);
+    setMessage(`Saved "${trimmed}"`);
+  };
+
+  // The URL hash always follows the current view
+  const copyLink = async () => {
+    try {
+      await navigator.clipboard.writeText(window.location.href);
+      setError(null);
+      setMessage('Link copied. It opens this view once the same data is loaded.');
+    } catch (err) {
+      setMessage(null);
+      setError(`Failed to copy the link: ${err instanceof Error ? err.message : 'Unknown error'}`);
+    }
+  };
+
+  return (
+    <Popover
+      onOpenChange={open => {
+        if (open) {
+          setName('');
+          setMessage(null);
+          setError(null);
+        }
+      }}
+    >
+      <PopoverTrigger asChild>
+        <button className="p-2 text-gray-500 hover:text-gray-700 hover:bg-gray-100 rounded-md" title="Saved views">
+          <Bookmark className="w-4 h-4" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[360px]">
+        <div className="space-y-3 text-sm">
+          <h4 className="font-medium">Saved Views</h4>
+          {views.length === 0 ? (
+            <p className="text-gray-500">
+              A view keeps the search, source, date range, sort, time zone and dashboard tab.
+            </p>
+          ) : (
+            <ul className="max-h-60 overflow-y-auto divide-y divide-gray-100">
+              {views.map(view => (
+                <li key={view.id} className="flex items-center gap-2 py-1">
+                  <button
+                    onClick={() => onApply(view)}
+                    className="flex-1 min-w-0 text-left px-2 py-1 rounded-md hover:bg-gray-50"
+                  >
+                    <div className="font-medium truncate">{view.name}</div>
+                    <div className="text-xs text-gray-500 truncate">{describe(view.state)}</div>
+                  </button>
+                  <button
+                    onClick={() => onDelete(view.id)}
+                    className="p-1 text-gray-400 hover:text-red-600 rounded-full"
+                    title="Delete view"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </button>
+                </li>
+              ))}
+            </ul>
+          )}
+          <div className="flex items-center gap-2">
+            <Input
+              type="text"
+              placeholder="Name this view"
+              value={name}
+              onChange={(e: React.ChangeEvent<HTMLInputElement>) => setName(e.target.value)}
+              onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                if (e.key === 'Enter') save();
+              }}
+            />
+            <button
+              onClick={save}
+              disabled={!name.trim()}
+              className="px-3 py-2 font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              Save
+            </button>
+          </div>
+          <button
+            onClick={copyLink}
+            disabled={linksDisabled}
+            className="w-full flex items-center justify-center gap-2 px-3 py-2 text-gray-700 border border-gray-300 rounded-md hover:bg-gray-50 disabled:opacity-50 disabled:cursor-not-allowed"
+            title={linksDisabled ? 'Links are off while storage is encrypted, so searches stay out of the address bar' : undefined}
+          >
+            <Link className="w-4 h-4" />
+            Copy link to this view
+          </button>
+          {error && <p className="text-red-600">{error}</p>}
+          {message && <p className="text-green-600">{message}</p>}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default SavedViewsMenu;
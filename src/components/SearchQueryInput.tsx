@@ -0,0 +1,149 @@
+import React, { useMemo, useState } from 'react';
+import { Clock, Search } from 'lucide-react';
+import { Input } from './ui/input';
+import { QUERY_FIELDS, QueryError } from '../lib/searchQuery';
+
+interface SearchQueryInputProps {
+  value: string;
+  onChange: (value: string) => void;
+  // Syntax error in the current value, shown under the box
+  error: QueryError | null;
+  // Past queries, most recent first
+  history: string[];
+  // Called with a finished query, to remember it
+  onCommit: (query: string) => void;
+}
+
+interface Suggestion {
+  label: string;
+  // The whole query after picking the suggestion
+  value: string;
+  kind: 'field' | 'history';
+}
+
+// History entries offered at once
+const MAX_SUGGESTIONS = 8;
+
+const SYNTAX_HELP = [
+  'Words match any field; terms are ANDed',
+  'field:value for source, ip, service, target, account, protocol, result',
+  'target:FILE* wildcards, ip:10.0.0.0/8 CIDR',
+  'freq:>10, freq:5..20, anomaly:>=70, offhours:>0',
+  'time:2024-01-05, time:>=2024-01-05T08:00, time:2024-01-01..2024-01-07',
+  'OR, NOT or -term, and (parentheses)'
+].join('\n');
+
+/** Search box for the query language, with field and history completion. */
+const SearchQueryInput: React.FC<SearchQueryInputProps> = ({ value, onChange, error, history, onCommit }) => {
+  const [open, setOpen] = useState(false);
+  const [highlighted, setHighlighted] = useState(-1);
+
+  const suggestions = useMemo((): Suggestion[] => {
+    // Field names complete the word being typed
+    const word = /(^|[\s(])(-?)([A-Za-z]+)$/.exec(value);
+    const fields: Suggestion[] = word
+      ? QUERY_FIELDS
+        .filter(field => field.startsWith(word[3].toLowerCase()) && field !== word[3].toLowerCase())
+        .map(field => ({
+          label: `${field}:`,
+          value: `${value.slice(0, value.length - word[3].length)}${field}:`,
+          kind: 'field'
+        }))
+      : [];
+    const lower = value.trim().toLowerCase();
+    const past: Suggestion[] = history
+      .filter(item => item !== value.trim() && item.toLowerCase().includes(lower))
+      .slice(0, MAX_SUGGESTIONS)
+      .map(item => ({ label: item, value: item, kind: 'history' }));
+    return [...fields, ...past];
+  }, [value, history]);
+
+  const commit = (query: string) => {
+    if (query.trim() && !error) onCommit(query);
+  };
+
+  const pick = (suggestion: Suggestion) => {
+    onChange(suggestion.value);
+    setHighlighted(-1);
+    // A completed field name still needs its value
+    if (suggestion.kind === 'history') setOpen(false);
+  };
+
+  const handleKeyDown = (event: React.KeyboardEvent<HTMLInputElement>) => {
+    const shown = open ? suggestions : [];
+    if (event.key === 'ArrowDown' && suggestions.length) {
+      event.preventDefault();
+      setOpen(true);
+      setHighlighted(current => (current + 1) % suggestions.length);
+    } else if (event.key === 'ArrowUp' && shown.length) {
+      event.preventDefault();
+      setHighlighted(current => (current <= 0 ? shown.length : current) - 1);
+    } else if (event.key === 'Enter') {
+      if (highlighted >= 0 && shown[highlighted]) {
+        event.preventDefault();
+        pick(shown[highlighted]);
+      } else {
+        commit(value);
+        setOpen(false);
+      }
+    } else if (event.key === 'Escape') {
+      setOpen(false);
+      setHighlighted(-1);
+    }
+  };
+
+  return (
+    <div className="relative w-full">
+      <Search className="absolute left-2 top-2.5 h-4 w-4 text-gray-500" />
+      <Input
+        type="text"
+        placeholder='Search, e.g. service:"File Share" target:FILE* freq:>10'
+        value={value}
+        onChange={(e: React.ChangeEvent<HTMLInputElement>) => {
+          onChange(e.target.value);
+          setOpen(true);
+          setHighlighted(-1);
+        }}
+        onFocus={() => setOpen(true)}
+        onBlur={() => {
+          setOpen(false);
+          setHighlighted(-1);
+          commit(value);
+        }}
+        onKeyDown={handleKeyDown}
+        className={`pl-8 w-full ${error ? 'border-red-500' : ''}`}
+        title={SYNTAX_HELP}
+        spellCheck={false}
+        autoComplete="off"
+      />
+      {open && suggestions.length > 0 && (
+        <ul className="absolute z-20 mt-1 w-full max-h-60 overflow-y-auto bg-white border border-gray-200 rounded-md shadow-lg text-sm">
+          {suggestions.map((suggestion, i) => (
+            <li
+              key={`${suggestion.kind}|${suggestion.label}`}
+              // Keep focus in the box so blur doesn't close the list first
+              onMouseDown={event => {
+                event.preventDefault();
+                pick(suggestion);
+              }}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`flex items-center gap-2 px-3 py-1.5 cursor-pointer ${i === highlighted ? 'bg-blue-50 text-blue-700' : 'text-gray-700'}`}
+            >
+              {suggestion.kind === 'history'
+                ? <Clock className="h-3 w-3 text-gray-400 shrink-0" />
+                : <span className="w-3 shrink-0" />}
+              <span className="truncate">{suggestion.label}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+      {error && (
+        <p className="mt-1 text-xs text-red-600">
+          {error.message} (at character {error.position + 1})
+        </p>
+      )}
+    </div>
+  );
+};
+
+export default SearchQueryInput;
@@ -0,0 +1,37 @@
+import React, { useMemo } from 'react';
+import { Select } from './ui/select';
+import { LOCAL_TIME_ZONE, getTimeZoneLabel, listTimeZones } from '../lib/time';
+
+interface TimeZoneSelectProps {
+  value: string;
+  onChange: (value: string) => void;
+  className?: string;
+  title?: string;
+}
+
+const TimeZoneSelect: React.FC<TimeZoneSelectProps> = ({ value, onChange, className, title = 'Display time zone' }) => {
+  const zones = useMemo(() => listTimeZones(), []);
+
+  return (
+    <Select
+      value={value}
+      onChange={(e: React.ChangeEvent<HTMLSelectElement>) => onChange(e.target.value)}
+      className={className}
+      title={title}
+    >
+      <option value={LOCAL_TIME_ZONE}>{getTimeZoneLabel(LOCAL_TIME_ZONE)}</option>
+      <option value="UTC">UTC</option>
+      {/* Keep a persisted zone selectable even if this browser does not list it */}
+      {value !== LOCAL_TIME_ZONE && value !== 'UTC' && !zones.includes(value) && (
+        <option value={value}>{value}</option>
+      )}
+      {zones.map((zone) => (
+        <option key={zone} value={zone}>
+          {zone}
+        </option>
+      ))}
+    </Select>
+  );
+};
+
+export default TimeZoneSelect;
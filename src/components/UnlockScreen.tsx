@@ -0,0 +1,84 @@
+import React, { useState } from 'react';
+import { Lock } from 'lucide-react';
+import { Input } from './ui/input';
+
+interface UnlockScreenProps {
+  onUnlock: (passphrase: string) => Promise<void>;
+  onForgetKey: () => void;
+}
+
+const UnlockScreen: React.FC<UnlockScreenProps> = ({ onUnlock, onForgetKey }) => {
+  const [passphrase, setPassphrase] = useState('');
+  const [error, setError] = useState<string | null>(null);
+  const [busy, setBusy] = useState(false);
+  const [confirmForget, setConfirmForget] = useState(false);
+
+  const submit = async (event: React.FormEvent) => {
+    event.preventDefault();
+    setBusy(true);
+    setError(null);
+    try {
+      await onUnlock(passphrase);
+    } catch (err) {
+      setError(err instanceof Error ? err.message : 'Unknown error');
+      setBusy(false);
+    }
+  };
+
+  return (
+    <div className="max-w-sm mx-auto py-8 space-y-4">
+      <div className="flex items-center gap-2">
+        <Lock className="h-5 w-5 text-gray-500" />
+        <h3 className="text-lg font-semibold">Saved data is locked</h3>
+      </div>
+      <p className="text-sm text-gray-500">Enter your passphrase to decrypt your saved workspaces.</p>
+      <form onSubmit={submit} className="space-y-3">
+        <Input
+          type="password"
+          autoFocus
+          autoComplete="current-password"
+          value={passphrase}
+          onChange={(e: React.ChangeEvent<HTMLInputElement>) => setPassphrase(e.target.value)}
+          placeholder="Passphrase"
+        />
+        {error && <p className="text-sm text-red-600">{error}</p>}
+        <button
+          type="submit"
+          disabled={!passphrase || busy}
+          className="w-full px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700 disabled:opacity-50 disabled:cursor-not-allowed"
+        >
+          {busy ? 'Unlocking…' : 'Unlock'}
+        </button>
+      </form>
+      <div className="border-t border-gray-100 pt-3 text-xs text-gray-500">
+        {confirmForget ? (
+          <div className="space-y-2">
+            <p>
+              Forgetting the key permanently deletes all saved workspaces. There is no way to recover them.
+            </p>
+            <div className="flex gap-2">
+              <button
+                onClick={onForgetKey}
+                className="px-2 py-1 text-white bg-red-600 rounded hover:bg-red-700"
+              >
+                Forget key and delete data
+              </button>
+              <button
+                onClick={() => setConfirmForget(false)}
+                className="px-2 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+              >
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button onClick={() => setConfirmForget(true)} className="text-gray-500 hover:text-red-600">
+            Forgot your passphrase?
+          </button>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default UnlockScreen;
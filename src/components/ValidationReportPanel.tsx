@@ -0,0 +1,101 @@
+import React, { useState } from 'react';
+import { AlertTriangle } from 'lucide-react';
+import { VALIDATION_ISSUES, ValidationIssue, ValidationReport } from '../lib/validation';
+
+interface ValidationReportPanelProps {
+  report: ValidationReport;
+  totalRows: number;
+  onConfirm: (exclude: ValidationIssue[]) => void;
+  onCancel: () => void;
+}
+
+const ValidationReportPanel: React.FC<ValidationReportPanelProps> = ({ report, totalRows, onConfirm, onCancel }) => {
+  const flagged = VALIDATION_ISSUES.filter(({ value }) => report.issues[value].length > 0);
+  const [exclude, setExclude] = useState<ValidationIssue[]>(flagged.map(({ value }) => value));
+
+  const toggle = (issue: ValidationIssue) => {
+    setExclude(current => current.includes(issue)
+      ? current.filter(value => value !== issue)
+      : [...current, issue]);
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex items-start gap-2">
+        <AlertTriangle className="h-5 w-5 text-amber-500 mt-0.5" />
+        <div>
+          <h3 className="text-lg font-semibold">Validation Report</h3>
+          <p className="text-sm text-gray-500">
+            Some of the {totalRows.toLocaleString()} imported rows have problems. Choose which to exclude before analysis.
+          </p>
+        </div>
+      </div>
+
+      {flagged.map(({ value, label }) => (
+        <div key={value} className="border rounded-lg overflow-hidden">
+          <label className="flex items-center justify-between gap-2 bg-gray-50 border-b border-gray-200 px-3 py-2 text-sm cursor-pointer">
+            <span className="font-medium">
+              {label}: {report.issues[value].length.toLocaleString()} rows
+            </span>
+            <span className="flex items-center gap-2 text-gray-600">
+              <input
+                type="checkbox"
+                checked={exclude.includes(value)}
+                onChange={() => toggle(value)}
+              />
+              Exclude
+            </span>
+          </label>
+          <div className="overflow-x-auto max-h-48">
+            <table className="w-full text-xs">
+              <thead>
+                <tr className="text-left font-medium text-gray-500 uppercase tracking-wider">
+                  <th className="px-3 py-1">Timestamp</th>
+                  <th className="px-3 py-1">Source</th>
+                  <th className="px-3 py-1">IP</th>
+                  <th className="px-3 py-1">Service</th>
+                  <th className="px-3 py-1">Target</th>
+                  <th className="px-3 py-1">File</th>
+                </tr>
+              </thead>
+              <tbody>
+                {report.samples[value].map((row, index) => (
+                  <tr key={index} className="border-t border-gray-200 text-gray-600">
+                    <td className="px-3 py-1">{row.Timestamp || <span className="text-gray-400">(empty)</span>}</td>
+                    <td className="px-3 py-1">{row.Source}</td>
+                    <td className="px-3 py-1">{row.IP || <span className="text-gray-400">(empty)</span>}</td>
+                    <td className="px-3 py-1">{row.Service}</td>
+                    <td className="px-3 py-1">{row.Target}</td>
+                    <td className="px-3 py-1">{row.sourceFile}</td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          {report.issues[value].length > report.samples[value].length && (
+            <div className="px-3 py-1 text-xs text-gray-500 border-t border-gray-200">
+              Showing first {report.samples[value].length} of {report.issues[value].length.toLocaleString()}
+            </div>
+          )}
+        </div>
+      ))}
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={onCancel}
+          className="px-4 py-2 text-sm font-medium text-gray-700 bg-white border border-gray-300 rounded-md hover:bg-gray-50"
+        >
+          Cancel Import
+        </button>
+        <button
+          onClick={() => onConfirm(exclude)}
+          className="px-4 py-2 text-sm font-medium text-white bg-blue-600 rounded-md hover:bg-blue-700"
+        >
+          Continue
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default ValidationReportPanel;
@@ -1,26 +1,151 @@
 import React from 'react';
 import { useVirtualizer } from '@tanstack/react-virtual';
 import { ArrowUpDown } from 'lucide-react';
-
-interface ProcessedRow {
-  Source: string;
-  'Source Name': string;
-  IP: string;
-  Service: string;
-  Target: string;
-  Time: string;
-  freq: number;
-}
+import HostLink from './HostLink';
+import { ProcessedRow } from '../lib/types';
+import { EVENT_TYPES, EventTypeId, getFieldLabel } from '../lib/eventTypes';
+import { CHANGE_LABELS, ChangeKind } from '../lib/compareData';
+import { ANOMALY_LABELS } from '../lib/anomalyScore';
+import { CADENCE_LABELS, CadenceKind } from '../lib/periodicity';
+import { OFF_HOURS_LABELS } from '../lib/businessCalendar';
+import { DEFAULT_TIME_ZONE, formatDuration, formatZonedDate, getZonedParts } from '../lib/time';
 
 interface VirtualizedTableProps {
   results: ProcessedRow[];
   filteredAndSortedResults: ProcessedRow[];
   handleSort: (key: keyof ProcessedRow) => void;
+  timeZoneLabel: string;
+  eventType: EventTypeId;
+  // Rows are a baseline comparison: show change badges and both counts
+  compare?: boolean;
+  // Rows carry relationship history from the ledger
+  history?: boolean;
+  // Rows carry anomaly scores
+  anomalies?: boolean;
+  // Rows carry regular cadences
+  cadence?: boolean;
+  // Rows carry off-hours counts from the business calendar
+  offHours?: boolean;
+  timeZone?: string;
+  // Opens the host view from a source or target cell
+  onHostSelect?: (host: string) => void;
+  // Opens the raw events behind a row
+  onRowSelect?: (row: ProcessedRow) => void;
 }
 
+const CHANGE_STYLES: Record<ChangeKind, string> = {
+  new: 'bg-green-100 text-green-800',
+  gone: 'bg-red-100 text-red-800',
+  changed: 'bg-amber-100 text-amber-800',
+  unchanged: 'bg-gray-100 text-gray-600'
+};
+
+const ChangeBadge: React.FC<{ row: ProcessedRow }> = ({ row }) => {
+  if (!row.change) return null;
+  const pct = row.change === 'changed' && row.changePct !== undefined
+    ? ` ${row.changePct > 0 ? '+' : ''}${row.changePct}%`
+    : '';
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CHANGE_STYLES[row.change]}`}>
+      {CHANGE_LABELS[row.change]}{pct}
+    </span>
+  );
+};
+
+// Scores at or above each threshold get the matching colour
+const ANOMALY_STYLES: Array<[number, string]> = [
+  [70, 'bg-red-100 text-red-800'],
+  [40, 'bg-amber-100 text-amber-800'],
+  [0, 'bg-gray-100 text-gray-600']
+];
+
+const formatAnomalyReasons = (row: ProcessedRow): string =>
+  (row.anomalyReasons ?? []).map(reason => `${ANOMALY_LABELS[reason.factor]} (+${reason.points}): ${reason.detail}`).join('\n');
+
+const AnomalyBadge: React.FC<{ row: ProcessedRow }> = ({ row }) => {
+  if (row.anomalyScore === undefined) return null;
+  const [, style] = ANOMALY_STYLES.find(([threshold]) => row.anomalyScore! >= threshold)!;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${style}`}>{row.anomalyScore}</span>
+  );
+};
+
+const CADENCE_STYLES: Record<CadenceKind, string> = {
+  scheduled: 'bg-gray-100 text-gray-600',
+  suspicious: 'bg-red-100 text-red-800'
+};
+
+const CadenceBadge: React.FC<{ row: ProcessedRow }> = ({ row }) => {
+  if (!row.cadence || row.periodMs === undefined) return null;
+  return (
+    <span className={`px-2 py-0.5 rounded-full text-xs font-medium ${CADENCE_STYLES[row.cadence]}`}>
+      {row.cadence === 'scheduled' ? 'Scheduled' : 'Suspicious'} · {formatDuration(row.periodMs)}
+    </span>
+  );
+};
+
+const OffHoursBadge: React.FC<{ row: ProcessedRow }> = ({ row }) => {
+  if (!row.offHours || !row.offHoursReason) return null;
+  return (
+    <span className="px-2 py-0.5 rounded-full text-xs font-medium bg-amber-100 text-amber-800">
+      {OFF_HOURS_LABELS[row.offHoursReason]} · {row.offHours}
+    </span>
+  );
+};
+
+const getHeaderLabel = (key: keyof ProcessedRow, eventType: EventTypeId, timeZoneLabel: string, compare: boolean) => {
+  if (key === 'Time') return `Time (${timeZoneLabel})`;
+  if (key === 'change') return 'Change';
+  if (key === 'baselineFreq') return 'Baseline';
+  if (key === 'firstSeen') return 'First Seen';
+  if (key === 'daysActive') return 'Days Active';
+  if (key === 'anomalyScore') return 'Anomaly';
+  if (key === 'cadence') return 'Cadence';
+  if (key === 'offHours') return 'Off-Hours';
+  if (key === 'freq' && compare) return 'Comparison';
+  return getFieldLabel(eventType, key);
+};
+
+// Columns with a fixed share of the width; the rest split what is left
+const FIXED_WIDTHS: Partial<Record<keyof ProcessedRow, number>> = {
+  Time: 15,
+  change: 15,
+  baselineFreq: 7,
+  firstSeen: 12,
+  daysActive: 6,
+  freq: 5,
+  anomalyScore: 8,
+  cadence: 12,
+  offHours: 14
+};
+
+const formatDay = (iso: string, timeZone: string) => formatZonedDate(getZonedParts(new Date(iso).getTime(), timeZone));
+
+const FirstSeenCell: React.FC<{ row: ProcessedRow; timeZone: string }> = ({ row, timeZone }) => {
+  if (!row.firstSeen) return null;
+  return (
+    <span className="flex items-center gap-1">
+      {formatDay(row.firstSeen, timeZone)}
+      {row.isNew && (
+        <span className="px-1.5 py-0.5 rounded-full text-xs font-medium bg-green-100 text-green-800">New</span>
+      )}
+    </span>
+  );
+};
+
 const VirtualizedTable: React.FC<VirtualizedTableProps> = React.memo(({ 
   filteredAndSortedResults, 
-  handleSort 
+  handleSort,
+  timeZoneLabel,
+  eventType,
+  compare = false,
+  history = false,
+  anomalies = false,
+  cadence = false,
+  offHours = false,
+  timeZone = DEFAULT_TIME_ZONE,
+  onHostSelect,
+  onRowSelect
 }) => {
   const parentRef = React.useRef<HTMLDivElement>(null);
   const [isExpanded, setIsExpanded] = React.useState(false);
@@ -36,13 +161,34 @@ const VirtualizedTable: React.FC<VirtualizedTableProps> = React.memo(({
     overscan: 5
   });
 
-  const columnWidths = {
-    IP: '30%', // Main source column showing hostname (IP)
-    Service: '30%',
-    Target: '20%',
-    Time: '15%',
-    freq: '5%'
-  };
+  // Time and the counts keep fixed widths; the event type's other columns
+  // share the rest, with the source column (hostname (IP)) given a double share.
+  // Comparisons span whole periods, so the change badge takes Time's place
+  const columns = React.useMemo(() =>
+    EVENT_TYPES[eventType].columns.flatMap((key): Array<keyof ProcessedRow> => {
+      if (key === 'Time') return compare ? ['change'] : [key];
+      if (key !== 'freq') return [key];
+      return [
+        ...(history ? ['firstSeen', 'daysActive'] as const : []),
+        ...(compare ? ['baselineFreq'] as const : []),
+        key,
+        ...(offHours ? ['offHours'] as const : []),
+        ...(anomalies ? ['anomalyScore'] as const : []),
+        ...(cadence ? ['cadence'] as const : [])
+      ];
+    }),
+  [eventType, compare, history, anomalies, cadence, offHours]);
+  const columnWidths = React.useMemo(() => {
+    const fixed = columns.reduce((total, key) => total + (FIXED_WIDTHS[key] ?? 0), 0);
+    const shares = columns.filter(key => FIXED_WIDTHS[key] === undefined).length + 1;
+    const widths: Partial<Record<keyof ProcessedRow, string>> = {};
+    columns.forEach(key => {
+      widths[key] = FIXED_WIDTHS[key] !== undefined
+        ? `${FIXED_WIDTHS[key]}%`
+        : `${((100 - fixed) / shares) * (key === 'IP' ? 2 : 1)}%`;
+    });
+    return widths;
+  }, [columns]);
 
   // Handle empty results
   if (!filteredAndSortedResults.length) {
@@ -60,7 +206,7 @@ const VirtualizedTable: React.FC<VirtualizedTableProps> = React.memo(({
           {/* Header */}
           <div className="bg-gray-50 border-b border-gray-200 sticky top-0 z-10">
             <div className="flex w-full">
-              {(Object.keys(columnWidths) as Array<keyof typeof columnWidths>).map((key) => (
+              {columns.map((key) => (
                 <div
                   key={key}
                   className="p-3 text-left text-xs font-medium text-gray-500 uppercase tracking-wider cursor-pointer hover:bg-gray-100 select-none"
@@ -68,9 +214,7 @@ const VirtualizedTable: React.FC<VirtualizedTableProps> = React.memo(({
                   onClick={() => handleSort(key)}
                 >
                   <div className="flex items-center gap-1">
-                    {key === 'Time' ? 'Time (PST)' : 
-                     key === 'IP' ? 'Source' : 
-                     key}
+                    {getHeaderLabel(key, eventType, timeZoneLabel, compare)}
                     <ArrowUpDown className="h-4 w-4" />
                   </div>
                 </div>
@@ -95,32 +239,61 @@ const VirtualizedTable: React.FC<VirtualizedTableProps> = React.memo(({
                 return (
                   <div
                     key={virtualRow.index}
-                    className={`absolute top-0 left-0 flex hover:bg-gray-50 border-b border-gray-200 w-full ${virtualRow.index % 2 === 0 ? 'bg-white' : 'bg-gray-100'}`}
+                    className={`absolute top-0 left-0 flex hover:bg-gray-50 border-b border-gray-200 w-full ${virtualRow.index % 2 === 0 ? 'bg-white' : 'bg-gray-100'} ${onRowSelect ? 'cursor-pointer' : ''}`}
                     style={{
                       height: virtualRow.size,
                       transform: `translateY(${virtualRow.start}px)`
                     }}
+                    onClick={onRowSelect && (() => onRowSelect(row))}
                   >
-                    {(Object.keys(columnWidths) as Array<keyof typeof columnWidths>).map((key) => (
+                    {columns.map((key) => (
                       <div
                         key={key}
                         className={`p-3 text-sm text-gray-500 group relative ${
-                          key === 'freq' ? 'text-right' : ''
+                          key === 'freq' || key === 'baselineFreq' || key === 'daysActive' ? 'text-right' : ''
                         }`}
                         style={{ 
                           width: columnWidths[key],
-                          minWidth: key === 'freq' ? '60px' : '100px'
+                          minWidth: key === 'freq' || key === 'baselineFreq' || key === 'daysActive' ? '60px' : '100px'
                         }}
                       >
                         <div 
                           className="truncate" 
                           title={key === 'IP'
                             ? (row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP)
-                            : row[key].toString()}
+                            : key === 'Time'
+                              ? `${row.bucketStart} – ${row.bucketEnd}`
+                              : key === 'change'
+                                ? `Seen ${row.Time}`
+                                : key === 'firstSeen' && row.firstSeen && row.lastSeen
+                                  ? `First seen ${formatDay(row.firstSeen, timeZone)}, last seen ${formatDay(row.lastSeen, timeZone)} · ${row.totalCount} events across all imports`
+                                  : key === 'anomalyScore'
+                                    ? formatAnomalyReasons(row)
+                                    : key === 'cadence'
+                                      ? (row.cadence ? `${CADENCE_LABELS[row.cadence]}: ${row.cadenceReason}` : '')
+                                      : key === 'offHours'
+                                        ? (row.offHours ? `${row.offHours} of ${row.freq} events outside business hours` : '')
+                                        : String(row[key] ?? '')}
                         >
                           {key === 'IP'
-                            ? (row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP)
-                            : row[key].toString()}
+                            ? (
+                              <HostLink host={row.IP || row.Source} onSelect={onHostSelect} className="max-w-full truncate">
+                                {row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP}
+                              </HostLink>
+                            )
+                            : key === 'Target'
+                              ? <HostLink host={row.Target} onSelect={onHostSelect} className="max-w-full truncate" />
+                              : key === 'change'
+                                ? <ChangeBadge row={row} />
+                                : key === 'firstSeen'
+                                  ? <FirstSeenCell row={row} timeZone={timeZone} />
+                                  : key === 'anomalyScore'
+                                    ? <AnomalyBadge row={row} />
+                                    : key === 'cadence'
+                                      ? <CadenceBadge row={row} />
+                                      : key === 'offHours'
+                                        ? <OffHoursBadge row={row} />
+                                        : String(row[key] ?? '')}
                         </div>
                       </div>
                     ))}
@@ -0,0 +1,247 @@
+import React, { useRef, useState } from 'react';
+import { ChevronDown, Copy, Download, FolderOpen, Pencil, Trash2 } from 'lucide-react';
+import { Popover, PopoverTrigger, PopoverContent } from './ui/popover';
+import { Input } from './ui/input';
+import { StorageStatus, WorkspaceMeta } from '../services/indexedDBService';
+import { BUNDLE_EXTENSION } from '../services/workspaceBundleService';
+
+interface WorkspaceSwitcherProps {
+  workspaces: WorkspaceMeta[];
+  activeId: string | null;
+  onOpen: (id: string) => void;
+  onRename: (id: string, name: string) => void;
+  onDuplicate: (id: string) => void;
+  onDelete: (id: string) => void;
+  onNotesChange: (id: string, notes: string) => void;
+  onExport: (id: string, passphrase: string) => Promise<void>;
+  onImport: (file: File) => void;
+  storage: StorageStatus | null;
+  onPersistStorage: () => void;
+}
+
+// Usage above this share of the quota risks failed saves
+const STORAGE_WARNING_RATIO = 0.8;
+
+const formatBytes = (bytes: number): string => {
+  const units = ['B', 'KB', 'MB', 'GB', 'TB'];
+  let value = bytes;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(unit === 0 ? 0 : 1)} ${units[unit]}`;
+};
+
+const WorkspaceSwitcher: React.FC<WorkspaceSwitcherProps> = ({
+  workspaces,
+  activeId,
+  onOpen,
+  onRename,
+  onDuplicate,
+  onDelete,
+  onNotesChange,
+  onExport,
+  onImport,
+  storage,
+  onPersistStorage
+}) => {
+  const [renaming, setRenaming] = useState<{ id: string; name: string } | null>(null);
+  const [confirmDelete, setConfirmDelete] = useState<string | null>(null);
+  const [exporting, setExporting] = useState<{ id: string; passphrase: string; busy: boolean } | null>(null);
+  const importInput = useRef<HTMLInputElement>(null);
+  const active = workspaces.find(workspace => workspace.id === activeId);
+
+  const commitRename = () => {
+    if (renaming && renaming.name.trim()) onRename(renaming.id, renaming.name.trim());
+    setRenaming(null);
+  };
+
+  const runExport = async () => {
+    if (!exporting) return;
+    setExporting({ ...exporting, busy: true });
+    try {
+      await onExport(exporting.id, exporting.passphrase);
+    } finally {
+      setExporting(null);
+    }
+  };
+
+  return (
+    <Popover onOpenChange={() => { setRenaming(null); setConfirmDelete(null); setExporting(null); }}>
+      <PopoverTrigger asChild>
+        <button
+          className="flex items-center gap-1 px-2 py-1 text-sm text-gray-600 rounded-md hover:bg-gray-100"
+          title={active ? `Workspace: ${active.name}` : 'Open a saved workspace'}
+        >
+          <FolderOpen className="h-4 w-4 text-gray-500" />
+          <span className="max-w-[240px] truncate">{active ? active.name : 'Workspaces'}</span>
+          <ChevronDown className="h-4 w-4 text-gray-400" />
+        </button>
+      </PopoverTrigger>
+      <PopoverContent align="end" className="w-[380px]">
+        <div className="space-y-3">
+          <h4 className="text-sm font-medium">Workspaces</h4>
+          <ul className="max-h-[320px] overflow-y-auto divide-y divide-gray-100">
+            {workspaces.map((workspace) => (
+              <li key={workspace.id} className="py-2">
+                <div className="flex items-start gap-2">
+                  <div className="flex-1 min-w-0">
+                    {renaming?.id === workspace.id ? (
+                      <Input
+                        autoFocus
+                        value={renaming.name}
+                        onChange={(e: React.ChangeEvent<HTMLInputElement>) => setRenaming({ id: workspace.id, name: e.target.value })}
+                        onBlur={commitRename}
+                        onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                          if (e.key === 'Enter') commitRename();
+                          if (e.key === 'Escape') setRenaming(null);
+                        }}
+                        className="h-8"
+                      />
+                    ) : (
+                      <button
+                        onClick={() => onOpen(workspace.id)}
+                        className={`block w-full text-left text-sm truncate hover:text-blue-600 ${
+                          workspace.id === activeId ? 'font-medium text-blue-600' : 'text-gray-800'
+                        }`}
+                        title={workspace.name}
+                      >
+                        {workspace.name}
+                      </button>
+                    )}
+                    <p className="text-xs text-gray-500 truncate" title={workspace.fileName}>
+                      {workspace.fileName && `${workspace.fileName} · `}
+                      Opened {new Date(workspace.lastOpened).toLocaleString()}
+                    </p>
+                  </div>
+                  {confirmDelete === workspace.id ? (
+                    <div className="flex items-center gap-1 text-xs">
+                      <button
+                        onClick={() => { setConfirmDelete(null); onDelete(workspace.id); }}
+                        className="px-2 py-1 text-white bg-red-600 rounded hover:bg-red-700"
+                      >
+                        Delete
+                      </button>
+                      <button
+                        onClick={() => setConfirmDelete(null)}
+                        className="px-2 py-1 text-gray-700 border border-gray-300 rounded hover:bg-gray-50"
+                      >
+                        Keep
+                      </button>
+                    </div>
+                  ) : (
+                    <div className="flex items-center">
+                      <button
+                        onClick={() => setRenaming({ id: workspace.id, name: workspace.name })}
+                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                        title="Rename"
+                      >
+                        <Pencil className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setExporting({ id: workspace.id, passphrase: '', busy: false })}
+                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                        title="Export as a file"
+                      >
+                        <Download className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => onDuplicate(workspace.id)}
+                        className="p-1 text-gray-400 hover:text-gray-700 rounded"
+                        title="Duplicate"
+                      >
+                        <Copy className="h-4 w-4" />
+                      </button>
+                      <button
+                        onClick={() => setConfirmDelete(workspace.id)}
+                        className="p-1 text-gray-400 hover:text-red-600 rounded"
+                        title="Delete"
+                      >
+                        <Trash2 className="h-4 w-4" />
+                      </button>
+                    </div>
+                  )}
+                </div>
+                {exporting?.id === workspace.id && (
+                  <div className="mt-2 flex items-center gap-2">
+                    <Input
+                      autoFocus
+                      type="password"
+                      autoComplete="new-password"
+                      value={exporting.passphrase}
+                      onChange={(e: React.ChangeEvent<HTMLInputElement>) => setExporting({ ...exporting, passphrase: e.target.value })}
+                      onKeyDown={(e: React.KeyboardEvent<HTMLInputElement>) => {
+                        if (e.key === 'Enter') runExport();
+                        if (e.key === 'Escape') setExporting(null);
+                      }}
+                      placeholder="Passphrase (optional)"
+                      className="h-8 text-sm"
+                    />
+                    <button
+                      onClick={runExport}
+                      disabled={exporting.busy}
+                      className="px-2 py-1 text-xs text-white bg-blue-600 rounded hover:bg-blue-700 disabled:opacity-50 whitespace-nowrap"
+                    >
+                      {exporting.busy ? 'Exporting…' : 'Export'}
+                    </button>
+                  </div>
+                )}
+              </li>
+            ))}
+          </ul>
+          {active && (
+            <div>
+              <label className="text-xs font-medium text-gray-500 uppercase tracking-wider">Notes</label>
+              {/* Keyed by workspace so switching starts from that workspace's notes */}
+              <textarea
+                key={active.id}
+                defaultValue={active.notes}
+                onBlur={(e) => {
+                  if (e.target.value !== active.notes) onNotesChange(active.id, e.target.value);
+                }}
+                rows={4}
+                placeholder="Findings, open questions, ticket numbers…"
+                className="mt-1 w-full rounded-md border border-gray-300 px-3 py-2 text-sm focus:outline-none focus:ring-2 focus:ring-blue-500"
+              />
+            </div>
+          )}
+          <div className="text-xs">
+            <button onClick={() => importInput.current?.click()} className="text-blue-600 hover:text-blue-800">
+              Import a workspace file…
+            </button>
+            <input
+              ref={importInput}
+              type="file"
+              accept={BUNDLE_EXTENSION}
+              className="hidden"
+              onChange={(e) => {
+                const file = e.target.files?.[0];
+                e.target.value = '';
+                if (file) onImport(file);
+              }}
+            />
+          </div>
+          {storage && (
+            <div className="border-t border-gray-100 pt-2 text-xs text-gray-500 space-y-1">
+              <p className={storage.quota && storage.usage / storage.quota > STORAGE_WARNING_RATIO ? 'text-amber-600' : ''}>
+                Using {formatBytes(storage.usage)}
+                {storage.quota > 0 && ` of ${formatBytes(storage.quota)}`} of browser storage
+              </p>
+              {!storage.persisted && (
+                <p>
+                  The browser may clear saved workspaces when space runs low.{' '}
+                  <button onClick={onPersistStorage} className="text-blue-600 hover:text-blue-800">
+                    Keep data on this device
+                  </button>
+                </p>
+              )}
+            </div>
+          )}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+};
+
+export default WorkspaceSwitcher;
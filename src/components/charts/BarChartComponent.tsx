@@ -7,6 +7,7 @@ import {
   CartesianGrid,
   Tooltip,
   ResponsiveContainer,
+  Legend,
   TooltipProps
 } from 'recharts';
 import { ValueType, NameType } from 'recharts/types/component/DefaultTooltipContent';
@@ -14,12 +15,16 @@ import { ValueType, NameType } from 'recharts/types/component/DefaultTooltipCont
 interface ChartDataPoint {
   timePattern?: string;
   totalFreq?: number;
+  onHours?: number;
+  offHours?: number;
   sources?: number;
   targets?: number;
   relation?: string;
   strength?: number;
   target?: string;
   frequency?: number;
+  // Host the bar is about, when clicking it should open the host view
+  host?: string;
 }
 
 // Custom tooltip component
@@ -31,6 +36,9 @@ const CustomTooltip = ({ active, payload }: TooltipProps<ValueType, NameType>) =
         <div className="bg-white border p-2 shadow-md rounded">
           <p className="font-semibold">{data.timePattern}</p>
           <p>Total Events: {data.totalFreq}</p>
+          {data.offHours !== undefined && data.onHours !== undefined && (
+            <p>On Hours: {data.onHours} · Off Hours: {data.offHours}</p>
+          )}
           <p>Unique Sources: {data.sources}</p>
           <p>Unique Targets: {data.targets}</p>
         </div>
@@ -51,9 +59,13 @@ const CustomTooltip = ({ active, payload }: TooltipProps<ValueType, NameType>) =
 interface BarChartComponentProps {
   data: ChartDataPoint[];
   type: 'time' | 'target' | 'relation';
+  // Time patterns stack on-hours and off-hours events
+  split?: boolean;
+  // Called with the bar's host, for bars that carry one
+  onHostSelect?: (host: string) => void;
 }
 
-export const BarChartComponent: React.FC<BarChartComponentProps> = ({ data, type }) => {
+export const BarChartComponent: React.FC<BarChartComponentProps> = ({ data, type, split = false, onHostSelect }) => {
   // Handle empty data state
   if (!data || data.length === 0) {
     return (
@@ -89,12 +101,24 @@ export const BarChartComponent: React.FC<BarChartComponentProps> = ({ data, type
         <Tooltip<ValueType, NameType>
           content={type === 'target' ? undefined : CustomTooltip}
         />
-        <Bar
-          dataKey={type === 'time' ? 'totalFreq' : type === 'target' ? 'frequency' : 'strength'}
-          name="Frequency"
-          fill="#8884d8"
-          barSize={25}
-        />
+        {type === 'time' && split ? (
+          <>
+            <Legend />
+            <Bar dataKey="onHours" name="On hours" stackId="hours" fill="#8884d8" barSize={25} />
+            <Bar dataKey="offHours" name="Off hours" stackId="hours" fill="#f59e0b" barSize={25} />
+          </>
+        ) : (
+          <Bar
+            dataKey={type === 'time' ? 'totalFreq' : type === 'target' ? 'frequency' : 'strength'}
+            name="Frequency"
+            fill="#8884d8"
+            barSize={25}
+            cursor={onHostSelect ? 'pointer' : undefined}
+            onClick={(entry: { payload?: ChartDataPoint }) => {
+              if (onHostSelect && entry.payload?.host) onHostSelect(entry.payload.host);
+            }}
+          />
+        )}
       </BarChart>
     </ResponsiveContainer>
   );
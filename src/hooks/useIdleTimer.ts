@@ -0,0 +1,27 @@
+import { useEffect, useRef } from 'react';
+
+const ACTIVITY_EVENTS = ['pointerdown', 'pointermove', 'keydown', 'wheel', 'touchstart'] as const;
+
+/**
+ * Calls `onIdle` once there has been no user input for `minutes`. A value of
+ * 0 disables the timer.
+ */
+export const useIdleTimer = (minutes: number, onIdle: () => void) => {
+  // Kept in a ref so a new callback each render doesn't restart the timer
+  const callback = useRef(onIdle);
+  callback.current = onIdle;
+
+  useEffect(() => {
+    if (minutes <= 0) return;
+    let timer = window.setTimeout(() => callback.current(), minutes * 60 * 1000);
+    const reset = () => {
+      window.clearTimeout(timer);
+      timer = window.setTimeout(() => callback.current(), minutes * 60 * 1000);
+    };
+    ACTIVITY_EVENTS.forEach(event => window.addEventListener(event, reset, { passive: true }));
+    return () => {
+      window.clearTimeout(timer);
+      ACTIVITY_EVENTS.forEach(event => window.removeEventListener(event, reset));
+    };
+  }, [minutes]);
+};
@@ -0,0 +1,64 @@
+import { CrowdStrikeRow, DateRange } from './types';
+import { DEFAULT_EVENT_TYPE, EventTypeId, getEventType } from './eventTypes';
+import { WEEKDAY_LABELS } from './businessCalendar';
+import { DEFAULT_TIME_ZONE, ZonedParts, getRangeBounds, getZonedParts } from './time';
+
+// Rows of the heatmap, Monday first
+export const HEATMAP_WEEKDAYS = [1, 2, 3, 4, 5, 6, 0];
+
+/** A weekday, an hour of the day or one hour of one weekday; null is any. */
+export interface TimeSlice {
+  weekday: number | null;
+  hour: number | null;
+}
+
+// Narrows the heatmap's counts; the slice itself comes from clicking a cell
+export interface HeatmapFilter {
+  // Source IP, as in the table's source filter
+  source?: string;
+  target?: string;
+  service?: string;
+}
+
+export interface HeatmapOptions extends HeatmapFilter {
+  dateRange?: DateRange;
+  // Resolved IANA zone the weekdays and hours are read in
+  timeZone?: string;
+  eventType?: EventTypeId;
+}
+
+export const matchesTimeSlice = (parts: ZonedParts, slice: TimeSlice): boolean =>
+  (slice.weekday === null || parts.weekday === slice.weekday) && (slice.hour === null || parts.hour === slice.hour);
+
+const formatHourRange = (hour: number) =>
+  `${String(hour).padStart(2, '0')}:00–${String((hour + 1) % 24).padStart(2, '0')}:00`;
+
+export const formatTimeSlice = (slice: TimeSlice): string => {
+  if (slice.weekday !== null && slice.hour !== null) return `${WEEKDAY_LABELS[slice.weekday]} ${formatHourRange(slice.hour)}`;
+  if (slice.weekday !== null) return `${WEEKDAY_LABELS[slice.weekday]}, all day`;
+  if (slice.hour !== null) return `${formatHourRange(slice.hour)}, every day`;
+  return 'Any time';
+};
+
+/**
+ * Counts events by weekday and hour of day in the time zone, indexed
+ * [weekday][hour] with 0 = Sunday. Takes the same date range as the table.
+ */
+export const buildHeatmap = (data: CrowdStrikeRow[], options: HeatmapOptions = {}): number[][] => {
+  const { dateRange, timeZone = DEFAULT_TIME_ZONE, eventType = DEFAULT_EVENT_TYPE, source, target, service } = options;
+  try {
+    const [rangeStart, rangeEnd] = getRangeBounds(dateRange, timeZone);
+    const counts = WEEKDAY_LABELS.map(() => new Array<number>(24).fill(0));
+    for (const row of data) {
+      if (getEventType(row) !== eventType) continue;
+      if ((source && row.IP !== source) || (target && row.Target !== target) || (service && row.Service !== service)) continue;
+      const time = new Date(row.Timestamp).getTime();
+      if (Number.isNaN(time) || time < rangeStart || time >= rangeEnd) continue;
+      const { weekday, hour } = getZonedParts(time, timeZone);
+      counts[weekday][hour]++;
+    }
+    return counts;
+  } catch (err) {
+    throw new Error(`Heatmap failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,203 @@
+import { CrowdStrikeRow } from './types';
+import { DEFAULT_EVENT_TYPE, EVENT_TYPES, EventTypeId, getEventType, patternKey } from './eventTypes';
+import { DEFAULT_TIME_ZONE, formatZonedDate, getZonedParts } from './time';
+
+export type AnomalyFactor = 'rarity' | 'hour' | 'newService';
+
+export const ANOMALY_LABELS: Record<AnomalyFactor, string> = {
+  rarity: 'Rare',
+  hour: 'Unusual hour',
+  newService: 'New service'
+};
+
+export interface AnomalyReason {
+  factor: AnomalyFactor;
+  // Points this factor added to the 0-100 score
+  points: number;
+  detail: string;
+}
+
+export interface AnomalyScore {
+  key: string;
+  score: number;
+  // Largest contribution first
+  reasons: AnomalyReason[];
+}
+
+export interface AnomalyOptions {
+  timeZone?: string;
+  eventType?: EventTypeId;
+}
+
+// Most a factor adds to the score; all three at full strength make 100
+const WEIGHTS: Record<AnomalyFactor, number> = {
+  rarity: 40,
+  hour: 35,
+  newService: 25
+};
+
+// A source needs this many events outside the relationship before its hours
+// count as a baseline
+const MIN_BASELINE_EVENTS = 20;
+// Services a host first uses after this share of its observed time are new to
+// it, as long as that is at least a day in
+const LEARNING_SHARE = 0.25;
+const DAY_MS = 24 * 60 * 60 * 1000;
+// Smaller contributions are left out of the explanation
+const MIN_REASON_POINTS = 5;
+
+interface RelationshipStats {
+  row: CrowdStrikeRow;
+  count: number;
+  hours: number[];
+}
+
+interface HostStats {
+  first: number;
+  last: number;
+  // Time each service was first seen on the host
+  services: Map<string, number>;
+}
+
+// The source column shows the IP, with the hostname when there is one
+const sourceId = (row: Pick<CrowdStrikeRow, 'IP' | 'Source'>) => row.IP || row.Source;
+const sourceLabel = (row: CrowdStrikeRow) => row['Source Name'] || sourceId(row);
+
+const trackHost = (hosts: Map<string, HostStats>, host: string, service: string, time: number) => {
+  const stats = hosts.get(host);
+  if (!stats) {
+    hosts.set(host, { first: time, last: time, services: new Map([[service, time]]) });
+    return;
+  }
+  if (time < stats.first) stats.first = time;
+  if (time > stats.last) stats.last = time;
+  const first = stats.services.get(service);
+  if (first === undefined || time < first) stats.services.set(service, time);
+};
+
+// When `service` arrived on the host, if it came after the learning period
+const newServiceSince = (stats: HostStats | undefined, service: string): number | null => {
+  if (!stats) return null;
+  const first = stats.services.get(service)!;
+  const learning = Math.max(DAY_MS, (stats.last - stats.first) * LEARNING_SHARE);
+  return first - stats.first > learning ? first : null;
+};
+
+const formatHour = (hour: number) => `${String(hour).padStart(2, '0')}:00`;
+const formatShare = (share: number) => (share > 0 && share < 0.01 ? 'under 1%' : `${Math.round(share * 100)}%`);
+
+/**
+ * Scores every relationship of the event type on how unusual it is, from 0 to
+ * 100: how rarely it occurs, how far its hours are from the rest of the
+ * source's activity, and whether it brought a service that is new to the
+ * source or target host.
+ */
+export const scoreAnomalies = (data: CrowdStrikeRow[], options: AnomalyOptions = {}): AnomalyScore[] => {
+  const { timeZone = DEFAULT_TIME_ZONE, eventType = DEFAULT_EVENT_TYPE } = options;
+  const withService = EVENT_TYPES[eventType].groupBy.includes('Service');
+  try {
+    const relationships = new Map<string, RelationshipStats>();
+    const sourceHours = new Map<string, number[]>();
+    const sources = new Map<string, HostStats>();
+    const targets = new Map<string, HostStats>();
+
+    for (const row of data) {
+      if (getEventType(row) !== eventType) continue;
+      const time = new Date(row.Timestamp).getTime();
+      if (Number.isNaN(time)) continue;
+      const { hour } = getZonedParts(time, timeZone);
+
+      const key = patternKey(row, eventType);
+      let stats = relationships.get(key);
+      if (!stats) {
+        stats = { row, count: 0, hours: new Array(24).fill(0) };
+        relationships.set(key, stats);
+      }
+      stats.count++;
+      stats.hours[hour]++;
+
+      const source = sourceId(row);
+      let hours = sourceHours.get(source);
+      if (!hours) {
+        hours = new Array(24).fill(0);
+        sourceHours.set(source, hours);
+      }
+      hours[hour]++;
+
+      if (withService) {
+        trackHost(sources, source, row.Service, time);
+        if (row.Target) trackHost(targets, row.Target, row.Service, time);
+      }
+    }
+
+    return Array.from(relationships.entries()).map(([key, { row, count, hours }]) => {
+      const source = sourceId(row);
+      const allHours = sourceHours.get(source)!;
+      const sourceTotal = allHours.reduce((total, value) => total + value, 0);
+      const reasons: AnomalyReason[] = [];
+
+      // Rarity: a single event scores fully, falling off with the log of the count
+      const rarity = 1 / (1 + Math.log2(count));
+      reasons.push({
+        factor: 'rarity',
+        points: rarity * WEIGHTS.rarity,
+        detail: `Seen ${count === 1 ? 'once' : `${count} times`}, ${formatShare(count / sourceTotal)} of ${sourceLabel(row)}'s activity`
+      });
+
+      // Hours: how much of the relationship falls in hours the source is
+      // otherwise quieter than an even spread would be
+      const baselineTotal = sourceTotal - count;
+      if (baselineTotal >= MIN_BASELINE_EVENTS) {
+        let deviation = 0;
+        let worstHour = -1;
+        let worstWeight = 0;
+        let worstShare = 0;
+        hours.forEach((events, hour) => {
+          if (!events) return;
+          const share = (allHours[hour] - events) / baselineTotal;
+          const weight = (events / count) * Math.max(0, 1 - share * 24);
+          deviation += weight;
+          if (weight > worstWeight) {
+            worstHour = hour;
+            worstWeight = weight;
+            worstShare = share;
+          }
+        });
+        if (worstHour >= 0) {
+          reasons.push({
+            factor: 'hour',
+            points: deviation * WEIGHTS.hour,
+            detail: `Active around ${formatHour(worstHour)}, when ${sourceLabel(row)} otherwise does ${formatShare(worstShare)} of its activity`
+          });
+        }
+      }
+
+      // New service: the source started using it, or the target started
+      // receiving it, well after the host first appeared
+      if (withService) {
+        const sourceSince = newServiceSince(sources.get(source), row.Service);
+        const targetSince = row.Target ? newServiceSince(targets.get(row.Target), row.Service) : null;
+        if (sourceSince !== null || targetSince !== null) {
+          const [host, since] = sourceSince !== null ? [sourceLabel(row), sourceSince] : [row.Target, targetSince!];
+          reasons.push({
+            factor: 'newService',
+            points: WEIGHTS.newService,
+            detail: `${row.Service} is new for ${host}, first seen ${formatZonedDate(getZonedParts(since, timeZone))}`
+          });
+        }
+      }
+
+      const score = Math.round(reasons.reduce((total, reason) => total + reason.points, 0));
+      return {
+        key,
+        score,
+        reasons: reasons
+          .filter(reason => reason.points >= MIN_REASON_POINTS)
+          .map(reason => ({ ...reason, points: Math.round(reason.points) }))
+          .sort((a, b) => b.points - a.points)
+      };
+    });
+  } catch (err) {
+    throw new Error(`Anomaly scoring failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,68 @@
+import { DEFAULT_TIME_ZONE, formatZonedDate, getZonedParts, resolveTimeZone } from './time';
+
+export type OffHoursReason = 'holiday' | 'nonWorkday' | 'afterHours';
+
+export const OFF_HOURS_LABELS: Record<OffHoursReason, string> = {
+  holiday: 'Holiday',
+  nonWorkday: 'Non-working day',
+  afterHours: 'Outside business hours'
+};
+
+export interface BusinessCalendar {
+  // Time zone setting the hours, days and holidays are read in ('local' allowed)
+  timeZone: string;
+  // Wall-clock HH:MM; the end is exclusive and must come after the start
+  dayStart: string;
+  dayEnd: string;
+  // Working weekdays, 0 = Sunday
+  workdays: number[];
+  // YYYY-MM-DD
+  holidays: string[];
+}
+
+export const DEFAULT_BUSINESS_CALENDAR: BusinessCalendar = {
+  timeZone: DEFAULT_TIME_ZONE,
+  dayStart: '08:00',
+  dayEnd: '18:00',
+  workdays: [1, 2, 3, 4, 5],
+  holidays: []
+};
+
+export const WEEKDAY_LABELS = ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'];
+
+const toMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+/** Why a calendar can't be used, or null when it is valid. */
+export const validateCalendar = (calendar: BusinessCalendar): string | null => {
+  if (!/^\d{2}:\d{2}$/.test(calendar.dayStart) || !/^\d{2}:\d{2}$/.test(calendar.dayEnd)) {
+    return 'Business hours need a start and end time';
+  }
+  if (toMinutes(calendar.dayEnd) <= toMinutes(calendar.dayStart)) {
+    return 'Business hours must end after they start';
+  }
+  return null;
+};
+
+/**
+ * Builds a check that says why an instant falls outside the calendar's
+ * business hours, or returns null for business hours. Holidays win over
+ * non-working days, which win over the time of day.
+ */
+export const createOffHoursCheck = (calendar: BusinessCalendar) => {
+  const timeZone = resolveTimeZone(calendar.timeZone);
+  const start = toMinutes(calendar.dayStart);
+  const end = toMinutes(calendar.dayEnd);
+  const workdays = new Set(calendar.workdays);
+  const holidays = new Set(calendar.holidays);
+
+  return (time: number): OffHoursReason | null => {
+    const parts = getZonedParts(time, timeZone);
+    if (holidays.size && holidays.has(formatZonedDate(parts))) return 'holiday';
+    if (!workdays.has(parts.weekday)) return 'nonWorkday';
+    const minute = parts.hour * 60 + parts.minute;
+    return minute < start || minute >= end ? 'afterHours' : null;
+  };
+};
@@ -0,0 +1,122 @@
+import _ from 'lodash';
+import { CrowdStrikeRow, DateRange, ProcessedRow } from './types';
+import { DEFAULT_EVENT_TYPE, EVENT_TYPES } from './eventTypes';
+import { ProcessOptions, processData } from './processData';
+import { DEFAULT_TIME_ZONE, formatZonedDate, getRangeBounds, getZonedParts } from './time';
+
+export type ChangeKind = 'new' | 'gone' | 'changed' | 'unchanged';
+
+// Display and default sort order
+export const CHANGE_KINDS: ChangeKind[] = ['new', 'gone', 'changed', 'unchanged'];
+
+export const CHANGE_LABELS: Record<ChangeKind, string> = {
+  new: 'New',
+  gone: 'Gone',
+  changed: 'Changed',
+  unchanged: 'Unchanged'
+};
+
+// A relationship counts as changed when its daily rate at least doubles or
+// halves, and the difference is more than a handful of events
+const CHANGE_RATIO = 2;
+const MIN_CHANGE_EVENTS = 5;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface CompareOptions extends Omit<ProcessOptions, 'dateRange' | 'bucketMode'> {
+  // Empty ranges cover the whole dataset
+  baselineRange: DateRange;
+  comparisonRange: DateRange;
+}
+
+interface PeriodTotals {
+  relationships: Map<string, ProcessedRow>;
+  days: number;
+}
+
+const hasRange = (range: DateRange) => !!(range.startDate && range.endDate);
+
+// Totals per relationship over the period, from day buckets so the
+// grouping matches the regular results
+const summarize = (rows: CrowdStrikeRow[], range: DateRange, options: CompareOptions): PeriodTotals => {
+  const { timeZone = DEFAULT_TIME_ZONE, eventType = DEFAULT_EVENT_TYPE } = options;
+  const { groupBy } = EVENT_TYPES[eventType];
+  const buckets = processData(rows, { timeZone, eventType, dateRange: hasRange(range) ? range : undefined, bucketMode: 'day' });
+
+  const relationships = new Map<string, ProcessedRow>();
+  let first = Infinity;
+  let last = -Infinity;
+  for (const bucket of buckets) {
+    const key = groupBy.map(field => bucket[field] ?? '').join('|');
+    const existing = relationships.get(key);
+    if (!existing) {
+      relationships.set(key, { ...bucket });
+    } else {
+      existing.freq += bucket.freq;
+      if (bucket.bucketStart < existing.bucketStart) existing.bucketStart = bucket.bucketStart;
+      if (bucket.bucketEnd > existing.bucketEnd) existing.bucketEnd = bucket.bucketEnd;
+    }
+    first = Math.min(first, new Date(bucket.bucketStart).getTime());
+    last = Math.max(last, new Date(bucket.bucketEnd).getTime());
+  }
+
+  // Rates are compared per day, so periods of different lengths line up
+  const [rangeStart, rangeEnd] = getRangeBounds(range, timeZone);
+  const span = hasRange(range) ? rangeEnd - rangeStart : last - first;
+  return { relationships, days: Math.max(1, Math.round(span / DAY_MS)) };
+};
+
+const formatSeen = (row: ProcessedRow, timeZone: string) => {
+  const first = formatZonedDate(getZonedParts(new Date(row.bucketStart).getTime(), timeZone));
+  const last = formatZonedDate(getZonedParts(new Date(row.bucketEnd).getTime() - 1, timeZone));
+  return first === last ? first : `${first} – ${last}`;
+};
+
+const classify = (baselineFreq: number, comparisonFreq: number, expected: number): ChangeKind => {
+  if (!baselineFreq) return 'new';
+  if (!comparisonFreq) return 'gone';
+  const ratio = comparisonFreq / expected;
+  const significant = ratio >= CHANGE_RATIO || ratio <= 1 / CHANGE_RATIO;
+  return significant && Math.abs(comparisonFreq - expected) >= MIN_CHANGE_EVENTS ? 'changed' : 'unchanged';
+};
+
+/**
+ * Diffs the relationships of a comparison period against a baseline. Each
+ * row carries the comparison count in `freq`, the baseline count in
+ * `baselineFreq` and the change in the daily rate as a percentage.
+ */
+export const compareData = (
+  baseline: CrowdStrikeRow[],
+  comparison: CrowdStrikeRow[],
+  options: CompareOptions
+): ProcessedRow[] => {
+  const { timeZone = DEFAULT_TIME_ZONE } = options;
+  try {
+    const before = summarize(baseline, options.baselineRange, options);
+    const after = summarize(comparison, options.comparisonRange, options);
+    const keys = new Set([...before.relationships.keys(), ...after.relationships.keys()]);
+
+    const diff: ProcessedRow[] = [];
+    for (const key of keys) {
+      const previous = before.relationships.get(key);
+      const current = after.relationships.get(key);
+      const row = (current ?? previous)!;
+      const baselineFreq = previous?.freq ?? 0;
+      const comparisonFreq = current?.freq ?? 0;
+      // Baseline count scaled to the comparison period's length
+      const expected = (baselineFreq / before.days) * after.days;
+      diff.push({
+        ...row,
+        Time: formatSeen(row, timeZone),
+        freq: comparisonFreq,
+        baselineFreq,
+        change: classify(baselineFreq, comparisonFreq, expected),
+        changePct: expected ? Math.round(((comparisonFreq - expected) / expected) * 100) : undefined
+      });
+    }
+
+    return _.orderBy(diff, [row => CHANGE_KINDS.indexOf(row.change!), 'Source', 'freq'], ['asc', 'asc', 'desc']);
+  } catch (err) {
+    throw new Error(`Comparison failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
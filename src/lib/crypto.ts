@@ -0,0 +1,114 @@
+// Passphrase-based encryption for data at rest. A random AES-GCM data key
+// encrypts the data; the passphrase only wraps that key, so changing the
+// passphrase never re-encrypts the data and deleting the wrapped key makes
+// the data unreadable.
+
+const PBKDF2_ITERATIONS = 600000;
+const SALT_BYTES = 16;
+const IV_BYTES = 12;
+
+export const MIN_PASSPHRASE_LENGTH = 8;
+
+export interface EncryptedValue {
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+/** The data key wrapped with a key derived from the passphrase. */
+export interface KeyRecord {
+  salt: Uint8Array;
+  iterations: number;
+  wrappedKey: ArrayBuffer;
+}
+
+/** Bytes encrypted with a key derived directly from a passphrase. */
+export interface PassphraseEncrypted {
+  salt: Uint8Array;
+  iterations: number;
+  iv: Uint8Array;
+  data: ArrayBuffer;
+}
+
+const derivePassphraseKey = async (
+  passphrase: string,
+  salt: Uint8Array,
+  iterations: number,
+  algorithm: 'AES-KW' | 'AES-GCM',
+  usages: KeyUsage[]
+): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey(
+    { name: 'PBKDF2', salt, iterations, hash: 'SHA-256' },
+    material,
+    { name: algorithm, length: 256 },
+    false,
+    usages
+  );
+};
+
+const deriveWrappingKey = (passphrase: string, salt: Uint8Array, iterations: number): Promise<CryptoKey> =>
+  derivePassphraseKey(passphrase, salt, iterations, 'AES-KW', ['wrapKey', 'unwrapKey']);
+
+const wrapDataKey = async (dataKey: CryptoKey, passphrase: string): Promise<KeyRecord> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const wrappingKey = await deriveWrappingKey(passphrase, salt, PBKDF2_ITERATIONS);
+  const wrappedKey = await crypto.subtle.wrapKey('raw', dataKey, wrappingKey, 'AES-KW');
+  return { salt, iterations: PBKDF2_ITERATIONS, wrappedKey };
+};
+
+/** Creates a data key and wraps it with `passphrase`. */
+export const createDataKey = async (passphrase: string): Promise<{ key: CryptoKey; record: KeyRecord }> => {
+  // Extractable so it can be re-wrapped when the passphrase changes
+  const key = await crypto.subtle.generateKey({ name: 'AES-GCM', length: 256 }, true, ['encrypt', 'decrypt']);
+  return { key, record: await wrapDataKey(key, passphrase) };
+};
+
+export const unwrapDataKey = async (record: KeyRecord, passphrase: string): Promise<CryptoKey> => {
+  const wrappingKey = await deriveWrappingKey(passphrase, record.salt, record.iterations);
+  try {
+    return await crypto.subtle.unwrapKey(
+      'raw',
+      record.wrappedKey,
+      wrappingKey,
+      'AES-KW',
+      { name: 'AES-GCM', length: 256 },
+      true,
+      ['encrypt', 'decrypt']
+    );
+  } catch {
+    // AES-KW's integrity check fails when the passphrase is wrong
+    throw new Error('Incorrect passphrase');
+  }
+};
+
+export const rewrapDataKey = (key: CryptoKey, passphrase: string): Promise<KeyRecord> => wrapDataKey(key, passphrase);
+
+export const encryptValue = async (key: CryptoKey, value: unknown): Promise<EncryptedValue> => {
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(JSON.stringify(value)));
+  return { iv, data };
+};
+
+export const decryptValue = async <T>(key: CryptoKey, value: EncryptedValue): Promise<T> => {
+  const plain = await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, key, value.data);
+  return JSON.parse(new TextDecoder().decode(plain)) as T;
+};
+
+/** Encrypts bytes that leave the browser, such as exported files, with their own passphrase. */
+export const encryptWithPassphrase = async (passphrase: string, bytes: BufferSource): Promise<PassphraseEncrypted> => {
+  const salt = crypto.getRandomValues(new Uint8Array(SALT_BYTES));
+  const iv = crypto.getRandomValues(new Uint8Array(IV_BYTES));
+  const key = await derivePassphraseKey(passphrase, salt, PBKDF2_ITERATIONS, 'AES-GCM', ['encrypt']);
+  const data = await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, bytes);
+  return { salt, iterations: PBKDF2_ITERATIONS, iv, data };
+};
+
+export const decryptWithPassphrase = async (passphrase: string, value: PassphraseEncrypted): Promise<ArrayBuffer> => {
+  const key = await derivePassphraseKey(passphrase, value.salt, value.iterations, 'AES-GCM', ['decrypt']);
+  try {
+    return await crypto.subtle.decrypt({ name: 'AES-GCM', iv: value.iv }, key, value.data);
+  } catch {
+    // GCM's authentication tag doesn't verify with the wrong key
+    throw new Error('Incorrect passphrase');
+  }
+};
@@ -0,0 +1,123 @@
+import { CrowdStrikeRow, ProcessedRow } from './types';
+
+export type EventTypeId = 'serviceAccess' | 'authentication' | 'ldapSearch' | 'credential';
+
+// Row fields an event type can group or break down by
+export type EventField = 'Source' | 'Source Name' | 'IP' | 'Service' | 'Target' | 'Account' | 'Protocol' | 'Result';
+
+export interface EventTypeCard {
+  title: string;
+  field: EventField;
+}
+
+export interface EventTypeDefinition {
+  id: EventTypeId;
+  label: string;
+  // Matched against the export's Activity column to split mixed files
+  activityPattern: RegExp;
+  // Fields that must be mapped when a file holds only this type
+  requiredFields: Array<EventField | 'Timestamp'>;
+  // Fields that identify a pattern; rows sharing them are counted together
+  groupBy: EventField[];
+  // Table columns in display order; IP renders as "hostname (IP)"
+  columns: Array<keyof ProcessedRow>;
+  // Per-type names for the shared fields, e.g. Target is a domain controller for LDAP
+  fieldLabels: Partial<Record<keyof ProcessedRow, string>>;
+  // Extra Overview cards, each a top-values breakdown of one field
+  cards: EventTypeCard[];
+}
+
+export const DEFAULT_EVENT_TYPE: EventTypeId = 'serviceAccess';
+
+export const EVENT_TYPES: Record<EventTypeId, EventTypeDefinition> = {
+  serviceAccess: {
+    id: 'serviceAccess',
+    label: 'Service Access',
+    activityPattern: /service access/i,
+    requiredFields: ['Source', 'IP', 'Service', 'Target', 'Timestamp'],
+    groupBy: ['Source', 'Source Name', 'IP', 'Service', 'Target'],
+    columns: ['IP', 'Service', 'Target', 'Time', 'freq'],
+    fieldLabels: { IP: 'Source' },
+    cards: []
+  },
+  authentication: {
+    id: 'authentication',
+    label: 'Authentication',
+    activityPattern: /auth|logon|login/i,
+    requiredFields: ['Source', 'Account', 'Target', 'Timestamp'],
+    groupBy: ['Source', 'Source Name', 'IP', 'Account', 'Protocol', 'Target', 'Result'],
+    columns: ['IP', 'Account', 'Protocol', 'Target', 'Result', 'Time', 'freq'],
+    fieldLabels: { IP: 'Source' },
+    cards: [
+      { title: 'Top Authenticating Accounts', field: 'Account' },
+      { title: 'Protocols', field: 'Protocol' },
+      { title: 'Outcomes', field: 'Result' }
+    ]
+  },
+  ldapSearch: {
+    id: 'ldapSearch',
+    label: 'LDAP Search',
+    activityPattern: /ldap/i,
+    requiredFields: ['Source', 'Target', 'Timestamp'],
+    groupBy: ['Source', 'Source Name', 'IP', 'Account', 'Service', 'Target'],
+    columns: ['IP', 'Account', 'Service', 'Target', 'Time', 'freq'],
+    fieldLabels: { IP: 'Source', Service: 'Query', Target: 'Domain Controller' },
+    cards: [
+      { title: 'Top Searching Accounts', field: 'Account' },
+      { title: 'Top Queries', field: 'Service' }
+    ]
+  },
+  credential: {
+    id: 'credential',
+    label: 'Credential Activity',
+    activityPattern: /credential|password|ticket|kerberoast/i,
+    requiredFields: ['Source', 'Account', 'Timestamp'],
+    groupBy: ['Source', 'Source Name', 'IP', 'Account', 'Service', 'Target', 'Result'],
+    columns: ['IP', 'Account', 'Service', 'Target', 'Result', 'Time', 'freq'],
+    fieldLabels: { IP: 'Source', Service: 'Operation' },
+    cards: [
+      { title: 'Accounts with Credential Activity', field: 'Account' },
+      { title: 'Operations', field: 'Service' },
+      { title: 'Outcomes', field: 'Result' }
+    ]
+  }
+};
+
+// LDAP is checked before authentication so "LDAP bind" isn't read as a logon
+const DETECTION_ORDER: EventTypeId[] = ['serviceAccess', 'ldapSearch', 'credential', 'authentication'];
+
+/** Event type named by an Activity column value, if it is one we know. */
+export const detectEventType = (activity: string): EventTypeId | null =>
+  DETECTION_ORDER.find(id => EVENT_TYPES[id].activityPattern.test(activity)) ?? null;
+
+/** Rows imported before event types existed are service access events. */
+export const getEventType = (row: CrowdStrikeRow): EventTypeId => row.eventType ?? DEFAULT_EVENT_TYPE;
+
+export const countEventTypes = (rows: CrowdStrikeRow[]): Partial<Record<EventTypeId, number>> => {
+  const counts: Partial<Record<EventTypeId, number>> = {};
+  for (const row of rows) {
+    const type = getEventType(row);
+    counts[type] = (counts[type] || 0) + 1;
+  }
+  return counts;
+};
+
+/** Keeps `preferred` when the data has it, otherwise the most common type. */
+export const pickEventType = (counts: Partial<Record<EventTypeId, number>>, preferred?: EventTypeId): EventTypeId => {
+  if (preferred && counts[preferred]) return preferred;
+  const [mostCommon] = (Object.entries(counts) as Array<[EventTypeId, number]>).sort((a, b) => b[1] - a[1]);
+  return mostCommon?.[0] ?? preferred ?? DEFAULT_EVENT_TYPE;
+};
+
+/**
+ * Identifies a pattern across time buckets. Source Name is left out since
+ * aggregation may replace it with the IP's hostname.
+ */
+export const patternKey = (row: CrowdStrikeRow | ProcessedRow, eventType: EventTypeId): string =>
+  EVENT_TYPES[eventType].groupBy
+    .filter(field => field !== 'Source Name')
+    .map(field => row[field] ?? '')
+    .join('|');
+
+export const getFieldLabel = (eventType: EventTypeId, field: keyof ProcessedRow): string =>
+  EVENT_TYPES[eventType].fieldLabels[field] ?? field;
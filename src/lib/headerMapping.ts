@@ -0,0 +1,143 @@
+import { CrowdStrikeRow } from './types';
+import { DEFAULT_EVENT_TYPE, EVENT_TYPES, EventTypeId, detectEventType } from './eventTypes';
+
+export type MappedField =
+  | 'Source'
+  | 'Source Name'
+  | 'IP'
+  | 'Service'
+  | 'Target'
+  | 'Timestamp'
+  | 'Account'
+  | 'Protocol'
+  | 'Result'
+  | 'Activity';
+
+export const MAPPED_FIELDS: MappedField[] = [
+  'Source',
+  'Source Name',
+  'IP',
+  'Service',
+  'Target',
+  'Timestamp',
+  'Account',
+  'Protocol',
+  'Result',
+  'Activity'
+];
+
+// A file with an Activity column can hold several event types, so only the
+// fields every type shares are required up front
+const MIXED_REQUIRED_FIELDS: MappedField[] = ['Source', 'Timestamp', 'Activity'];
+
+/** Column name for each field, or null when the export has no such column. */
+export type HeaderMapping = Record<MappedField, string | null>;
+
+// Column names seen in other Falcon exports and SIEM extracts, lower-cased
+const FIELD_ALIASES: Record<MappedField, string[]> = {
+  Source: ['source', 'source host', 'source endpoint', 'src', 'origin', 'source entity'],
+  'Source Name': [
+    'source name', 'source hostname', 'hostname', 'host name', 'computer name', 'endpoint name',
+    'source endpoint host name', 'source endpoint hostname'
+  ],
+  IP: ['ip', 'source ip', 'ip address', 'src ip', 'source address', 'client ip', 'source endpoint ip address', 'source ip address'],
+  Service: ['service', 'service type', 'service name', 'operation', 'query', 'search filter'],
+  Target: [
+    'target', 'destination', 'target host', 'target name', 'target server', 'dst', 'destination host', 'domain controller',
+    'target endpoint host name', 'target endpoint hostname'
+  ],
+  Timestamp: ['timestamp', 'time', 'event time', 'date', 'datetime', 'occurred', 'event timestamp', '@timestamp', 'start time'],
+  Account: ['account', 'account name', 'user', 'username', 'user name', 'source account', 'principal'],
+  Protocol: ['protocol', 'auth protocol', 'authentication protocol'],
+  Result: ['result', 'outcome', 'status', 'auth result', 'success'],
+  Activity: ['activity', 'activity type', 'event type', 'type', 'event name']
+};
+
+const normalize = (header: string) => header.trim().toLowerCase().replace(/[_\-.]+/g, ' ').replace(/\s+/g, ' ');
+
+/** Identifies a header layout regardless of column order or case. */
+export const getHeaderSignature = (headers: string[]): string =>
+  headers.map(normalize).filter(Boolean).sort().join('|');
+
+export const suggestMapping = (headers: string[]): HeaderMapping => {
+  const mapping = {} as HeaderMapping;
+  const used = new Set<string>();
+
+  // Exact matches first so an alias never steals a column another field owns
+  MAPPED_FIELDS.forEach(field => {
+    const exact = headers.find(header => header === field);
+    mapping[field] = exact ?? null;
+    if (exact) used.add(exact);
+  });
+
+  MAPPED_FIELDS.forEach(field => {
+    if (mapping[field]) return;
+    const match = headers.find(header => !used.has(header) && FIELD_ALIASES[field].includes(normalize(header)));
+    if (match) {
+      mapping[field] = match;
+      used.add(match);
+    }
+  });
+
+  return mapping;
+};
+
+/**
+ * Event type of a single-type file, judged by its columns: service access
+ * exports have a Service column, authentication exports a Protocol column.
+ */
+export const inferEventType = (mapping: HeaderMapping): EventTypeId => {
+  if (mapping.Service) return DEFAULT_EVENT_TYPE;
+  if (mapping.Protocol) return 'authentication';
+  if (mapping.Account) return 'credential';
+  return DEFAULT_EVENT_TYPE;
+};
+
+export const getRequiredFields = (mapping: HeaderMapping): MappedField[] =>
+  mapping.Activity ? MIXED_REQUIRED_FIELDS : EVENT_TYPES[inferEventType(mapping)].requiredFields;
+
+export const getMissingFields = (mapping: HeaderMapping): MappedField[] =>
+  getRequiredFields(mapping).filter(field => !mapping[field]);
+
+/** True when nothing is missing and every mapped column keeps its field's name. */
+export const isStandardMapping = (mapping: HeaderMapping): boolean =>
+  getMissingFields(mapping).length === 0 &&
+  MAPPED_FIELDS.every(field => !mapping[field] || mapping[field] === field);
+
+// Epoch timestamps from JSON sources, in seconds (10 digits) or milliseconds (13)
+const EPOCH_PATTERN = /^\d{10}(\d{3})?$/;
+
+const normalizeTimestamp = (value: string): string => {
+  if (!EPOCH_PATTERN.test(value)) return value;
+  const epoch = Number(value);
+  return new Date(value.length === 10 ? epoch * 1000 : epoch).toISOString();
+};
+
+/**
+ * Builds a row from a parsed record. `fallbackType` applies when the record
+ * has no Activity value we recognise.
+ */
+export const applyMapping = (
+  record: Record<string, unknown>,
+  mapping: HeaderMapping,
+  fallbackType: EventTypeId = inferEventType(mapping)
+): CrowdStrikeRow => {
+  const value = (field: MappedField) => {
+    const column = mapping[field];
+    const raw = column ? record[column] : undefined;
+    return raw === undefined || raw === null ? '' : String(raw).trim();
+  };
+  const row: CrowdStrikeRow = {
+    Timestamp: normalizeTimestamp(value('Timestamp')),
+    Source: value('Source'),
+    'Source Name': value('Source Name'),
+    IP: value('IP'),
+    Service: value('Service'),
+    Target: value('Target'),
+    eventType: (mapping.Activity && detectEventType(value('Activity'))) || fallbackType
+  };
+  if (mapping.Account) row.Account = value('Account');
+  if (mapping.Protocol) row.Protocol = value('Protocol');
+  if (mapping.Result) row.Result = value('Result');
+  return row;
+};
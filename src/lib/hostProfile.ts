@@ -0,0 +1,161 @@
+import { CrowdStrikeRow } from './types';
+import { DEFAULT_EVENT_TYPE, EventTypeId, getEventType, patternKey } from './eventTypes';
+import { hostKey, isIpAddress } from './lateralMovement';
+import { Timeline, buildTimeline } from './timeline';
+import { DEFAULT_TIME_ZONE } from './time';
+
+export type HostDirection = 'inbound' | 'outbound';
+
+export interface HostRelationship {
+  // patternKey of the relationship, to join anomaly scores on
+  key: string;
+  direction: HostDirection;
+  // The other end: the source for inbound access, the target for outbound
+  peer: string;
+  // The other end's IP or name, to open its own host view
+  peerHost: string;
+  service: string;
+  account?: string;
+  events: number;
+  // ISO timestamps
+  firstSeen: string;
+  lastSeen: string;
+}
+
+export interface HostEvent extends CrowdStrikeRow {
+  direction: HostDirection;
+}
+
+export interface HostProfile {
+  host: string;
+  hostnames: string[];
+  ips: string[];
+  events: number;
+  firstSeen: string | null;
+  lastSeen: string | null;
+  inbound: HostRelationship[];
+  outbound: HostRelationship[];
+  // Events per service, both directions, busiest first
+  services: Array<{ service: string; events: number }>;
+  timeline: Timeline;
+  // Most recent first, at most MAX_EVENTS
+  recentEvents: HostEvent[];
+}
+
+export interface HostOptions {
+  // IP or hostname, in any case and with or without its domain
+  host: string;
+  // Resolved IANA zone for the timeline
+  timeZone?: string;
+  eventType?: EventTypeId;
+}
+
+const MAX_EVENTS = 500;
+
+const sourceLabel = (row: CrowdStrikeRow) => (row['Source Name'] ? `${row['Source Name']} (${row.IP})` : row.IP || row.Source);
+
+/**
+ * Everything the dataset says about one host: the names and IPs it goes by,
+ * access to it and from it, when it was active and its raw events. A host is
+ * matched by IP or short hostname, as a source and as a target.
+ */
+export const buildHostProfile = (data: CrowdStrikeRow[], options: HostOptions): HostProfile => {
+  const { host, timeZone = DEFAULT_TIME_ZONE, eventType = DEFAULT_EVENT_TYPE } = options;
+  try {
+    const rows = data.filter(row => getEventType(row) === eventType);
+    const sourceNames = (row: CrowdStrikeRow) => [row.IP, row['Source Name'], row.Source].filter(Boolean).map(hostKey);
+
+    // The hostnames an IP has gone by, or the IPs a hostname has used, match
+    // the host too. One step only, so a reused DHCP address doesn't chain
+    // unrelated machines together.
+    const given = hostKey(host);
+    const names = new Set([given]);
+    rows.forEach(row => {
+      const aliases = sourceNames(row);
+      if (aliases.includes(given)) aliases.forEach(name => names.add(name));
+    });
+    const isSource = (row: CrowdStrikeRow) => sourceNames(row).some(name => names.has(name));
+
+    const hostnames = new Set<string>();
+    const ips = new Set<string>();
+
+    const relationships = new Map<string, HostRelationship>();
+    const services = new Map<string, number>();
+    const matched: HostEvent[] = [];
+    const times: number[] = [];
+    let first = Infinity;
+    let last = -Infinity;
+
+    const track = (row: CrowdStrikeRow, direction: HostDirection, peer: string, peerHost: string, time: number) => {
+      const key = `${direction}|${patternKey(row, eventType)}`;
+      const iso = new Date(time).toISOString();
+      const existing = relationships.get(key);
+      if (!existing) {
+        relationships.set(key, {
+          key: patternKey(row, eventType),
+          direction,
+          peer,
+          peerHost,
+          service: row.Service,
+          account: row.Account,
+          events: 1,
+          firstSeen: iso,
+          lastSeen: iso
+        });
+      } else {
+        existing.events++;
+        if (iso < existing.firstSeen) existing.firstSeen = iso;
+        if (iso > existing.lastSeen) existing.lastSeen = iso;
+      }
+    };
+
+    for (const row of rows) {
+      const time = new Date(row.Timestamp).getTime();
+      if (Number.isNaN(time)) continue;
+      const outbound = isSource(row);
+      const inbound = !!row.Target && names.has(hostKey(row.Target));
+      if (!outbound && !inbound) continue;
+
+      if (outbound) {
+        if (row.IP) ips.add(row.IP);
+        if (row['Source Name']) hostnames.add(row['Source Name']);
+        track(row, 'outbound', row.Target, row.Target, time);
+      }
+      if (inbound) {
+        (isIpAddress(row.Target) ? ips : hostnames).add(row.Target);
+        track(row, 'inbound', sourceLabel(row), row.IP || row.Source, time);
+      }
+      services.set(row.Service || 'Unknown', (services.get(row.Service || 'Unknown') ?? 0) + 1);
+      matched.push({ ...row, direction: outbound ? 'outbound' : 'inbound' });
+      times.push(time);
+      if (time < first) first = time;
+      if (time > last) last = time;
+    }
+
+    const byEvents = (direction: HostDirection) => Array.from(relationships.values())
+      .filter(relationship => relationship.direction === direction)
+      .sort((a, b) => b.events - a.events);
+
+    return {
+      host,
+      hostnames: Array.from(hostnames).sort(),
+      ips: Array.from(ips).sort(),
+      events: matched.length,
+      firstSeen: matched.length ? new Date(first).toISOString() : null,
+      lastSeen: matched.length ? new Date(last).toISOString() : null,
+      inbound: byEvents('inbound'),
+      outbound: byEvents('outbound'),
+      services: Array.from(services.entries())
+        .map(([service, events]) => ({ service, events }))
+        .sort((a, b) => b.events - a.events),
+      timeline: buildTimeline(matched, { timeZone, eventType }),
+      recentEvents: matched
+        .map((_row, i) => i)
+        .sort((a, b) => times[b] - times[a])
+        .slice(0, MAX_EVENTS)
+        .map(i => matched[i])
+    };
+  } catch (err) {
+    throw new Error(`Host profile failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
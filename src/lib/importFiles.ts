@@ -0,0 +1,203 @@
+export type FileFormat = 'csv' | 'json' | 'ndjson';
+
+export const SUPPORTED_EXTENSIONS = ['.csv', '.json', '.ndjson', '.jsonl'];
+export const ARCHIVE_EXTENSIONS = ['.gz', '.zip'];
+
+type Compression = 'gzip' | 'deflate-raw' | null;
+
+/**
+ * A file to import: a file on disk, or a member of an archive. Only byte
+ * ranges are recorded, so archives are never inflated up front; the data is
+ * decompressed as it is read.
+ */
+export interface ImportFile {
+  // Display name; zip members are shown as "archive.zip/member.csv"
+  name: string;
+  file: File;
+  compression: Compression;
+  // Byte range of the (possibly compressed) data within `file`
+  start: number;
+  end: number;
+}
+
+const ZIP_END_OF_DIRECTORY = 0x06054b50;
+const ZIP64_END_OF_DIRECTORY = 0x06064b50;
+const ZIP64_LOCATOR = 0x07064b50;
+const ZIP_DIRECTORY_ENTRY = 0x02014b50;
+const ZIP_LOCAL_HEADER = 0x04034b50;
+const ZIP64_EXTRA = 0x0001;
+// End of central directory record plus the longest possible comment
+const ZIP_TAIL_BYTES = 22 + 0xffff;
+const ZIP32_MAX = 0xffffffff;
+
+const lower = (name: string) => name.toLowerCase();
+
+export const isSupportedFile = (name: string): boolean =>
+  SUPPORTED_EXTENSIONS.some(extension => lower(name).endsWith(extension));
+
+/** Files the import accepts: plain exports, gzipped exports and zip archives. */
+export const isImportableFile = (name: string): boolean =>
+  isSupportedFile(name) ||
+  lower(name).endsWith('.zip') ||
+  (lower(name).endsWith('.gz') && isSupportedFile(name.slice(0, -3)));
+
+export const getFileFormat = (name: string): FileFormat => {
+  const lowerName = lower(name);
+  if (lowerName.endsWith('.ndjson') || lowerName.endsWith('.jsonl')) return 'ndjson';
+  if (lowerName.endsWith('.json')) return 'json';
+  return 'csv';
+};
+
+export const getImportSize = (file: ImportFile): number => file.end - file.start;
+
+const readView = async (file: File, start: number, end: number): Promise<DataView> =>
+  new DataView(await file.slice(start, end).arrayBuffer());
+
+const readZipEntries = async (archive: File): Promise<ImportFile[]> => {
+  const tailStart = Math.max(0, archive.size - ZIP_TAIL_BYTES);
+  const tail = await readView(archive, tailStart, archive.size);
+
+  let eocd = -1;
+  for (let offset = tail.byteLength - 22; offset >= 0; offset--) {
+    if (tail.getUint32(offset, true) === ZIP_END_OF_DIRECTORY) {
+      eocd = offset;
+      break;
+    }
+  }
+  if (eocd < 0) throw new Error(`${archive.name} is not a valid zip archive`);
+
+  let entryCount = tail.getUint16(eocd + 10, true);
+  let directorySize = tail.getUint32(eocd + 12, true);
+  let directoryOffset = tail.getUint32(eocd + 16, true);
+
+  // Archives over 4 GB keep the real values in a ZIP64 record
+  if (directoryOffset === ZIP32_MAX && eocd >= 20 && tail.getUint32(eocd - 20, true) === ZIP64_LOCATOR) {
+    const recordOffset = Number(tail.getBigUint64(eocd - 12, true));
+    const record = await readView(archive, recordOffset, recordOffset + 56);
+    if (record.getUint32(0, true) !== ZIP64_END_OF_DIRECTORY) {
+      throw new Error(`${archive.name} has a damaged ZIP64 directory`);
+    }
+    entryCount = Number(record.getBigUint64(32, true));
+    directorySize = Number(record.getBigUint64(40, true));
+    directoryOffset = Number(record.getBigUint64(48, true));
+  }
+
+  const directory = await readView(archive, directoryOffset, directoryOffset + directorySize);
+  const decoder = new TextDecoder();
+  const entries: ImportFile[] = [];
+  let position = 0;
+
+  for (let index = 0; index < entryCount; index++) {
+    if (directory.getUint32(position, true) !== ZIP_DIRECTORY_ENTRY) {
+      throw new Error(`${archive.name} has a damaged zip directory`);
+    }
+    const flags = directory.getUint16(position + 8, true);
+    const method = directory.getUint16(position + 10, true);
+    let compressedSize = directory.getUint32(position + 20, true);
+    const nameLength = directory.getUint16(position + 28, true);
+    const extraLength = directory.getUint16(position + 30, true);
+    const commentLength = directory.getUint16(position + 32, true);
+    let localOffset = directory.getUint32(position + 42, true);
+    const name = decoder.decode(new Uint8Array(directory.buffer, position + 46, nameLength));
+
+    // ZIP64 sizes follow in a fixed order, each present only when its 32-bit field is maxed out
+    const uncompressedSize = directory.getUint32(position + 24, true);
+    let extra = position + 46 + nameLength;
+    const extraEnd = extra + extraLength;
+    while (extra + 4 <= extraEnd) {
+      const id = directory.getUint16(extra, true);
+      const size = directory.getUint16(extra + 2, true);
+      if (id === ZIP64_EXTRA) {
+        let field = extra + 4;
+        if (uncompressedSize === ZIP32_MAX) field += 8;
+        if (compressedSize === ZIP32_MAX) {
+          compressedSize = Number(directory.getBigUint64(field, true));
+          field += 8;
+        }
+        if (localOffset === ZIP32_MAX) localOffset = Number(directory.getBigUint64(field, true));
+      }
+      extra += 4 + size;
+    }
+    position = extraEnd + commentLength;
+
+    // Folders, macOS resource forks and anything we can't parse are skipped
+    if (name.endsWith('/') || name.startsWith('__MACOSX/') || !isSupportedFile(name)) continue;
+    if (flags & 0x1) throw new Error(`${archive.name}/${name} is encrypted; extract it before importing`);
+    if (method !== 0 && method !== 8) {
+      throw new Error(`${archive.name}/${name} uses an unsupported compression method (${method})`);
+    }
+
+    // Data starts after the local header, whose name and extra field lengths can differ from the directory's
+    const local = await readView(archive, localOffset, localOffset + 30);
+    if (local.getUint32(0, true) !== ZIP_LOCAL_HEADER) {
+      throw new Error(`${archive.name} has a damaged entry: ${name}`);
+    }
+    const start = localOffset + 30 + local.getUint16(26, true) + local.getUint16(28, true);
+    entries.push({
+      name: `${archive.name}/${name}`,
+      file: archive,
+      compression: method === 8 ? 'deflate-raw' : null,
+      start,
+      end: start + compressedSize
+    });
+  }
+
+  if (!entries.length) throw new Error(`No CSV, JSON or NDJSON files found in ${archive.name}`);
+  return entries;
+};
+
+/** Expands archives into their members; other files pass through as they are. */
+export const expandFiles = async (files: File[]): Promise<ImportFile[]> => {
+  const expanded: ImportFile[] = [];
+  for (const file of files) {
+    const name = lower(file.name);
+    if (name.endsWith('.zip')) {
+      expanded.push(...await readZipEntries(file));
+    } else if (name.endsWith('.gz')) {
+      expanded.push({ name: file.name.slice(0, -3), file, compression: 'gzip', start: 0, end: file.size });
+    } else {
+      expanded.push({ name: file.name, file, compression: null, start: 0, end: file.size });
+    }
+  }
+  return expanded;
+};
+
+/**
+ * Streams the file's bytes, decompressing on the fly. `onRead` is told how
+ * many stored (compressed) bytes each chunk consumed, for progress.
+ */
+export const openStream = (file: ImportFile, onRead?: (bytes: number) => void): ReadableStream<Uint8Array> => {
+  let stream = file.file.slice(file.start, file.end).stream();
+  if (onRead) {
+    stream = stream.pipeThrough(new TransformStream<Uint8Array, Uint8Array>({
+      transform(bytes, controller) {
+        onRead(bytes.byteLength);
+        controller.enqueue(bytes);
+      }
+    }));
+  }
+  return file.compression ? stream.pipeThrough(new DecompressionStream(file.compression)) : stream;
+};
+
+/**
+ * Reads up to roughly `maxBytes` of decompressed text from the start of the
+ * file. `complete` is false when the file goes on past the sample.
+ */
+export const readSample = async (file: ImportFile, maxBytes: number): Promise<{ text: string; complete: boolean }> => {
+  const reader = openStream(file).getReader();
+  const decoder = new TextDecoder();
+  let text = '';
+  let bytes = 0;
+  try {
+    while (bytes < maxBytes) {
+      const { done, value } = await reader.read();
+      if (done) return { text: text + decoder.decode(), complete: true };
+      bytes += value.byteLength;
+      text += decoder.decode(value, { stream: true });
+    }
+  } catch (err) {
+    throw new Error(`Failed to read ${file.name}: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+  await reader.cancel();
+  return { text, complete: false };
+};
@@ -0,0 +1,155 @@
+// Arrays commonly holding the events in API responses and SIEM exports
+const RECORD_KEYS = ['resources', 'events', 'data', 'results', 'records', 'items', 'hits'];
+
+type JsonObject = Record<string, unknown>;
+
+const isObject = (value: unknown): value is JsonObject =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Flattens nested objects into dot paths, e.g. `{ source: { ip } }` becomes
+ * `source.ip`. Arrays of plain values are joined; arrays of objects are
+ * indexed (`targets.0.host`).
+ */
+export const flattenRecord = (value: JsonObject, prefix = '', out: JsonObject = {}): JsonObject => {
+  Object.entries(value).forEach(([key, child]) => {
+    const path = prefix ? `${prefix}.${key}` : key;
+    if (isObject(child)) {
+      flattenRecord(child, path, out);
+    } else if (Array.isArray(child) && child.some(isObject)) {
+      child.forEach((item, index) => {
+        if (isObject(item)) flattenRecord(item, `${path}.${index}`, out);
+        else out[`${path}.${index}`] = item;
+      });
+    } else if (Array.isArray(child)) {
+      out[path] = child.join(', ');
+    } else {
+      out[path] = child;
+    }
+  });
+  return out;
+};
+
+/**
+ * Finds the event records in a parsed JSON document. `recordsPath` names the
+ * array holding them ('' for the document itself); without one the root
+ * array, a well-known key or the first array of objects is used.
+ */
+export const findRecords = (root: unknown, recordsPath?: string): { path: string; records: JsonObject[] } => {
+  const toRecords = (value: unknown) =>
+    Array.isArray(value) ? value.filter(isObject) : isObject(value) ? [value] : [];
+
+  if (recordsPath !== undefined) {
+    const value = recordsPath
+      ? recordsPath.split('.').reduce<unknown>((node, key) => (isObject(node) ? node[key] : undefined), root)
+      : root;
+    return { path: recordsPath, records: toRecords(value) };
+  }
+
+  if (Array.isArray(root) || !isObject(root)) return { path: '', records: toRecords(root) };
+
+  const key = RECORD_KEYS.find(name => Array.isArray(root[name])) ??
+    Object.keys(root).find(name => Array.isArray(root[name]) && (root[name] as unknown[]).some(isObject));
+  return key ? { path: key, records: toRecords(root[key]) } : { path: '', records: [root] };
+};
+
+/**
+ * Reads whole records out of the start of a JSON document that may be cut off
+ * mid-way, so a large file can be sampled without loading all of it. Objects
+ * are taken from the first array of objects found; `path` is its key path.
+ */
+export const sampleJsonRecords = (text: string, limit: number): { path: string; records: JsonObject[] } => {
+  // Open containers, each with the key it sits under
+  const stack: Array<{ type: '{' | '['; key: string }> = [];
+  const records: JsonObject[] = [];
+  let recordsDepth = -1;
+  let recordsPath = '';
+  let recordStart = -1;
+  let lastString = '';
+  let inString = false;
+  let stringStart = 0;
+
+  for (let index = 0; index < text.length && records.length < limit; index++) {
+    const char = text[index];
+    if (inString) {
+      if (char === '\\') index++;
+      else if (char === '"') {
+        inString = false;
+        lastString = text.slice(stringStart + 1, index);
+      }
+      continue;
+    }
+
+    switch (char) {
+      case '"':
+        inString = true;
+        stringStart = index;
+        break;
+      case '{':
+      case '[': {
+        const parent = stack[stack.length - 1];
+        const key = parent?.type === '{' ? lastString : '';
+        if (char === '{' && parent?.type === '[' && recordStart < 0 && (recordsDepth < 0 || recordsDepth === stack.length)) {
+          if (recordsDepth < 0) {
+            recordsDepth = stack.length;
+            recordsPath = stack.map(container => container.key).filter(Boolean).join('.');
+          }
+          recordStart = index;
+        }
+        stack.push({ type: char, key });
+        break;
+      }
+      case '}':
+      case ']':
+        stack.pop();
+        if (char === '}' && recordStart >= 0 && stack.length === recordsDepth) {
+          records.push(JSON.parse(text.slice(recordStart, index + 1)));
+          recordStart = -1;
+        }
+        break;
+    }
+  }
+
+  if (records.length === 0) {
+    // No array of objects: the document may be a single event
+    try {
+      return findRecords(JSON.parse(text));
+    } catch {
+      return { path: '', records: [] };
+    }
+  }
+
+  return { path: recordsPath, records };
+};
+
+/** Parses the complete lines of an NDJSON sample; a trailing partial line is ignored. */
+export const sampleNdjsonRecords = (text: string, limit: number, complete: boolean): JsonObject[] => {
+  const lines = text.split(/\r?\n/);
+  if (!complete) lines.pop();
+  return lines
+    .filter(line => line.trim())
+    .slice(0, limit)
+    .map(line => JSON.parse(line))
+    .filter(isObject);
+};
+
+/**
+ * True for .json files that hold one object per line rather than a single
+ * document, which some tools write with a .json extension.
+ */
+export const looksLikeNdjson = (text: string): boolean => {
+  const lines = text.trimStart().split(/\r?\n/, 2);
+  if (lines.length < 2 || !lines[0].startsWith('{') || !lines[1].trim().startsWith('{')) return false;
+  try {
+    return isObject(JSON.parse(lines[0]));
+  } catch {
+    return false;
+  }
+};
+
+/** Every flattened field path across the sample, in order of first appearance. */
+export const collectFieldPaths = (records: JsonObject[]): string[] => {
+  const paths = new Set<string>();
+  records.forEach(record => Object.keys(flattenRecord(record)).forEach(path => paths.add(path)));
+  return Array.from(paths);
+};
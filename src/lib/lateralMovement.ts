@@ -0,0 +1,188 @@
+import { CrowdStrikeRow, ProcessedRow } from './types';
+import { DEFAULT_EVENT_TYPE, EventTypeId, getEventType } from './eventTypes';
+
+// Services that give remote control of the target, in the order they are matched
+const PRIVILEGED_SERVICES: Array<{ pattern: RegExp; label: string }> = [
+  { pattern: /cifs|smb|admin\$|c\$/i, label: 'Admin share' },
+  { pattern: /termsrv|rdp|remote desktop/i, label: 'RDP' },
+  { pattern: /wsman|winrm|powershell/i, label: 'Remote management' },
+  { pattern: /rpcss|wmi|dcom/i, label: 'WMI / DCOM' },
+  { pattern: /^host\b|svcctl|psexec/i, label: 'Service control' },
+  { pattern: /ssh/i, label: 'SSH' }
+];
+
+export const PATH_WINDOWS = [
+  { value: 60 * 60 * 1000, label: '1 hour' },
+  { value: 6 * 60 * 60 * 1000, label: '6 hours' },
+  { value: 24 * 60 * 60 * 1000, label: '24 hours' },
+  { value: 7 * 24 * 60 * 60 * 1000, label: '7 days' }
+];
+
+export const DEFAULT_PATH_WINDOW = PATH_WINDOWS[2].value;
+
+export interface PathOptions {
+  // Host key of the starting host, see hostKey
+  start: string;
+  // Most time allowed between arriving on a host and moving on from it
+  windowMs: number;
+  maxHops?: number;
+  eventType?: EventTypeId;
+}
+
+export interface PathHop {
+  from: string;
+  to: string;
+  service: string;
+  // ISO timestamp of the access
+  time: string;
+  // Kind of privileged access, when the service gives one
+  privileged: string | null;
+}
+
+export interface MovementPath {
+  hops: PathHop[];
+  lastTime: string;
+  privilegedHops: number;
+}
+
+const DEFAULT_MAX_HOPS = 5;
+// Bounds on the search so a dense graph can't stall the worker
+const MAX_PATHS = 200;
+const MAX_STEPS = 200000;
+
+const IP_PATTERN = /^\d{1,3}(\.\d{1,3}){3}$/;
+
+export const isIpAddress = (name: string): boolean => IP_PATTERN.test(name.trim());
+
+/** Lower-case short hostname, so "HOST1.corp.example" and "host1" meet. */
+export const hostKey = (name: string): string => {
+  const lower = name.trim().toLowerCase();
+  return isIpAddress(lower) ? lower : lower.split('.')[0];
+};
+
+/** The name a row's source host goes by. */
+export const sourceHost = (row: CrowdStrikeRow | ProcessedRow): string => row['Source Name'] || row.Source || row.IP;
+
+export const getPrivilegedService = (service: string): string | null =>
+  PRIVILEGED_SERVICES.find(({ pattern }) => pattern.test(service))?.label ?? null;
+
+interface Edge {
+  to: string;
+  service: string;
+  // Sorted ascending
+  times: number[];
+}
+
+// First time in `times` at or after `from`, by binary search
+const firstAtOrAfter = (times: number[], from: number): number | undefined => {
+  let low = 0;
+  let high = times.length;
+  while (low < high) {
+    const middle = (low + high) >> 1;
+    if (times[middle] < from) low = middle + 1;
+    else high = middle;
+  }
+  return times[low];
+};
+
+/**
+ * Finds chains of access that leave the start host and hop on: a target that,
+ * within the window, shows up as the source of further access. Only chains of
+ * two or more hops that can't be extended are returned, each node sequence
+ * once with its most recent timing. Hosts are never revisited in a chain.
+ */
+export const findMovementPaths = (data: CrowdStrikeRow[], options: PathOptions): MovementPath[] => {
+  const { start, windowMs, maxHops = DEFAULT_MAX_HOPS, eventType = DEFAULT_EVENT_TYPE } = options;
+  try {
+    // Sources are known by hostname, name and IP; targets by whatever the
+    // export recorded, so every alias points at the same host
+    const aliases = new Map<string, string>();
+    const labels = new Map<string, string>();
+    for (const row of data) {
+      if (getEventType(row) !== eventType) continue;
+      const host = hostKey(sourceHost(row));
+      if (!labels.has(host)) labels.set(host, sourceHost(row));
+      [row.Source, row['Source Name'], row.IP].forEach(name => {
+        if (name && !aliases.has(hostKey(name))) aliases.set(hostKey(name), host);
+      });
+    }
+    const resolve = (name: string) => aliases.get(hostKey(name)) ?? hostKey(name);
+
+    const edges = new Map<string, Map<string, Edge>>();
+    for (const row of data) {
+      if (getEventType(row) !== eventType || !row.Target) continue;
+      const time = new Date(row.Timestamp).getTime();
+      if (Number.isNaN(time)) continue;
+      const from = hostKey(sourceHost(row));
+      const to = resolve(row.Target);
+      if (from === to) continue;
+      if (!labels.has(to)) labels.set(to, row.Target);
+      let outgoing = edges.get(from);
+      if (!outgoing) {
+        outgoing = new Map();
+        edges.set(from, outgoing);
+      }
+      const key = `${to}|${row.Service}`;
+      const edge = outgoing.get(key);
+      if (edge) edge.times.push(time);
+      else outgoing.set(key, { to, service: row.Service, times: [time] });
+    }
+    edges.forEach(outgoing => outgoing.forEach(edge => edge.times.sort((a, b) => a - b)));
+
+    const found = new Map<string, MovementPath>();
+    let steps = 0;
+
+    const record = (chain: Array<{ edge: Edge; from: string; time: number }>) => {
+      const key = chain.map(({ from, edge }) => `${from}>${edge.to}|${edge.service}`).join(',');
+      const lastTime = chain[chain.length - 1].time;
+      const existing = found.get(key);
+      if (existing && existing.lastTime >= new Date(lastTime).toISOString()) return;
+      const hops = chain.map(({ edge, from, time }) => ({
+        from: labels.get(from) ?? from,
+        to: labels.get(edge.to) ?? edge.to,
+        service: edge.service,
+        time: new Date(time).toISOString(),
+        privileged: getPrivilegedService(edge.service)
+      }));
+      found.set(key, {
+        hops,
+        lastTime: hops[hops.length - 1].time,
+        privilegedHops: hops.filter(hop => hop.privileged).length
+      });
+    };
+
+    const extend = (chain: Array<{ edge: Edge; from: string; time: number }>, visited: Set<string>) => {
+      if (++steps > MAX_STEPS || found.size >= MAX_PATHS) return;
+      const { edge: last, time: arrived } = chain[chain.length - 1];
+      let extended = false;
+      if (chain.length < maxHops) {
+        edges.get(last.to)?.forEach(next => {
+          if (visited.has(next.to)) return;
+          // The earliest onward access leaves the most room for later hops
+          const time = firstAtOrAfter(next.times, arrived);
+          if (time === undefined || time - arrived > windowMs) return;
+          extended = true;
+          visited.add(next.to);
+          extend([...chain, { edge: next, from: last.to, time }], visited);
+          visited.delete(next.to);
+        });
+      }
+      if (!extended && chain.length >= 2) record(chain);
+    };
+
+    edges.get(start)?.forEach(edge => {
+      const onward = Array.from(edges.get(edge.to)?.values() ?? []);
+      edge.times.forEach((time, i) => {
+        // A repeat of the first hop that still comes before any onward access
+        // finds the same chains, more recently
+        const repeat = edge.times[i + 1];
+        if (repeat !== undefined && onward.every(next => (firstAtOrAfter(next.times, time) ?? Infinity) >= repeat)) return;
+        extend([{ edge, from: start, time }], new Set([start, edge.to]));
+      });
+    });
+
+    return Array.from(found.values());
+  } catch (err) {
+    throw new Error(`Path discovery failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,355 @@
+import { ProcessedRow } from './types';
+import { hostKey, sourceHost } from './lateralMovement';
+
+export type GraphRole = 'source' | 'target' | 'both';
+
+export const GRAPH_ROLE_LABELS: Record<GraphRole, string> = {
+  source: 'Source only',
+  target: 'Target only',
+  both: 'Source and target'
+};
+
+export interface GraphNode {
+  id: string;
+  label: string;
+  role: GraphRole;
+  // Source IP, for filtering the table on the host; null for target-only hosts
+  ip: string | null;
+  // Events on the node's edges, both directions
+  weight: number;
+  degree: number;
+  // Index into NetworkGraph.clusters
+  cluster: number;
+  x: number;
+  y: number;
+  vx: number;
+  vy: number;
+}
+
+export interface GraphEdge {
+  source: GraphNode;
+  target: GraphNode;
+  // Summed freq of the relationships between the two hosts
+  weight: number;
+  services: string[];
+}
+
+export interface NetworkGraph {
+  nodes: GraphNode[];
+  edges: GraphEdge[];
+  // Node count per cluster, largest first
+  clusters: number[];
+  maxEdgeWeight: number;
+}
+
+const LABEL_ROUNDS = 20;
+
+/**
+ * Groups hosts into communities by label propagation: each host repeatedly
+ * takes the label with the most edge weight among its neighbours until no
+ * label changes. Clusters are numbered largest first.
+ */
+const findClusters = (nodes: GraphNode[], edges: GraphEdge[]): number[] => {
+  const index = new Map(nodes.map((node, i) => [node, i]));
+  const neighbours: Array<Array<{ node: number; weight: number }>> = nodes.map(() => []);
+  edges.forEach(edge => {
+    const source = index.get(edge.source)!;
+    const target = index.get(edge.target)!;
+    neighbours[source].push({ node: target, weight: edge.weight });
+    neighbours[target].push({ node: source, weight: edge.weight });
+  });
+
+  const labels = nodes.map((_node, i) => i);
+  for (let round = 0; round < LABEL_ROUNDS; round++) {
+    let changed = false;
+    nodes.forEach((_node, i) => {
+      if (!neighbours[i].length) return;
+      const totals = new Map<number, number>();
+      neighbours[i].forEach(({ node, weight }) => totals.set(labels[node], (totals.get(labels[node]) ?? 0) + weight));
+      // Ties go to the lowest label so the result doesn't depend on map order
+      let best = labels[i];
+      let bestWeight = totals.get(best) ?? 0;
+      totals.forEach((weight, label) => {
+        if (weight > bestWeight || (weight === bestWeight && label < best)) {
+          best = label;
+          bestWeight = weight;
+        }
+      });
+      if (best !== labels[i]) {
+        labels[i] = best;
+        changed = true;
+      }
+    });
+    if (!changed) break;
+  }
+
+  const sizes = new Map<number, number>();
+  labels.forEach(label => sizes.set(label, (sizes.get(label) ?? 0) + 1));
+  const order = Array.from(sizes.keys()).sort((a, b) => sizes.get(b)! - sizes.get(a)! || a - b);
+  const renumber = new Map(order.map((label, i) => [label, i]));
+  nodes.forEach((node, i) => {
+    node.cluster = renumber.get(labels[i])!;
+  });
+  return order.map(label => sizes.get(label)!);
+};
+
+/**
+ * Builds the host graph of the results: a node per host, known by any of its
+ * source names or IP, and an edge per source-target pair weighted by freq.
+ * Nodes start on a spiral, grouped by cluster, for the layout to relax.
+ */
+export const buildNetworkGraph = (data: ProcessedRow[]): NetworkGraph => {
+  const aliases = new Map<string, string>();
+  data.forEach(row => {
+    const host = hostKey(sourceHost(row));
+    [row.Source, row['Source Name'], row.IP].forEach(name => {
+      if (name && !aliases.has(hostKey(name))) aliases.set(hostKey(name), host);
+    });
+  });
+
+  const nodes = new Map<string, GraphNode>();
+  const getNode = (id: string, label: string) => {
+    let node = nodes.get(id);
+    if (!node) {
+      node = { id, label, role: 'source', ip: null, weight: 0, degree: 0, cluster: 0, x: 0, y: 0, vx: 0, vy: 0 };
+      nodes.set(id, node);
+    }
+    return node;
+  };
+
+  const edges = new Map<string, GraphEdge & { serviceSet: Set<string> }>();
+  data.forEach(row => {
+    const source = getNode(hostKey(sourceHost(row)), sourceHost(row));
+    source.ip = source.ip || row.IP || null;
+    source.role = source.role === 'target' ? 'both' : source.role;
+    source.weight += row.freq;
+    if (!row.Target) return;
+
+    const targetId = aliases.get(hostKey(row.Target)) ?? hostKey(row.Target);
+    if (targetId === source.id) return;
+    const isNew = !nodes.has(targetId);
+    const target = getNode(targetId, row.Target);
+    if (isNew) target.role = 'target';
+    else if (target.role === 'source') target.role = 'both';
+    target.weight += row.freq;
+
+    const key = `${source.id}>${target.id}`;
+    let edge = edges.get(key);
+    if (!edge) {
+      edge = { source, target, weight: 0, services: [], serviceSet: new Set() };
+      edges.set(key, edge);
+      source.degree++;
+      target.degree++;
+    }
+    edge.weight += row.freq;
+    if (row.Service) edge.serviceSet.add(row.Service);
+  });
+
+  const nodeList = Array.from(nodes.values());
+  const edgeList: GraphEdge[] = Array.from(edges.values()).map(({ serviceSet, ...edge }) => ({
+    ...edge,
+    services: Array.from(serviceSet).sort()
+  }));
+  const clusters = findClusters(nodeList, edgeList);
+
+  // Golden-angle spiral in cluster order, so each cluster starts together
+  const ordered = [...nodeList].sort((a, b) => a.cluster - b.cluster || b.weight - a.weight);
+  ordered.forEach((node, i) => {
+    const radius = 10 * Math.sqrt(i + 0.5);
+    const angle = i * Math.PI * (3 - Math.sqrt(5));
+    node.x = radius * Math.cos(angle);
+    node.y = radius * Math.sin(angle);
+  });
+
+  return {
+    nodes: nodeList,
+    edges: edgeList,
+    clusters,
+    maxEdgeWeight: edgeList.reduce((max, edge) => Math.max(max, edge.weight), 0)
+  };
+};
+
+// Force layout tuning, after the usual d3-force defaults
+const CHARGE = -40;
+const THETA_SQUARED = 0.81;
+const LINK_DISTANCE = 40;
+const CENTER_STRENGTH = 0.02;
+const CLUSTER_STRENGTH = 0.2;
+const VELOCITY_KEEP = 0.6;
+const ALPHA_DECAY = 0.0228;
+const ALPHA_MIN = 0.001;
+// Bodies closer than this share a quadtree leaf instead of splitting forever
+const MIN_CELL = 1e-3;
+
+interface Cell {
+  x: number;
+  y: number;
+  size: number;
+  mass: number;
+  // Centre of mass
+  mx: number;
+  my: number;
+  bodies: GraphNode[];
+  children: Cell[] | null;
+}
+
+const createCell = (x: number, y: number, size: number): Cell =>
+  ({ x, y, size, mass: 0, mx: 0, my: 0, bodies: [], children: null });
+
+const insert = (cell: Cell, node: GraphNode) => {
+  cell.mx = (cell.mx * cell.mass + node.x) / (cell.mass + 1);
+  cell.my = (cell.my * cell.mass + node.y) / (cell.mass + 1);
+  cell.mass++;
+  if (!cell.children) {
+    if (!cell.bodies.length || cell.size < MIN_CELL) {
+      cell.bodies.push(node);
+      return;
+    }
+    const half = cell.size / 2;
+    cell.children = [
+      createCell(cell.x, cell.y, half),
+      createCell(cell.x + half, cell.y, half),
+      createCell(cell.x, cell.y + half, half),
+      createCell(cell.x + half, cell.y + half, half)
+    ];
+    const bodies = cell.bodies;
+    cell.bodies = [];
+    bodies.forEach(body => insertChild(cell, body));
+  }
+  insertChild(cell, node);
+};
+
+const insertChild = (cell: Cell, node: GraphNode) => {
+  const half = cell.size / 2;
+  const quadrant = (node.x >= cell.x + half ? 1 : 0) + (node.y >= cell.y + half ? 2 : 0);
+  insert(cell.children![quadrant], node);
+};
+
+const buildQuadtree = (nodes: GraphNode[]): Cell => {
+  let x0 = Infinity;
+  let y0 = Infinity;
+  let x1 = -Infinity;
+  let y1 = -Infinity;
+  nodes.forEach(node => {
+    x0 = Math.min(x0, node.x);
+    y0 = Math.min(y0, node.y);
+    x1 = Math.max(x1, node.x);
+    y1 = Math.max(y1, node.y);
+  });
+  const root = createCell(x0, y0, Math.max(x1 - x0, y1 - y0, 1) * 1.0001);
+  nodes.forEach(node => insert(root, node));
+  return root;
+};
+
+// Pushes `node` away from the cell's mass, treating far cells as one body
+const repel = (cell: Cell, node: GraphNode, alpha: number) => {
+  if (!cell.mass) return;
+  let dx = cell.mx - node.x;
+  let dy = cell.my - node.y;
+  let distance = dx * dx + dy * dy;
+  if (cell.children && (cell.size * cell.size) / distance >= THETA_SQUARED) {
+    cell.children.forEach(child => repel(child, node, alpha));
+    return;
+  }
+  if (!cell.children) {
+    cell.bodies.forEach(body => {
+      if (body === node) return;
+      let bx = body.x - node.x;
+      let by = body.y - node.y;
+      if (!bx && !by) {
+        // Coincident bodies get a nudge in a direction picked by their ids
+        bx = body.id < node.id ? 0.1 : -0.1;
+        by = 0.05;
+      }
+      const d = Math.max(bx * bx + by * by, 1);
+      const force = (CHARGE * alpha) / d;
+      node.vx += bx * force;
+      node.vy += by * force;
+    });
+    return;
+  }
+  if (distance < 1) {
+    dx = dx || 0.1;
+    dy = dy || 0.1;
+    distance = 1;
+  }
+  const force = (CHARGE * alpha * cell.mass) / distance;
+  node.vx += dx * force;
+  node.vy += dy * force;
+};
+
+export interface ForceLayout {
+  // Advances the layout one step; false once it has settled
+  tick: () => boolean;
+  // Pulls clusters together, and restarts the layout to show it
+  setClustered: (clustered: boolean) => void;
+}
+
+/**
+ * A force-directed layout over the graph's node positions: Barnes-Hut
+ * repulsion between all hosts, springs along edges that are stiffer for
+ * heavier edges, a weak pull to the centre and, optionally, to each cluster's
+ * centre. Positions are updated in place.
+ */
+export const createForceLayout = (graph: NetworkGraph): ForceLayout => {
+  const { nodes, edges, maxEdgeWeight } = graph;
+  const logMax = Math.log1p(maxEdgeWeight) || 1;
+  const links = edges.map(edge => ({
+    edge,
+    strength: (0.5 + 0.5 * Math.log1p(edge.weight) / logMax) / Math.min(edge.source.degree, edge.target.degree),
+    bias: edge.source.degree / (edge.source.degree + edge.target.degree)
+  }));
+  let alpha = 1;
+  let clustered = false;
+
+  const tick = () => {
+    if (alpha < ALPHA_MIN || !nodes.length) return false;
+    alpha += -alpha * ALPHA_DECAY;
+
+    const tree = buildQuadtree(nodes);
+    nodes.forEach(node => repel(tree, node, alpha));
+
+    links.forEach(({ edge: { source, target }, strength, bias }) => {
+      const dx = target.x + target.vx - source.x - source.vx || 0.1;
+      const dy = target.y + target.vy - source.y - source.vy || 0.1;
+      const length = Math.sqrt(dx * dx + dy * dy);
+      const pull = ((length - LINK_DISTANCE) / length) * alpha * strength;
+      target.vx -= dx * pull * bias;
+      target.vy -= dy * pull * bias;
+      source.vx += dx * pull * (1 - bias);
+      source.vy += dy * pull * (1 - bias);
+    });
+
+    if (clustered) {
+      const centres = graph.clusters.map(() => ({ x: 0, y: 0, count: 0 }));
+      nodes.forEach(node => {
+        const centre = centres[node.cluster];
+        centre.x += node.x;
+        centre.y += node.y;
+        centre.count++;
+      });
+      nodes.forEach(node => {
+        const centre = centres[node.cluster];
+        node.vx += (centre.x / centre.count - node.x) * CLUSTER_STRENGTH * alpha;
+        node.vy += (centre.y / centre.count - node.y) * CLUSTER_STRENGTH * alpha;
+      });
+    }
+
+    nodes.forEach(node => {
+      node.vx -= node.x * CENTER_STRENGTH * alpha;
+      node.vy -= node.y * CENTER_STRENGTH * alpha;
+      node.vx *= VELOCITY_KEEP;
+      node.vy *= VELOCITY_KEEP;
+      node.x += node.vx;
+      node.y += node.vy;
+    });
+    return true;
+  };
+
+  const setClustered = (value: boolean) => {
+    clustered = value;
+    alpha = Math.max(alpha, 0.5);
+  };
+
+  return { tick, setClustered };
+};
@@ -0,0 +1,123 @@
+import { CrowdStrikeRow } from './types';
+import { DEFAULT_EVENT_TYPE, EventTypeId, getEventType, patternKey } from './eventTypes';
+import { formatDuration } from './time';
+
+export type CadenceKind = 'scheduled' | 'suspicious';
+
+// Display and default sort order
+export const CADENCE_KINDS: CadenceKind[] = ['suspicious', 'scheduled'];
+
+export const CADENCE_LABELS: Record<CadenceKind, string> = {
+  scheduled: 'Likely scheduled task',
+  suspicious: 'Suspicious cadence'
+};
+
+// Table filter: one kind, any regular cadence ('periodic'), or no filter ('')
+export type CadenceFilter = '' | 'periodic' | CadenceKind;
+
+export interface Periodicity {
+  key: string;
+  cadence: CadenceKind;
+  periodMs: number;
+  // Median distance of the arrivals from the cadence
+  jitterMs: number;
+  events: number;
+  // Share of intervals that land on a whole number of periods
+  regularity: number;
+  reason: string;
+}
+
+export interface PeriodicityOptions {
+  eventType?: EventTypeId;
+}
+
+// Enough arrivals that regular spacing is unlikely to be chance
+const MIN_ARRIVALS = 6;
+// Events closer together than this are one burst, one arrival
+const MIN_PERIOD_MS = 10 * 1000;
+// An interval within this share of the period of a whole number of periods
+// is on cadence; up to MAX_MISSED_BEATS - 1 skipped beats still count
+const BEAT_TOLERANCE = 0.15;
+const MAX_MISSED_BEATS = 4;
+const MIN_REGULARITY = 0.8;
+// Schedulers fire on a round interval with next to no jitter; implants often
+// add jitter or pick odd intervals to avoid exactly that look
+const SCHEDULED_JITTER = 0.02;
+const ROUND_TOLERANCE = 0.02;
+const MINUTE_MS = 60 * 1000;
+const HOUR_MS = 60 * MINUTE_MS;
+const ROUND_PERIODS_MS = [
+  ...[1, 2, 5, 10, 15, 20, 30].map(minutes => minutes * MINUTE_MS),
+  ...[1, 2, 3, 4, 6, 8, 12, 24, 24 * 7].map(hours => hours * HOUR_MS)
+];
+
+const median = (values: number[]) => {
+  const sorted = [...values].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+};
+
+// Distance of an interval from the nearest whole number of periods
+const offBeat = (interval: number, period: number) => Math.abs(interval - Math.max(1, Math.round(interval / period)) * period);
+
+const analyze = (key: string, times: number[]): Periodicity | null => {
+  times.sort((a, b) => a - b);
+  const arrivals: number[] = [];
+  for (const time of times) {
+    if (!arrivals.length || time - arrivals[arrivals.length - 1] >= MIN_PERIOD_MS) arrivals.push(time);
+  }
+  if (arrivals.length < MIN_ARRIVALS) return null;
+
+  const intervals = arrivals.slice(1).map((time, i) => time - arrivals[i]);
+  const period = median(intervals);
+  const onCadence = intervals.filter(interval =>
+    Math.round(interval / period) <= MAX_MISSED_BEATS && offBeat(interval, period) <= period * BEAT_TOLERANCE);
+  const regularity = onCadence.length / intervals.length;
+  if (regularity < MIN_REGULARITY) return null;
+
+  const jitter = median(onCadence.map(interval => offBeat(interval, period)));
+  const round = ROUND_PERIODS_MS.find(value => Math.abs(period - value) <= value * ROUND_TOLERANCE);
+  const cadence: CadenceKind = round && jitter <= period * SCHEDULED_JITTER ? 'scheduled' : 'suspicious';
+  const jitterPct = Math.round((jitter / period) * 100);
+
+  let reason: string;
+  if (cadence === 'scheduled') {
+    reason = `Every ${formatDuration(round!)} with a typical drift of ${formatDuration(jitter)}, like a scheduled task`;
+  } else if (round) {
+    reason = `Every ${formatDuration(period)} with ±${jitterPct}% jitter around a round interval, as beacons add to blend in`;
+  } else {
+    reason = `Every ${formatDuration(period)} ±${jitterPct}%, not an interval a scheduler would use`;
+  }
+
+  return { key, cadence, periodMs: period, jitterMs: jitter, events: times.length, regularity, reason };
+};
+
+/**
+ * Finds relationships whose events arrive at evenly spaced intervals, and
+ * tells likely scheduled tasks (round intervals, next to no jitter) from
+ * cadences worth a closer look.
+ */
+export const detectPeriodicity = (data: CrowdStrikeRow[], options: PeriodicityOptions = {}): Periodicity[] => {
+  const { eventType = DEFAULT_EVENT_TYPE } = options;
+  try {
+    const arrivals = new Map<string, number[]>();
+    for (const row of data) {
+      if (getEventType(row) !== eventType) continue;
+      const time = new Date(row.Timestamp).getTime();
+      if (Number.isNaN(time)) continue;
+      const key = patternKey(row, eventType);
+      const times = arrivals.get(key);
+      if (times) times.push(time);
+      else arrivals.set(key, [time]);
+    }
+
+    const found: Periodicity[] = [];
+    arrivals.forEach((times, key) => {
+      const result = analyze(key, times);
+      if (result) found.push(result);
+    });
+    return found;
+  } catch (err) {
+    throw new Error(`Periodicity detection failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,219 @@
+import _ from 'lodash';
+import { CrowdStrikeRow, DateConstraints, DateRange, ProcessedRow, RawEvent } from './types';
+import { DEFAULT_EVENT_TYPE, EVENT_TYPES, EventField, EventTypeId, getEventType } from './eventTypes';
+import { BusinessCalendar, OffHoursReason, createOffHoursCheck } from './businessCalendar';
+import { TimeSlice, matchesTimeSlice } from './activityHeatmap';
+import {
+  Bucket,
+  BucketMode,
+  DEFAULT_BUCKET_MODE,
+  DEFAULT_TIME_ZONE,
+  formatBucketLabel,
+  formatZonedDate,
+  getBucket,
+  getRangeBounds,
+  getZonedParts
+} from './time';
+
+export interface ProcessOptions {
+  dateRange?: DateRange;
+  bucketMode?: BucketMode;
+  // Resolved IANA zone used for bucketing, labels and date-range bounds
+  timeZone?: string;
+  // Only rows of this activity type are aggregated
+  eventType?: EventTypeId;
+  // When given, each row counts its events outside business hours
+  calendar?: BusinessCalendar;
+  // Only events on this weekday and/or hour, in the time zone
+  timeSlice?: TimeSlice | null;
+}
+
+export interface EventOptions extends ProcessOptions {
+  // Only the events aggregated into these rows, which must come from
+  // processData with the same options; all matching events when omitted
+  groups?: ProcessedRow[];
+  // Most events returned, most recent first
+  limit?: number;
+}
+
+export interface EventList {
+  events: RawEvent[];
+  // Matching events before the limit
+  total: number;
+}
+
+// Raw events handed back at once; the table virtualizes, but each one is
+// copied out of the worker
+const MAX_EVENTS = 100000;
+
+interface GroupAccumulator {
+  row: CrowdStrikeRow;
+  bucketStart: number;
+  bucketEnd: number;
+  firstEvent: number;
+  freq: number;
+  offHours: Partial<Record<OffHoursReason, number>>;
+}
+
+// Min/max dates are collected in a single loop; spreading millions of
+// timestamps into Math.min overflows the call stack.
+export const getDateConstraints = (data: CrowdStrikeRow[], timeZone = DEFAULT_TIME_ZONE): DateConstraints => {
+  let min = Infinity;
+  let max = -Infinity;
+  for (const row of data) {
+    const time = new Date(row.Timestamp).getTime();
+    if (Number.isNaN(time)) continue;
+    if (time < min) min = time;
+    if (time > max) max = time;
+  }
+  if (min === Infinity) {
+    return { minDate: '', maxDate: '' };
+  }
+  return {
+    minDate: formatZonedDate(getZonedParts(min, timeZone)),
+    maxDate: formatZonedDate(getZonedParts(max, timeZone))
+  };
+};
+
+// Total off-hours events and the reason most of them share
+const offHoursFields = (counts: Partial<Record<OffHoursReason, number>>): Pick<ProcessedRow, 'offHours' | 'offHoursReason'> => {
+  const entries = Object.entries(counts) as Array<[OffHoursReason, number]>;
+  const [main] = entries.sort((a, b) => b[1] - a[1]);
+  return {
+    offHours: entries.reduce((total, [, count]) => total + count, 0),
+    offHoursReason: main?.[0]
+  };
+};
+
+// The events processData aggregates, each with the key of the row it lands in
+const forEachEvent = (
+  data: CrowdStrikeRow[],
+  options: ProcessOptions,
+  visit: (row: CrowdStrikeRow, time: number, key: string, bucket: Bucket, sourceName: string) => void
+) => {
+  const {
+    dateRange,
+    bucketMode = DEFAULT_BUCKET_MODE,
+    timeZone = DEFAULT_TIME_ZONE,
+    eventType = DEFAULT_EVENT_TYPE,
+    timeSlice
+  } = options;
+
+  // First, create a map of IPs to their hostnames
+  const ipToHostnameMap = new Map<string, string>();
+  data.forEach(row => {
+    if (row.IP && row['Source Name'] && (!ipToHostnameMap.has(row.IP) || !ipToHostnameMap.get(row.IP))) {
+      ipToHostnameMap.set(row.IP, row['Source Name']);
+    }
+  });
+
+  // Date range days are calendar days in the display time zone
+  const [rangeStart, rangeEnd] = getRangeBounds(dateRange, timeZone);
+
+  for (const row of data) {
+    if (getEventType(row) !== eventType) continue;
+    const time = new Date(row.Timestamp).getTime();
+    if (Number.isNaN(time) || time < rangeStart || time >= rangeEnd) continue;
+    if (timeSlice && !matchesTimeSlice(getZonedParts(time, timeZone), timeSlice)) continue;
+
+    const sourceName = ipToHostnameMap.get(row.IP) || row['Source Name']; // Use mapped hostname if available
+    const bucket = getBucket(time, bucketMode, timeZone);
+    visit(row, time, groupKey({ ...row, 'Source Name': sourceName }, eventType, bucket.key), bucket, sourceName);
+  }
+};
+
+const groupKey = (row: Pick<CrowdStrikeRow, EventField>, eventType: EventTypeId, bucketKey: string) =>
+  `${EVENT_TYPES[eventType].groupBy.map(field => row[field] ?? '').join('|')}|${bucketKey}`;
+
+export const processData = (data: CrowdStrikeRow[], options: ProcessOptions = {}): ProcessedRow[] => {
+  const {
+    bucketMode = DEFAULT_BUCKET_MODE,
+    timeZone = DEFAULT_TIME_ZONE,
+    eventType = DEFAULT_EVENT_TYPE,
+    calendar
+  } = options;
+  const { groupBy } = EVENT_TYPES[eventType];
+  const getOffHoursReason = calendar ? createOffHoursCheck(calendar) : null;
+  try {
+    // Group by relevant columns and time bucket in a single pass
+    const groups = new Map<string, GroupAccumulator>();
+    forEachEvent(data, options, (row, time, key, bucket, sourceName) => {
+      const offHoursReason = getOffHoursReason?.(time);
+      let group = groups.get(key);
+      if (!group) {
+        group = {
+          row: { ...row, 'Source Name': sourceName },
+          bucketStart: bucket.start,
+          bucketEnd: bucket.end,
+          firstEvent: time,
+          freq: 0,
+          offHours: {}
+        };
+        groups.set(key, group);
+      }
+      if (offHoursReason) group.offHours[offHoursReason] = (group.offHours[offHoursReason] || 0) + 1;
+
+      group.freq++;
+      if (time < group.firstEvent) group.firstEvent = time;
+      // Recurring buckets span every occurrence of the minute
+      if (bucket.start < group.bucketStart) group.bucketStart = bucket.start;
+      if (bucket.end > group.bucketEnd) group.bucketEnd = bucket.end;
+    });
+
+    // Create summary with counts and time info
+    const frequencyData: ProcessedRow[] = Array.from(groups.values()).map(group => ({
+      Source: group.row.Source,
+      'Source Name': group.row['Source Name'],
+      IP: group.row.IP,
+      Service: group.row.Service,
+      Target: group.row.Target,
+      ...(groupBy.includes('Account') && { Account: group.row.Account ?? '' }),
+      ...(groupBy.includes('Protocol') && { Protocol: group.row.Protocol ?? '' }),
+      ...(groupBy.includes('Result') && { Result: group.row.Result ?? '' }),
+      eventType,
+      Time: formatBucketLabel(bucketMode, group.bucketStart, group.firstEvent, timeZone),
+      bucketStart: new Date(group.bucketStart).toISOString(),
+      bucketEnd: new Date(group.bucketEnd).toISOString(),
+      freq: group.freq,
+      ...(calendar && offHoursFields(group.offHours))
+    }));
+
+    return _.orderBy(frequencyData, ['Source', 'freq'], ['asc', 'desc']);
+  } catch (err) {
+    throw new Error(`Data processing failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * The individual events behind aggregated rows, most recent first. Takes the
+ * options the rows were aggregated with.
+ */
+export const listEvents = (data: CrowdStrikeRow[], options: EventOptions = {}): EventList => {
+  const {
+    bucketMode = DEFAULT_BUCKET_MODE,
+    timeZone = DEFAULT_TIME_ZONE,
+    eventType = DEFAULT_EVENT_TYPE,
+    calendar,
+    groups,
+    limit = MAX_EVENTS
+  } = options;
+  const getOffHoursReason = calendar ? createOffHoursCheck(calendar) : null;
+  try {
+    // A row's bucket start lies in its own bucket, recurring or not
+    const keys = groups && new Set(groups.map(row =>
+      groupKey(row, eventType, getBucket(new Date(row.bucketStart).getTime(), bucketMode, timeZone).key)
+    ));
+    const events: RawEvent[] = [];
+    forEachEvent(data, options, (row, time, key) => {
+      if (keys && !keys.has(key)) return;
+      const offHoursReason = getOffHoursReason?.(time);
+      events.push({ ...row, time, ...(offHoursReason && { offHoursReason }) });
+    });
+    return {
+      events: events.sort((a, b) => b.time - a.time).slice(0, limit),
+      total: events.length
+    };
+  } catch (err) {
+    throw new Error(`Event listing failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,106 @@
+import { CrowdStrikeRow } from './types';
+
+// History of each Source/IP/Service/Target relationship across every import,
+// kept apart from the workspaces so it outlives them.
+
+export interface RelationshipRecord {
+  key: string;
+  Source: string;
+  IP: string;
+  Service: string;
+  Target: string;
+  firstSeen: string;
+  lastSeen: string;
+  // Events per UTC day. Re-importing overlapping exports keeps the larger
+  // count for a day instead of adding the two together
+  days: Record<string, number>;
+  // When the imports that first and last contained the relationship ran
+  firstImported: string;
+  lastImported: string;
+  // Workspace created by the import that first contained it; missing on
+  // records from before workspaces were tracked
+  firstWorkspaceId?: string;
+}
+
+export type RelationshipSummary = Omit<RelationshipRecord, 'firstImported' | 'lastImported' | 'firstWorkspaceId'>;
+
+/** The history fields shown alongside aggregated rows. */
+export interface RelationshipHistory {
+  firstSeen: string;
+  lastSeen: string;
+  totalCount: number;
+  daysActive: number;
+  // First appeared in the import behind the open workspace
+  isNew: boolean;
+}
+
+export const relationshipKey = (row: Pick<CrowdStrikeRow, 'Source' | 'IP' | 'Service' | 'Target'>): string =>
+  [row.Source, row.IP, row.Service, row.Target].join('|');
+
+/** Collapses an import's rows into one summary per relationship. */
+export const summarizeRelationships = (rows: CrowdStrikeRow[]): RelationshipSummary[] => {
+  const summaries = new Map<string, RelationshipSummary>();
+  for (const row of rows) {
+    const time = new Date(row.Timestamp).getTime();
+    if (Number.isNaN(time)) continue;
+    const timestamp = new Date(time).toISOString();
+    const day = timestamp.slice(0, 10);
+    const key = relationshipKey(row);
+
+    const summary = summaries.get(key);
+    if (!summary) {
+      summaries.set(key, {
+        key,
+        Source: row.Source,
+        IP: row.IP,
+        Service: row.Service,
+        Target: row.Target,
+        firstSeen: timestamp,
+        lastSeen: timestamp,
+        days: { [day]: 1 }
+      });
+      continue;
+    }
+    if (timestamp < summary.firstSeen) summary.firstSeen = timestamp;
+    if (timestamp > summary.lastSeen) summary.lastSeen = timestamp;
+    summary.days[day] = (summary.days[day] || 0) + 1;
+  }
+  return Array.from(summaries.values());
+};
+
+/** Folds an import's summaries into the ledger, returning the changed records. */
+export const mergeRelationships = (
+  ledger: Map<string, RelationshipRecord>,
+  summaries: RelationshipSummary[],
+  importedAt: string,
+  workspaceId: string
+): RelationshipRecord[] =>
+  summaries.map(summary => {
+    const existing = ledger.get(summary.key);
+    if (!existing) {
+      return { ...summary, firstImported: importedAt, lastImported: importedAt, firstWorkspaceId: workspaceId };
+    }
+    const days = { ...existing.days };
+    Object.entries(summary.days).forEach(([day, count]) => {
+      days[day] = Math.max(days[day] || 0, count);
+    });
+    return {
+      ...existing,
+      firstSeen: summary.firstSeen < existing.firstSeen ? summary.firstSeen : existing.firstSeen,
+      lastSeen: summary.lastSeen > existing.lastSeen ? summary.lastSeen : existing.lastSeen,
+      days,
+      lastImported: importedAt
+    };
+  });
+
+/** History of a relationship as seen from a workspace, which decides what counts as new. */
+export const getHistory = (record: RelationshipRecord, workspaceId: string | null): RelationshipHistory => {
+  const counts = Object.values(record.days);
+  return {
+    firstSeen: record.firstSeen,
+    lastSeen: record.lastSeen,
+    totalCount: counts.reduce((total, count) => total + count, 0),
+    daysActive: counts.length,
+    isNew: !!workspaceId && record.firstWorkspaceId === workspaceId
+  };
+};
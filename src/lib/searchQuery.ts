@@ -0,0 +1,369 @@
+import { ProcessedRow } from './types';
+import { getRangeBounds } from './time';
+
+/**
+ * Search box query language. Terms are ANDed unless joined with OR, and bind
+ * NOT (or a leading "-") tighter than AND tighter than OR; parentheses group.
+ *
+ *   smb                        any text field contains "smb"
+ *   service:"File Share"       the service contains "File Share"
+ *   target:FILESHARE0*         * and ? match the whole value
+ *   ip:10.168.0.0/16           IPv4 CIDR
+ *   freq:>100  freq:10..50     numbers; ranges are inclusive and may be open
+ *   time:2024-01-05            rows overlapping that day or minute, in the
+ *   time:>=2024-01-05T08:00    display time zone; time:a..b spans both ends
+ */
+
+export type QueryField =
+  | 'source'
+  | 'ip'
+  | 'service'
+  | 'target'
+  | 'account'
+  | 'protocol'
+  | 'result'
+  | 'freq'
+  | 'anomaly'
+  | 'offhours'
+  | 'time';
+
+export type QueryComparison = '=' | '>' | '>=' | '<' | '<=';
+
+export type QueryNode =
+  | { type: 'and' | 'or'; left: QueryNode; right: QueryNode }
+  | { type: 'not'; operand: QueryNode }
+  | { type: 'term'; field: QueryField | null; comparison: QueryComparison; value: string };
+
+export interface QueryError {
+  message: string;
+  // Character offset the error points at
+  position: number;
+}
+
+export interface ParsedQuery {
+  // Null for an empty query or a syntax error
+  node: QueryNode | null;
+  error: QueryError | null;
+}
+
+export interface QueryOptions {
+  // Resolved IANA zone dates in time: terms are read in
+  timeZone: string;
+}
+
+const TEXT_FIELDS: Record<string, Array<keyof ProcessedRow>> = {
+  source: ['Source', 'Source Name', 'IP'],
+  ip: ['IP'],
+  service: ['Service'],
+  target: ['Target'],
+  account: ['Account'],
+  protocol: ['Protocol'],
+  result: ['Result']
+};
+
+const NUMBER_FIELDS: Record<string, keyof ProcessedRow> = {
+  freq: 'freq',
+  anomaly: 'anomalyScore',
+  offhours: 'offHours'
+};
+
+export const QUERY_FIELDS = [...Object.keys(TEXT_FIELDS), ...Object.keys(NUMBER_FIELDS), 'time'] as QueryField[];
+
+// Free text looks in every field the table shows
+const ANY_FIELDS: Array<keyof ProcessedRow> = ['Source', 'Target', 'Source Name', 'IP', 'Service', 'Account', 'Protocol', 'Result'];
+
+const COMPARISONS: QueryComparison[] = ['>=', '<=', '>', '<', '='];
+
+// Queries kept in the search history
+const MAX_HISTORY = 20;
+
+interface Token {
+  type: 'lparen' | 'rparen' | 'and' | 'or' | 'not' | 'term';
+  start: number;
+  field?: string;
+  comparison?: QueryComparison;
+  value?: string;
+}
+
+class ParseError extends Error {
+  position: number;
+
+  constructor(message: string, position: number) {
+    super(message);
+    this.position = position;
+  }
+}
+
+const DATE_PATTERN = /^(\d{4}-\d{2}-\d{2})(?:[T ](\d{2}:\d{2}))?$/;
+const CIDR_PATTERN = /^(\d{1,3}(?:\.\d{1,3}){3})\/(\d{1,2})$/;
+
+const readQuoted = (text: string, start: number): [string, number] => {
+  let value = '';
+  let i = start + 1;
+  while (i < text.length && text[i] !== '"') {
+    if (text[i] === '\\' && i + 1 < text.length) i++;
+    value += text[i++];
+  }
+  if (i >= text.length) throw new ParseError('Missing closing quote', start);
+  return [value, i + 1];
+};
+
+const readBare = (text: string, start: number): [string, number] => {
+  let i = start;
+  while (i < text.length && !/[\s()]/.test(text[i])) i++;
+  return [text.slice(start, i), i];
+};
+
+const tokenize = (text: string): Token[] => {
+  const tokens: Token[] = [];
+  let i = 0;
+  while (i < text.length) {
+    const char = text[i];
+    if (/\s/.test(char)) {
+      i++;
+    } else if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', start: i });
+      i++;
+    } else if (char === '-' && i + 1 < text.length && !/[\s)]/.test(text[i + 1])) {
+      tokens.push({ type: 'not', start: i });
+      i++;
+    } else if (char === '"') {
+      const [value, end] = readQuoted(text, i);
+      tokens.push({ type: 'term', start: i, value });
+      i = end;
+    } else {
+      const field = /^([A-Za-z]+):/.exec(text.slice(i));
+      if (field) {
+        let j = i + field[0].length;
+        const comparison = COMPARISONS.find(op => text.startsWith(op, j));
+        if (comparison) j += comparison.length;
+        const [value, end] = text[j] === '"' ? readQuoted(text, j) : readBare(text, j);
+        tokens.push({ type: 'term', start: i, field: field[1].toLowerCase(), comparison: comparison ?? '=', value });
+        i = end;
+        continue;
+      }
+      const [word, end] = readBare(text, i);
+      const type = word === 'AND' ? 'and' : word === 'OR' ? 'or' : word === 'NOT' ? 'not' : 'term';
+      tokens.push(type === 'term' ? { type, start: i, value: word } : { type, start: i });
+      i = end;
+    }
+  }
+  return tokens;
+};
+
+const isDate = (value: string) => !value || DATE_PATTERN.test(value);
+const isNumber = (value: string) => !value || !Number.isNaN(Number(value));
+
+// Checks a qualified term's value against its field, so mistakes are
+// reported while typing rather than matching nothing
+const checkTerm = (token: Token): QueryNode => {
+  const { start, field, comparison = '=', value = '' } = token;
+  if (!field) return { type: 'term', field: null, comparison, value };
+  if (!(QUERY_FIELDS as string[]).includes(field)) {
+    throw new ParseError(`Unknown field "${field}"; use ${QUERY_FIELDS.join(', ')}, or quote the text`, start);
+  }
+  if (!value) throw new ParseError(`Missing value after ${field}:`, start);
+  const isRange = value.includes('..');
+  if (field in TEXT_FIELDS) {
+    if (comparison !== '=' || isRange) throw new ParseError(`${field} is text; comparisons work on freq, anomaly, offhours and time`, start);
+    const cidr = CIDR_PATTERN.exec(value);
+    if (cidr && (cidr[1].split('.').some(part => Number(part) > 255) || Number(cidr[2]) > 32)) {
+      throw new ParseError(`Invalid CIDR "${value}"`, start);
+    }
+  } else {
+    const parts = isRange ? value.split('..') : [value];
+    if (isRange && (comparison !== '=' || parts.length !== 2 || (!parts[0] && !parts[1]))) {
+      throw new ParseError(`Invalid range "${value}"; use from..to`, start);
+    }
+    const valid = field === 'time' ? isDate : isNumber;
+    const bad = parts.find(part => !valid(part) || (!isRange && !part));
+    if (bad !== undefined) {
+      throw new ParseError(field === 'time'
+        ? `Invalid date "${bad}"; use YYYY-MM-DD or YYYY-MM-DDTHH:MM`
+        : `Invalid number "${bad}" for ${field}`, start);
+    }
+  }
+  return { type: 'term', field: field as QueryField, comparison, value };
+};
+
+/** Parses a search box query, reporting the first syntax error and where it is. */
+export const parseQuery = (text: string): ParsedQuery => {
+  try {
+    const tokens = tokenize(text);
+    if (!tokens.length) return { node: null, error: null };
+    let pos = 0;
+
+    const peek = () => tokens[pos];
+    const endPosition = () => text.trimEnd().length;
+
+    const parseOr = (): QueryNode => {
+      let node = parseAnd();
+      while (peek()?.type === 'or') {
+        pos++;
+        node = { type: 'or', left: node, right: parseAnd() };
+      }
+      return node;
+    };
+
+    const parseAnd = (): QueryNode => {
+      let node = parseNot();
+      for (;;) {
+        const next = peek();
+        if (!next || next.type === 'or' || next.type === 'rparen') return node;
+        if (next.type === 'and') pos++;
+        node = { type: 'and', left: node, right: parseNot() };
+      }
+    };
+
+    const parseNot = (): QueryNode => {
+      if (peek()?.type === 'not') {
+        pos++;
+        return { type: 'not', operand: parseNot() };
+      }
+      return parsePrimary();
+    };
+
+    const parsePrimary = (): QueryNode => {
+      const token = peek();
+      if (!token) throw new ParseError('Query ends too early', endPosition());
+      pos++;
+      if (token.type === 'lparen') {
+        const node = parseOr();
+        if (peek()?.type !== 'rparen') throw new ParseError('Missing closing parenthesis', token.start);
+        pos++;
+        return node;
+      }
+      if (token.type === 'term') return checkTerm(token);
+      const label = token.type === 'rparen' ? '")"' : token.type.toUpperCase();
+      throw new ParseError(`Unexpected ${label}`, token.start);
+    };
+
+    const node = parseOr();
+    if (pos < tokens.length) throw new ParseError('Unexpected ")"', tokens[pos].start);
+    return { node, error: null };
+  } catch (err) {
+    if (err instanceof ParseError) return { node: null, error: { message: err.message, position: err.position } };
+    throw err;
+  }
+};
+
+const toPattern = (value: string): ((text: string) => boolean) => {
+  const lower = value.toLowerCase();
+  if (!/[*?]/.test(lower)) return text => text.toLowerCase().includes(lower);
+  const source = lower.replace(/[.+^${}()|[\]\\]/g, '\\$&').replace(/\*/g, '.*').replace(/\?/g, '.');
+  const pattern = new RegExp(`^${source}$`);
+  return text => pattern.test(text.toLowerCase());
+};
+
+const ipToNumber = (ip: string) => {
+  const parts = ip.split('.');
+  if (parts.length !== 4) return NaN;
+  return parts.reduce((total, part) => total * 256 + (/^\d{1,3}$/.test(part) ? Number(part) : NaN), 0);
+};
+
+const toCidr = (value: string): ((text: string) => boolean) | null => {
+  const cidr = CIDR_PATTERN.exec(value);
+  if (!cidr) return null;
+  const bits = Number(cidr[2]);
+  const size = 2 ** (32 - bits);
+  const base = Math.floor(ipToNumber(cidr[1]) / size) * size;
+  return text => {
+    const ip = ipToNumber(text);
+    return ip >= base && ip < base + size;
+  };
+};
+
+// Instants a date or date-and-minute covers, end exclusive
+const dateBounds = (value: string, timeZone: string): [number, number] => {
+  const [, date, time] = DATE_PATTERN.exec(value)!;
+  if (!time) return getRangeBounds({ startDate: date, endDate: date }, timeZone);
+  const [start] = getRangeBounds({ startDate: date, startTime: time, endDate: date, endTime: time }, timeZone);
+  return [start, start + 60 * 1000];
+};
+
+const compareNumbers = (comparison: QueryComparison, value: string): ((n: number) => boolean) => {
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const low = from ? Number(from) : -Infinity;
+    const high = to ? Number(to) : Infinity;
+    return n => n >= low && n <= high;
+  }
+  const target = Number(value);
+  switch (comparison) {
+    case '>': return n => n > target;
+    case '>=': return n => n >= target;
+    case '<': return n => n < target;
+    case '<=': return n => n <= target;
+    default: return n => n === target;
+  }
+};
+
+// Rows match times their bucket overlaps
+const compareTimes = (comparison: QueryComparison, value: string, timeZone: string): ((start: number, end: number) => boolean) => {
+  if (value.includes('..')) {
+    const [from, to] = value.split('..');
+    const low = from ? dateBounds(from, timeZone)[0] : -Infinity;
+    const high = to ? dateBounds(to, timeZone)[1] : Infinity;
+    return (start, end) => start < high && end > low;
+  }
+  const [low, high] = dateBounds(value, timeZone);
+  switch (comparison) {
+    case '>': return (_start, end) => end > high;
+    case '>=': return (_start, end) => end > low;
+    case '<': return start => start < low;
+    case '<=': return start => start < high;
+    default: return (start, end) => start < high && end > low;
+  }
+};
+
+const compileNode = (node: QueryNode, timeZone: string): ((row: ProcessedRow) => boolean) => {
+  switch (node.type) {
+    case 'and': {
+      const left = compileNode(node.left, timeZone);
+      const right = compileNode(node.right, timeZone);
+      return row => left(row) && right(row);
+    }
+    case 'or': {
+      const left = compileNode(node.left, timeZone);
+      const right = compileNode(node.right, timeZone);
+      return row => left(row) || right(row);
+    }
+    case 'not': {
+      const operand = compileNode(node.operand, timeZone);
+      return row => !operand(row);
+    }
+    case 'term': {
+      const { field, comparison, value } = node;
+      if (field === 'time') {
+        const test = compareTimes(comparison, value, timeZone);
+        return row => test(new Date(row.bucketStart).getTime(), new Date(row.bucketEnd).getTime());
+      }
+      if (field && field in NUMBER_FIELDS) {
+        const key = NUMBER_FIELDS[field];
+        const test = compareNumbers(comparison, value);
+        return row => row[key] !== undefined && test(Number(row[key]));
+      }
+      const test = (field === 'ip' && toCidr(value)) || toPattern(value);
+      const keys = field ? TEXT_FIELDS[field] : ANY_FIELDS;
+      return row => keys.some(key => {
+        const text = row[key];
+        return typeof text === 'string' && test(text);
+      });
+    }
+  }
+};
+
+/** A row filter for a parsed query. */
+export const createQueryMatcher = (node: QueryNode, options: QueryOptions): ((row: ProcessedRow) => boolean) =>
+  compileNode(node, options.timeZone);
+
+/** Quotes `value` when the query language would otherwise read it as syntax. */
+export const quoteQueryValue = (value: string): string =>
+  /[\s()":]|^-|^(AND|OR|NOT)$/.test(value) ? `"${value.replace(/["\\]/g, '\\$&')}"` : value;
+
+/** Adds a query to the front of the search history, dropping repeats. */
+export const addToHistory = (history: string[], query: string): string[] => {
+  const trimmed = query.trim();
+  if (!trimmed) return history;
+  return [trimmed, ...history.filter(item => item !== trimmed)].slice(0, MAX_HISTORY);
+};
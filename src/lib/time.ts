@@ -0,0 +1,276 @@
+import { DateRange } from './types';
+
+export const DEFAULT_TIME_ZONE = 'America/Los_Angeles';
+export const LOCAL_TIME_ZONE = 'local';
+
+const MINUTE = 60 * 1000;
+const HOUR = 60 * MINUTE;
+const DAY = 24 * HOUR;
+// Every real-world offset change happens on a quarter-hour boundary, so an
+// offset looked up once per slot is valid for the whole slot.
+const OFFSET_SLOT = 15 * MINUTE;
+
+export interface ZonedParts {
+  year: number;
+  month: number;
+  day: number;
+  hour: number;
+  minute: number;
+  second: number;
+  weekday: number; // 0 = Sunday
+}
+
+const formatters = new Map<string, Intl.DateTimeFormat>();
+const offsetCaches = new Map<string, Map<number, number>>();
+const abbreviations = new Map<string, string>();
+
+/** Maps the persisted setting ('local', 'UTC' or an IANA zone) to an IANA zone. */
+export const resolveTimeZone = (setting: string): string =>
+  setting === LOCAL_TIME_ZONE ? Intl.DateTimeFormat().resolvedOptions().timeZone : setting;
+
+export const isValidTimeZone = (timeZone: string): boolean => {
+  try {
+    new Intl.DateTimeFormat('en-US', { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+export const listTimeZones = (): string[] => {
+  const intl = Intl as typeof Intl & { supportedValuesOf?: (key: 'timeZone') => string[] };
+  const zones = intl.supportedValuesOf?.('timeZone') ?? [DEFAULT_TIME_ZONE];
+  return zones.filter(zone => zone !== 'UTC');
+};
+
+export const getTimeZoneLabel = (setting: string): string =>
+  setting === LOCAL_TIME_ZONE ? `Local (${resolveTimeZone(setting)})` : setting;
+
+const getFormatter = (timeZone: string): Intl.DateTimeFormat => {
+  let formatter = formatters.get(timeZone);
+  if (!formatter) {
+    formatter = new Intl.DateTimeFormat('en-US', {
+      timeZone,
+      year: 'numeric',
+      month: '2-digit',
+      day: '2-digit',
+      hour: '2-digit',
+      minute: '2-digit',
+      second: '2-digit',
+      hourCycle: 'h23'
+    });
+    formatters.set(timeZone, formatter);
+  }
+  return formatter;
+};
+
+const computeOffset = (time: number, timeZone: string): number => {
+  const values: Record<string, number> = {};
+  getFormatter(timeZone).formatToParts(new Date(time)).forEach(part => {
+    if (part.type !== 'literal') values[part.type] = Number(part.value);
+  });
+  const wallClock = Date.UTC(values.year, values.month - 1, values.day, values.hour, values.minute, values.second);
+  return wallClock - Math.floor(time / 1000) * 1000;
+};
+
+/** Offset of `timeZone` from UTC at `time`, in milliseconds. */
+export const getTimeZoneOffset = (time: number, timeZone: string): number => {
+  let cache = offsetCaches.get(timeZone);
+  if (!cache) {
+    cache = new Map();
+    offsetCaches.set(timeZone, cache);
+  }
+  const slot = Math.floor(time / OFFSET_SLOT);
+  let offset = cache.get(slot);
+  if (offset === undefined) {
+    offset = computeOffset(slot * OFFSET_SLOT, timeZone);
+    cache.set(slot, offset);
+  }
+  return offset;
+};
+
+// Each English locale only knows the abbreviations used in its own region
+// (en-US has PST but not CEST), so try them in turn.
+const ABBREVIATION_LOCALES = ['en-US', 'en-GB', 'en-AU', 'en-IN'];
+
+/**
+ * Short zone name at `time`, e.g. PST or PDT depending on daylight time.
+ * Zones without a common abbreviation come back as a GMT offset.
+ */
+export const getTimeZoneAbbreviation = (time: number, timeZone: string): string => {
+  const key = `${timeZone}|${getTimeZoneOffset(time, timeZone)}`;
+  let abbreviation = abbreviations.get(key);
+  if (abbreviation === undefined) {
+    const names = ABBREVIATION_LOCALES.map(locale =>
+      new Intl.DateTimeFormat(locale, { timeZone, timeZoneName: 'short' })
+        .formatToParts(new Date(time))
+        .find(part => part.type === 'timeZoneName')?.value ?? timeZone
+    );
+    abbreviation = names.find(name => !/^GMT[+-]/.test(name)) ?? names[0];
+    abbreviations.set(key, abbreviation);
+  }
+  return abbreviation;
+};
+
+export const getZonedParts = (time: number, timeZone: string): ZonedParts => {
+  const wall = new Date(time + getTimeZoneOffset(time, timeZone));
+  return {
+    year: wall.getUTCFullYear(),
+    month: wall.getUTCMonth() + 1,
+    day: wall.getUTCDate(),
+    hour: wall.getUTCHours(),
+    minute: wall.getUTCMinutes(),
+    second: wall.getUTCSeconds(),
+    weekday: wall.getUTCDay()
+  };
+};
+
+/** Converts a wall-clock time in `timeZone` (expressed as UTC millis) to an instant. */
+export const zonedWallClockToTime = (wallClock: number, timeZone: string): number => {
+  const guess = wallClock - getTimeZoneOffset(wallClock, timeZone);
+  return wallClock - getTimeZoneOffset(guess, timeZone);
+};
+
+const pad = (value: number) => String(value).padStart(2, '0');
+
+/** Instant at which the calendar day `date` (YYYY-MM-DD) starts in `timeZone`. */
+export const startOfZonedDay = (date: string, timeZone: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedWallClockToTime(Date.UTC(year, month - 1, day), timeZone);
+};
+
+/** Instant at which the calendar day `date` (YYYY-MM-DD) ends (exclusive) in `timeZone`. */
+export const endOfZonedDay = (date: string, timeZone: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  return zonedWallClockToTime(Date.UTC(year, month - 1, day + 1), timeZone);
+};
+
+const atZonedMinute = (date: string, time: string, timeZone: string): number => {
+  const [year, month, day] = date.split('-').map(Number);
+  const [hour, minute] = time.split(':').map(Number);
+  return zonedWallClockToTime(Date.UTC(year, month - 1, day, hour, minute), timeZone);
+};
+
+/** Instants a date range covers in `timeZone`, end exclusive; unbounded when unset. */
+export const getRangeBounds = (range: DateRange | undefined, timeZone: string): [number, number] => {
+  if (!range?.startDate || !range?.endDate) return [-Infinity, Infinity];
+  return [
+    range.startTime ? atZonedMinute(range.startDate, range.startTime, timeZone) : startOfZonedDay(range.startDate, timeZone),
+    range.endTime ? atZonedMinute(range.endDate, range.endTime, timeZone) : endOfZonedDay(range.endDate, timeZone)
+  ];
+};
+
+/**
+ * The calendar widgets work with local-midnight Date objects. These convert
+ * between those and YYYY-MM-DD strings without shifting the day.
+ */
+export const toCalendarDate = (date: string): Date => {
+  const [year, month, day] = date.split('-').map(Number);
+  return new Date(year, month - 1, day);
+};
+
+export const fromCalendarDate = (date: Date): string =>
+  `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(date.getDate())}`;
+
+export const formatZonedDate = (parts: ZonedParts) =>
+  `${parts.year}-${pad(parts.month)}-${pad(parts.day)}`;
+
+export const formatZonedTime = (parts: ZonedParts, withSeconds = false) =>
+  `${pad(parts.hour)}:${pad(parts.minute)}${withSeconds ? `:${pad(parts.second)}` : ''}`;
+
+/** Date, time to the second and zone abbreviation, e.g. "2024-01-02 14:05:09 PST". */
+export const formatZonedDateTime = (time: number, timeZone: string): string => {
+  const parts = getZonedParts(time, timeZone);
+  return `${formatZonedDate(parts)} ${formatZonedTime(parts, true)} ${getTimeZoneAbbreviation(time, timeZone)}`;
+};
+
+export type BucketMode = 'minute' | 'hour' | 'day' | 'week' | 'minuteOfDay';
+
+export const BUCKET_MODES: Array<{ value: BucketMode; label: string }> = [
+  { value: 'minute', label: 'Minute' },
+  { value: 'hour', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' },
+  { value: 'minuteOfDay', label: 'Recurring (minute of day)' }
+];
+
+export const DEFAULT_BUCKET_MODE: BucketMode = 'minute';
+
+export interface Bucket {
+  key: string;
+  start: number;
+  end: number; // exclusive
+}
+
+/**
+ * Places `time` in its bucket for the given mode. Calendar buckets (hour, day,
+ * week) follow wall-clock boundaries in `timeZone`, so a DST day is 23 or 25
+ * hours long. Recurring buckets span a single minute; callers widen them to
+ * the first and last occurrence.
+ */
+export const getBucket = (time: number, mode: BucketMode, timeZone: string): Bucket => {
+  const offset = getTimeZoneOffset(time, timeZone);
+  const wall = time + offset;
+
+  switch (mode) {
+    case 'minute':
+    case 'minuteOfDay': {
+      const start = Math.floor(time / MINUTE) * MINUTE;
+      const key = mode === 'minute'
+        ? String(start)
+        : formatZonedTime(getZonedParts(time, timeZone));
+      return { key, start, end: start + MINUTE };
+    }
+    case 'hour': {
+      // Measured back from the instant so the repeated hour when clocks fall
+      // back stays two distinct buckets
+      const start = time - (((wall % HOUR) + HOUR) % HOUR);
+      return { key: String(start), start, end: start + HOUR };
+    }
+    case 'day':
+    case 'week': {
+      let wallDay = Math.floor(wall / DAY) * DAY;
+      let length = 1;
+      if (mode === 'week') {
+        // Weeks start on Monday
+        const weekday = new Date(wallDay).getUTCDay();
+        wallDay -= ((weekday + 6) % 7) * DAY;
+        length = 7;
+      }
+      const start = zonedWallClockToTime(wallDay, timeZone);
+      const end = zonedWallClockToTime(wallDay + length * DAY, timeZone);
+      return { key: String(start), start, end };
+    }
+  }
+};
+
+/** Human-readable label for a bucket, shown in the Time column and exports. */
+export const formatBucketLabel = (mode: BucketMode, start: number, firstEvent: number, timeZone: string): string => {
+  switch (mode) {
+    case 'minuteOfDay':
+      return `${formatZonedTime(getZonedParts(firstEvent, timeZone), true)} ${getTimeZoneAbbreviation(firstEvent, timeZone)}`;
+    case 'minute':
+    case 'hour': {
+      const parts = getZonedParts(start, timeZone);
+      return `${formatZonedDate(parts)} ${formatZonedTime(parts)} ${getTimeZoneAbbreviation(start, timeZone)}`;
+    }
+    case 'day':
+      return formatZonedDate(getZonedParts(start, timeZone));
+    case 'week':
+      return `Week of ${formatZonedDate(getZonedParts(start, timeZone))}`;
+  }
+};
+
+/** Compact duration using its two largest units, e.g. "7m 13s" or "2.5s". */
+export const formatDuration = (ms: number): string => {
+  if (ms < 10 * 1000) return `${Math.round(ms / 100) / 10}s`;
+  const units: Array<[string, number]> = [['d', DAY], ['h', HOUR], ['m', MINUTE], ['s', 1000]];
+  let rest = Math.round(ms / 1000) * 1000;
+  const parts: string[] = [];
+  for (const [unit, size] of units) {
+    const value = Math.floor(rest / size);
+    rest -= value * size;
+    if (value) parts.push(`${value}${unit}`);
+  }
+  return parts.slice(0, 2).join(' ');
+};
@@ -0,0 +1,155 @@
+import { CrowdStrikeRow, DateRange } from './types';
+import { DEFAULT_EVENT_TYPE, EventTypeId, getEventType } from './eventTypes';
+import { DEFAULT_TIME_ZONE, formatZonedDate, formatZonedTime, getBucket, getRangeBounds, getZonedParts } from './time';
+
+export type TimelineUnit = 'minute' | 'hour' | 'day' | 'week';
+
+export type TimelineGranularity = 'auto' | TimelineUnit;
+
+export const TIMELINE_GRANULARITIES: Array<{ value: TimelineGranularity; label: string }> = [
+  { value: 'auto', label: 'Auto' },
+  { value: 'minute', label: 'Minute' },
+  { value: 'hour', label: 'Hour' },
+  { value: 'day', label: 'Day' },
+  { value: 'week', label: 'Week' }
+];
+
+export type TimelineStack = 'none' | 'service' | 'source';
+
+export const TIMELINE_STACKS: Array<{ value: TimelineStack; label: string }> = [
+  { value: 'none', label: 'All events' },
+  { value: 'service', label: 'By service' },
+  { value: 'source', label: 'By source' }
+];
+
+export interface TimelineOptions {
+  dateRange?: DateRange;
+  // Resolved IANA zone the buckets follow
+  timeZone?: string;
+  eventType?: EventTypeId;
+  granularity?: TimelineGranularity;
+  stackBy?: TimelineStack;
+}
+
+export interface TimelineBucket {
+  start: number;
+  // Exclusive
+  end: number;
+  // Events per series, in the order of Timeline.series
+  counts: number[];
+}
+
+export interface Timeline {
+  // The unit used, coarser than asked for when the span needs too many buckets
+  unit: TimelineUnit;
+  series: string[];
+  buckets: TimelineBucket[];
+}
+
+const UNITS: TimelineUnit[] = ['minute', 'hour', 'day', 'week'];
+const UNIT_MS: Record<TimelineUnit, number> = {
+  minute: 60 * 1000,
+  hour: 60 * 60 * 1000,
+  day: 24 * 60 * 60 * 1000,
+  week: 7 * 24 * 60 * 60 * 1000
+};
+// More points than this make the chart slow and the brush too fine to use
+const MAX_BUCKETS = 1000;
+// Auto picks the finest unit that still gives a readable chart
+const AUTO_BUCKETS = 300;
+// Stacked series beyond the busiest few are summed as "Other"
+const MAX_SERIES = 8;
+const OTHER_SERIES = 'Other';
+
+const seriesName = (row: CrowdStrikeRow, stackBy: TimelineStack) => {
+  if (stackBy === 'service') return row.Service || 'Unknown';
+  if (stackBy === 'source') return row['Source Name'] || row.IP || row.Source || 'Unknown';
+  return 'Events';
+};
+
+/**
+ * Counts events over time in contiguous buckets, optionally split into one
+ * series per service or source. Buckets follow wall-clock boundaries in the
+ * time zone, like the table's time buckets.
+ */
+export const buildTimeline = (data: CrowdStrikeRow[], options: TimelineOptions = {}): Timeline => {
+  const {
+    dateRange,
+    timeZone = DEFAULT_TIME_ZONE,
+    eventType = DEFAULT_EVENT_TYPE,
+    granularity = 'auto',
+    stackBy = 'none'
+  } = options;
+  try {
+    const [rangeStart, rangeEnd] = getRangeBounds(dateRange, timeZone);
+    const inRange = (row: CrowdStrikeRow) => {
+      if (getEventType(row) !== eventType) return NaN;
+      const time = new Date(row.Timestamp).getTime();
+      return time >= rangeStart && time < rangeEnd ? time : NaN;
+    };
+
+    let first = Infinity;
+    let last = -Infinity;
+    const totals = new Map<string, number>();
+    for (const row of data) {
+      const time = inRange(row);
+      if (Number.isNaN(time)) continue;
+      if (time < first) first = time;
+      if (time > last) last = time;
+      const name = seriesName(row, stackBy);
+      totals.set(name, (totals.get(name) ?? 0) + 1);
+    }
+    if (first === Infinity) return { unit: granularity === 'auto' ? 'hour' : granularity, series: [], buckets: [] };
+
+    const span = last - first;
+    const limit = granularity === 'auto' ? AUTO_BUCKETS : MAX_BUCKETS;
+    const unit = UNITS.slice(UNITS.indexOf(granularity === 'auto' ? 'minute' : granularity))
+      .find(candidate => span / UNIT_MS[candidate] < limit) ?? 'week';
+
+    const ranked = Array.from(totals.entries()).sort((a, b) => b[1] - a[1]).map(([name]) => name);
+    const series = ranked.length > MAX_SERIES ? [...ranked.slice(0, MAX_SERIES - 1), OTHER_SERIES] : ranked;
+    const seriesIndex = new Map(series.map((name, i) => [name, i]));
+    const other = seriesIndex.get(OTHER_SERIES) ?? series.length - 1;
+
+    const buckets: TimelineBucket[] = [];
+    const bucketIndex = new Map<number, number>();
+    for (let start = getBucket(first, unit, timeZone).start; start <= last;) {
+      const bucket = getBucket(start, unit, timeZone);
+      bucketIndex.set(bucket.start, buckets.length);
+      buckets.push({ start: bucket.start, end: bucket.end, counts: new Array(series.length).fill(0) });
+      start = bucket.end;
+    }
+
+    for (const row of data) {
+      const time = inRange(row);
+      if (Number.isNaN(time)) continue;
+      const bucket = buckets[bucketIndex.get(getBucket(time, unit, timeZone).start)!];
+      bucket.counts[seriesIndex.get(seriesName(row, stackBy)) ?? other]++;
+    }
+
+    return { unit, series, buckets };
+  } catch (err) {
+    throw new Error(`Timeline failed: ${err instanceof Error ? err.message : 'Unknown error'}`);
+  }
+};
+
+/**
+ * The date range from `start` to `end` (exclusive) in the time zone, to the
+ * minute. Whole days come back without times.
+ */
+export const toDateRange = (start: number, end: number, timeZone: string): DateRange => {
+  const from = getZonedParts(start, timeZone);
+  const to = getZonedParts(end, timeZone);
+  const startTime = formatZonedTime(from);
+  const endTime = formatZonedTime(to);
+  if (startTime === '00:00' && endTime === '00:00') {
+    return { startDate: formatZonedDate(from), endDate: formatZonedDate(getZonedParts(end - 1, timeZone)) };
+  }
+  return { startDate: formatZonedDate(from), startTime, endDate: formatZonedDate(to), endTime };
+};
+
+export const formatDateRange = (range: DateRange): string => {
+  const start = range.startTime ? `${range.startDate} ${range.startTime}` : range.startDate;
+  const end = range.endTime ? `${range.endDate} ${range.endTime}` : range.endDate;
+  return start === end ? start : `${start} – ${end}`;
+};
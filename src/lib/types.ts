@@ -0,0 +1,97 @@
+import { EventTypeId } from './eventTypes';
+import { ChangeKind } from './compareData';
+import { AnomalyReason } from './anomalyScore';
+import { CadenceKind } from './periodicity';
+import { OffHoursReason } from './businessCalendar';
+
+export interface CrowdStrikeRow {
+  Timestamp: string;
+  Source: string;
+  'Source Name': string;
+  IP: string;
+  Service: string;
+  Target: string;
+  // Fields carried by the non service-access activity types
+  Account?: string;
+  Protocol?: string;
+  Result?: string;
+  eventType?: EventTypeId;
+  // Name of the export the row was imported from
+  sourceFile?: string;
+}
+
+// One event as imported, with its parsed time
+export interface RawEvent extends CrowdStrikeRow {
+  time: number;
+  // Set when a business calendar is given and the event falls outside it
+  offHoursReason?: OffHoursReason;
+}
+
+export interface ProcessedRow {
+  Source: string;
+  'Source Name': string;
+  IP: string;
+  Service: string;
+  Target: string;
+  Account?: string;
+  Protocol?: string;
+  Result?: string;
+  eventType?: EventTypeId;
+  Time: string;
+  // ISO timestamps; the end is exclusive
+  bucketStart: string;
+  bucketEnd: string;
+  freq: number;
+  // Set on comparison rows: the baseline count and the change in daily rate
+  change?: ChangeKind;
+  baselineFreq?: number;
+  changePct?: number;
+  // Relationship history from the ledger, across every import
+  firstSeen?: string;
+  lastSeen?: string;
+  totalCount?: number;
+  daysActive?: number;
+  isNew?: boolean;
+  // How unusual the relationship is, 0-100, and what contributed
+  anomalyScore?: number;
+  anomalyReasons?: AnomalyReason[];
+  // Set when the relationship's events arrive at regular intervals
+  cadence?: CadenceKind;
+  periodMs?: number;
+  jitterMs?: number;
+  cadenceReason?: string;
+  // Events in the row outside business hours, when a calendar is set
+  offHours?: number;
+  offHoursReason?: OffHoursReason;
+}
+
+export interface DateRange {
+  startDate: string;
+  endDate: string;
+  // Wall-clock HH:MM narrowing the first and last day; the end is exclusive.
+  // Without them the range covers whole days.
+  startTime?: string;
+  endTime?: string;
+}
+
+export interface DateConstraints {
+  minDate: string;
+  maxDate: string;
+}
+
+export interface ImportFileSummary {
+  name: string;
+  rows: number;
+  // Rows kept after dropping exact duplicates of events already imported
+  added: number;
+  duplicates: number;
+  // Duplicate counts keyed by the earlier file that already held the event
+  overlaps: Record<string, number>;
+}
+
+export interface ImportSummary {
+  files: ImportFileSummary[];
+  totalRows: number;
+  duplicates: number;
+  eventTypes?: Partial<Record<EventTypeId, number>>;
+}
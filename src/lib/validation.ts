@@ -0,0 +1,75 @@
+import { CrowdStrikeRow } from './types';
+
+export type ValidationIssue = 'invalidTimestamp' | 'emptyIp' | 'malformedIp';
+
+export const VALIDATION_ISSUES: Array<{ value: ValidationIssue; label: string }> = [
+  { value: 'invalidTimestamp', label: 'Unparsable timestamp' },
+  { value: 'emptyIp', label: 'Empty IP' },
+  { value: 'malformedIp', label: 'Malformed IP address' }
+];
+
+const SAMPLE_SIZE = 20;
+
+export interface ValidationReport {
+  // Indexes into the imported rows, per issue
+  issues: Record<ValidationIssue, number[]>;
+  samples: Record<ValidationIssue, CrowdStrikeRow[]>;
+}
+
+const IPV4 = /^(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)(\.(25[0-5]|2[0-4]\d|1\d\d|[1-9]?\d)){3}$/;
+
+const isIPv6 = (value: string): boolean => {
+  const address = value.replace(/^\[|\]$/g, '').split('%')[0];
+  if (!address.includes(':') || !/^[0-9a-fA-F:.]+$/.test(address)) return false;
+  const doubleColons = address.split('::').length - 1;
+  if (doubleColons > 1) return false;
+
+  let groups = address.split(':').filter(group => group !== '');
+  // An IPv4 tail (::ffff:10.0.0.1) counts as two groups
+  const last = groups[groups.length - 1];
+  if (last && last.includes('.')) {
+    if (!IPV4.test(last)) return false;
+    groups = [...groups.slice(0, -1), '0', '0'];
+  }
+  if (groups.some(group => !/^[0-9a-fA-F]{1,4}$/.test(group))) return false;
+  return doubleColons === 1 ? groups.length < 8 : groups.length === 8;
+};
+
+export const isValidIp = (value: string): boolean => IPV4.test(value) || isIPv6(value);
+
+export const validateRows = (rows: CrowdStrikeRow[]): ValidationReport => {
+  const report: ValidationReport = {
+    issues: { invalidTimestamp: [], emptyIp: [], malformedIp: [] },
+    samples: { invalidTimestamp: [], emptyIp: [], malformedIp: [] }
+  };
+
+  const flag = (issue: ValidationIssue, index: number) => {
+    report.issues[issue].push(index);
+    if (report.samples[issue].length < SAMPLE_SIZE) {
+      report.samples[issue].push(rows[index]);
+    }
+  };
+
+  rows.forEach((row, index) => {
+    if (!row.Timestamp || Number.isNaN(new Date(row.Timestamp).getTime())) {
+      flag('invalidTimestamp', index);
+    }
+    if (!row.IP) {
+      flag('emptyIp', index);
+    } else if (!isValidIp(row.IP)) {
+      flag('malformedIp', index);
+    }
+  });
+
+  return report;
+};
+
+export const hasValidationIssues = (report: ValidationReport): boolean =>
+  VALIDATION_ISSUES.some(({ value }) => report.issues[value].length > 0);
+
+/** Drops the rows flagged for any of the given issues. */
+export const excludeRows = (rows: CrowdStrikeRow[], report: ValidationReport, exclude: ValidationIssue[]): CrowdStrikeRow[] => {
+  const excluded = new Set<number>();
+  exclude.forEach(issue => report.issues[issue].forEach(index => excluded.add(index)));
+  return excluded.size ? rows.filter((_row, index) => !excluded.has(index)) : rows;
+};
@@ -0,0 +1,100 @@
+import { DateRange, ProcessedRow } from './types';
+import { EVENT_TYPES } from './eventTypes';
+import { DEFAULT_TIME_ZONE, isValidTimeZone, resolveTimeZone } from './time';
+
+export interface ViewSort {
+  key: keyof ProcessedRow;
+  direction: 'asc' | 'desc';
+}
+
+/** What a link or a saved view restores; the data itself is never included. */
+export interface ViewState {
+  searchTerm: string;
+  selectedSource: string;
+  dateRange: DateRange;
+  sort: ViewSort;
+  // The time zone setting: 'local', 'UTC' or an IANA zone
+  timeZone: string;
+  // Dashboard tab title; empty for the first tab
+  tab: string;
+}
+
+export interface SavedView {
+  id: string;
+  name: string;
+  state: ViewState;
+  createdAt: string;
+}
+
+export const DEFAULT_SORT: ViewSort = { key: 'freq', direction: 'desc' };
+
+// Columns the results table can be sorted by
+const SORT_KEYS = new Set<string>([
+  ...Object.values(EVENT_TYPES).flatMap(type => type.columns),
+  'change',
+  'firstSeen',
+  'daysActive',
+  'baselineFreq',
+  'offHours',
+  'anomalyScore',
+  'cadence'
+]);
+
+const DATE_PATTERN = /^\d{4}-\d{2}-\d{2}$/;
+const TIME_PATTERN = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+/** Encodes a view as a URL hash, leaving out whatever is at its default. */
+export const encodeViewHash = (view: ViewState): string => {
+  const params = new URLSearchParams();
+  if (view.searchTerm) params.set('q', view.searchTerm);
+  if (view.selectedSource) params.set('source', view.selectedSource);
+  if (view.dateRange.startDate) params.set('from', view.dateRange.startDate);
+  if (view.dateRange.endDate) params.set('to', view.dateRange.endDate);
+  if (view.dateRange.startTime) params.set('fromTime', view.dateRange.startTime);
+  if (view.dateRange.endTime) params.set('toTime', view.dateRange.endTime);
+  if (view.sort.key !== DEFAULT_SORT.key || view.sort.direction !== DEFAULT_SORT.direction) {
+    params.set('sort', `${view.sort.key}:${view.sort.direction}`);
+  }
+  params.set('tz', view.timeZone);
+  if (view.tab) params.set('tab', view.tab);
+  return `#${params.toString()}`;
+};
+
+/**
+ * Reads a view back from a URL hash. Parameters that are missing or invalid
+ * fall back to their defaults; null when the hash holds no view at all.
+ */
+export const decodeViewHash = (hash: string): ViewState | null => {
+  const params = new URLSearchParams(hash.replace(/^#/, ''));
+  if (!params.has('tz')) return null;
+
+  const date = (name: string) => {
+    const value = params.get(name) ?? '';
+    return DATE_PATTERN.test(value) ? value : '';
+  };
+  const time = (name: string) => {
+    const value = params.get(name) ?? '';
+    return TIME_PATTERN.test(value) ? value : undefined;
+  };
+  const dateRange: DateRange = { startDate: date('from'), endDate: date('to') };
+  // Times only narrow a day that is set
+  const startTime = dateRange.startDate ? time('fromTime') : undefined;
+  const endTime = dateRange.endDate ? time('toTime') : undefined;
+  if (startTime) dateRange.startTime = startTime;
+  if (endTime) dateRange.endTime = endTime;
+
+  const [key, direction] = (params.get('sort') ?? '').split(':');
+  const sort: ViewSort = SORT_KEYS.has(key) && (direction === 'asc' || direction === 'desc')
+    ? { key: key as keyof ProcessedRow, direction }
+    : DEFAULT_SORT;
+
+  const timeZone = params.get('tz') ?? '';
+  return {
+    searchTerm: params.get('q') ?? '',
+    selectedSource: params.get('source') ?? '',
+    dateRange,
+    sort,
+    timeZone: timeZone && isValidTimeZone(resolveTimeZone(timeZone)) ? timeZone : DEFAULT_TIME_ZONE,
+    tab: params.get('tab') ?? ''
+  };
+};
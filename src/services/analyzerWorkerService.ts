@@ -0,0 +1,228 @@
+import { EventList, EventOptions, ProcessOptions } from '../lib/processData';
+import { CompareOptions } from '../lib/compareData';
+import { RelationshipSummary } from '../lib/relationshipLedger';
+import { AnomalyOptions, AnomalyScore } from '../lib/anomalyScore';
+import { Periodicity, PeriodicityOptions } from '../lib/periodicity';
+import { MovementPath, PathOptions } from '../lib/lateralMovement';
+import { HeatmapOptions } from '../lib/activityHeatmap';
+import { Timeline, TimelineOptions } from '../lib/timeline';
+import { HostOptions, HostProfile } from '../lib/hostProfile';
+import { CrowdStrikeRow, ProcessedRow } from '../lib/types';
+import { ImportSource, ParseProgress, ParseResult, WorkerRequest, WorkerResponse } from '../workers/protocol';
+
+interface PendingRequest {
+  resolve: (response: WorkerResponse) => void;
+  reject: (error: Error) => void;
+  onProgress?: (progress: ParseProgress) => void;
+}
+
+let worker: Worker | null = null;
+// The dataset currently held by the worker, compared by identity so rows are
+// only copied across when they actually changed.
+let workerRows: CrowdStrikeRow[] | null = null;
+let nextRequestId = 1;
+const pending = new Map<number, PendingRequest>();
+// Requests that read or replace the dataset run one at a time, so another
+// caller's rows can't be swapped in between a sync and the request after it
+let queue: Promise<unknown> = Promise.resolve();
+
+const rejectAll = (error: Error) => {
+  pending.forEach(request => request.reject(error));
+  pending.clear();
+};
+
+const getWorker = (): Worker => {
+  if (worker) return worker;
+
+  worker = new Worker(new URL('../workers/analyzerWorker.ts', import.meta.url), { type: 'module' });
+
+  worker.onmessage = (event: MessageEvent<WorkerResponse>) => {
+    const response = event.data;
+    const request = pending.get(response.id);
+    if (!request) return;
+
+    if (response.type === 'progress') {
+      request.onProgress?.(response.progress);
+      return;
+    }
+
+    pending.delete(response.id);
+    if (response.type === 'error') {
+      request.reject(new Error(response.message));
+    } else {
+      request.resolve(response);
+    }
+  };
+
+  worker.onerror = (event: ErrorEvent) => {
+    rejectAll(new Error(`Worker failed: ${event.message || 'Unknown error'}`));
+    terminateWorker();
+  };
+
+  return worker;
+};
+
+const terminateWorker = () => {
+  worker?.terminate();
+  worker = null;
+  workerRows = null;
+};
+
+const send = (
+  build: (id: number) => WorkerRequest,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<WorkerResponse> => {
+  return new Promise((resolve, reject) => {
+    const id = nextRequestId++;
+    pending.set(id, { resolve, reject, onProgress });
+    getWorker().postMessage(build(id));
+  });
+};
+
+const enqueue = <T>(task: () => Promise<T>): Promise<T> => {
+  const result = queue.then(task);
+  queue = result.catch(() => undefined);
+  return result;
+};
+
+// Runs a request against `rows`, copying them to the worker unless it already holds them
+const sendFor = (rows: CrowdStrikeRow[], build: (id: number) => WorkerRequest): Promise<WorkerResponse> =>
+  enqueue(async () => {
+    if (workerRows !== rows) {
+      await send(id => ({ id, type: 'setRows', rows }));
+      workerRows = rows;
+    }
+    return send(build);
+  });
+
+export const isCancelledError = (error: unknown): boolean =>
+  error instanceof DOMException && error.name === 'AbortError';
+
+/**
+ * Stops any parse or aggregation in flight. Pending promises reject with an
+ * AbortError and the next request starts a fresh worker.
+ */
+export const cancelProcessing = () => {
+  terminateWorker();
+  rejectAll(new DOMException('Processing cancelled', 'AbortError'));
+};
+
+/**
+ * Parses one or more exports into a single dataset. Exact duplicate events
+ * across files are dropped and each row records the file it came from.
+ */
+export const parseFiles = async (
+  sources: ImportSource[],
+  options: ProcessOptions,
+  onProgress?: (progress: ParseProgress) => void
+): Promise<ParseResult> => {
+  const response = await enqueue(async () => {
+    const parsed = await send(id => ({ id, type: 'parse', sources, options }), onProgress);
+    // The worker keeps what it parsed as its dataset
+    if (parsed.type === 'parsed') workerRows = parsed.result.rows;
+    return parsed;
+  });
+  if (response.type !== 'parsed') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.result;
+};
+
+export const aggregateRows = async (
+  rows: CrowdStrikeRow[],
+  options: ProcessOptions
+): Promise<ProcessedRow[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'aggregate', options }));
+  if (response.type !== 'aggregated') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.results;
+};
+
+/**
+ * Diffs `rows` against a baseline. The baseline is another dataset when
+ * `baselineRows` is given, otherwise a different date range of `rows`.
+ */
+export const compareRows = async (
+  rows: CrowdStrikeRow[],
+  baselineRows: CrowdStrikeRow[] | null,
+  options: CompareOptions
+): Promise<ProcessedRow[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'compare', baselineRows, options }));
+  if (response.type !== 'compared') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.results;
+};
+
+/** One summary per Source/IP/Service/Target relationship in `rows`. */
+export const summarizeRows = async (rows: CrowdStrikeRow[]): Promise<RelationshipSummary[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'summarize' }));
+  if (response.type !== 'summarized') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.relationships;
+};
+
+/** Anomaly scores for the relationships of one event type in `rows`. */
+export const scoreRows = async (rows: CrowdStrikeRow[], options: AnomalyOptions): Promise<AnomalyScore[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'score', options }));
+  if (response.type !== 'scored') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.scores;
+};
+
+/** Relationships of one event type in `rows` that recur at regular intervals. */
+export const detectPeriodicRows = async (rows: CrowdStrikeRow[], options: PeriodicityOptions): Promise<Periodicity[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'periodicity', options }));
+  if (response.type !== 'periodic') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.periodicity;
+};
+
+/** Multi-hop access chains in `rows` that leave the start host. */
+export const findPathRows = async (rows: CrowdStrikeRow[], options: PathOptions): Promise<MovementPath[]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'paths', options }));
+  if (response.type !== 'pathsFound') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.paths;
+};
+
+/** Event counts of `rows` by weekday and hour, indexed [weekday][hour]. */
+export const buildHeatmapRows = async (rows: CrowdStrikeRow[], options: HeatmapOptions): Promise<number[][]> => {
+  const response = await sendFor(rows, id => ({ id, type: 'heatmap', options }));
+  if (response.type !== 'heatmapBuilt') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.counts;
+};
+
+/** Event counts of `rows` over time, for the timeline chart. */
+export const buildTimelineRows = async (rows: CrowdStrikeRow[], options: TimelineOptions): Promise<Timeline> => {
+  const response = await sendFor(rows, id => ({ id, type: 'timeline', options }));
+  if (response.type !== 'timelineBuilt') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.timeline;
+};
+
+/** What `rows` say about one host, for the host view. */
+export const profileHostRows = async (rows: CrowdStrikeRow[], options: HostOptions): Promise<HostProfile> => {
+  const response = await sendFor(rows, id => ({ id, type: 'host', options }));
+  if (response.type !== 'hostProfiled') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.profile;
+};
+
+/** The raw events behind aggregated rows, or every event the options match. */
+export const listEventRows = async (rows: CrowdStrikeRow[], options: EventOptions): Promise<EventList> => {
+  const response = await sendFor(rows, id => ({ id, type: 'events', options }));
+  if (response.type !== 'eventsListed') {
+    throw new Error(`Unexpected worker response: ${response.type}`);
+  }
+  return response.list;
+};
@@ -0,0 +1,115 @@
+import { createDataKey, rewrapDataKey, unwrapDataKey, MIN_PASSPHRASE_LENGTH } from '../lib/crypto';
+import {
+  changeDataKey,
+  clearWorkspaces,
+  deleteKeyRecord,
+  listWorkspaces,
+  loadKeyRecord,
+  loadRelationships,
+  loadSavedViews,
+  loadSearchHistory,
+  loadWorkspaceEvents,
+  loadWorkspaceState,
+  saveKeyRecord,
+  saveRelationships,
+  saveSavedViews,
+  saveSearchHistory,
+  saveWorkspaceEvents,
+  saveWorkspaceMeta,
+  saveWorkspaceState,
+  setDataKey
+} from './indexedDBService';
+
+// The unlocked data key; the wrapped copy in storage is useless without the passphrase
+let unlockedKey: CryptoKey | null = null;
+
+const checkPassphrase = (passphrase: string) => {
+  if (passphrase.length < MIN_PASSPHRASE_LENGTH) {
+    throw new Error(`Passphrase must be at least ${MIN_PASSPHRASE_LENGTH} characters`);
+  }
+};
+
+/**
+ * Rewrites every workspace, the relationship ledger, the search history and
+ * the saved views with `writeKey`, then makes it the current key. Other reads
+ * and writes wait until it is done. Reads accept both plaintext and encrypted
+ * records, so an interrupted rewrite leaves nothing unreadable and can simply
+ * be run again.
+ */
+const rewriteWorkspaces = (readKey: CryptoKey | null, writeKey: CryptoKey | null, encrypted: boolean) =>
+  changeDataKey(async () => {
+    const workspaces = await listWorkspaces(readKey);
+    for (const meta of workspaces) {
+      const [state, rows] = await Promise.all([loadWorkspaceState(meta.id, readKey), loadWorkspaceEvents(meta.id, readKey)]);
+      await saveWorkspaceEvents(meta.id, rows, writeKey);
+      if (state) await saveWorkspaceState(state, writeKey);
+      await saveWorkspaceMeta(meta, writeKey);
+    }
+    await saveRelationships(await loadRelationships(readKey), writeKey);
+    const [history, views] = await Promise.all([loadSearchHistory(readKey), loadSavedViews(readKey)]);
+    await saveSearchHistory(history, writeKey);
+    await saveSavedViews(views, writeKey);
+    setDataKey(writeKey, encrypted);
+  });
+
+export const isEncryptionEnabled = async (): Promise<boolean> => !!(await loadKeyRecord());
+
+export const isUnlocked = (): boolean => unlockedKey !== null;
+
+export const unlock = async (passphrase: string): Promise<void> => {
+  const record = await loadKeyRecord();
+  if (!record) throw new Error('Encryption is not enabled');
+  unlockedKey = await unwrapDataKey(record, passphrase);
+  setDataKey(unlockedKey, true);
+};
+
+/** Drops the key from memory; saved data stays encrypted until unlocked again. */
+export const lock = () => {
+  unlockedKey = null;
+  setDataKey(null, true);
+};
+
+/** Marks storage as locked at startup when a wrapped key exists. */
+export const initEncryption = async (): Promise<boolean> => {
+  const enabled = await isEncryptionEnabled();
+  setDataKey(unlockedKey, enabled);
+  return enabled;
+};
+
+export const enableEncryption = async (passphrase: string): Promise<void> => {
+  checkPassphrase(passphrase);
+  const { key, record } = await createDataKey(passphrase);
+  await saveKeyRecord(record);
+  unlockedKey = key;
+  await rewriteWorkspaces(null, key, true);
+};
+
+export const changePassphrase = async (current: string, next: string): Promise<void> => {
+  checkPassphrase(next);
+  const record = await loadKeyRecord();
+  if (!record) throw new Error('Encryption is not enabled');
+  // Only the key is re-wrapped; the data stays as it is
+  const key = await unwrapDataKey(record, current);
+  await saveKeyRecord(await rewrapDataKey(key, next));
+};
+
+/** Decrypts every workspace back to plaintext and removes the key. */
+export const disableEncryption = async (): Promise<void> => {
+  if (!unlockedKey) throw new Error('Unlock before turning encryption off');
+  await rewriteWorkspaces(unlockedKey, null, false);
+  await deleteKeyRecord();
+  unlockedKey = null;
+};
+
+/**
+ * Deletes the wrapped key, which leaves the encrypted data unreadable even
+ * with the passphrase, then clears the workspaces it protected.
+ */
+export const forgetKey = async (): Promise<void> => {
+  await deleteKeyRecord();
+  unlockedKey = null;
+  await changeDataKey(async () => {
+    setDataKey(null, false);
+    await clearWorkspaces();
+  });
+};
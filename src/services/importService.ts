@@ -0,0 +1,88 @@
+import Papa from 'papaparse';
+import { HeaderMapping, getHeaderSignature, isStandardMapping, suggestMapping } from '../lib/headerMapping';
+import { collectFieldPaths, looksLikeNdjson, sampleJsonRecords, sampleNdjsonRecords } from '../lib/jsonRecords';
+import { FileFormat, ImportFile, getFileFormat, readSample } from '../lib/importFiles';
+import { loadHeaderMapping } from './indexedDBService';
+
+// Headers are read from the start of each file; for JSON they are the field
+// paths of the first records
+const SAMPLE_BYTES = 1024 * 1024;
+const SAMPLE_RECORDS = 50;
+
+export interface FileLayout {
+  format: FileFormat;
+  // Column names for CSV, flattened field paths for JSON
+  headers: string[];
+  // Key path of the records array in a JSON document, '' for the root
+  recordsPath: string;
+}
+
+export interface HeaderGroup extends FileLayout {
+  signature: string;
+  files: ImportFile[];
+  mapping: HeaderMapping;
+  // True when the mapping was restored from a previous import
+  remembered: boolean;
+}
+
+const readCsvHeaders = (text: string): string[] => {
+  const results = Papa.parse<string[]>(text, { preview: 1, skipEmptyLines: true });
+  return (results.data[0] ?? []).map(header => String(header).trim());
+};
+
+const readJsonLayout = (file: ImportFile, format: FileFormat, text: string, complete: boolean): FileLayout => {
+  try {
+    if (format === 'ndjson' || looksLikeNdjson(text)) {
+      const records = sampleNdjsonRecords(text, SAMPLE_RECORDS, complete);
+      return { format: 'ndjson', headers: collectFieldPaths(records), recordsPath: '' };
+    }
+    const { path, records } = sampleJsonRecords(text, SAMPLE_RECORDS);
+    return { format: 'json', headers: collectFieldPaths(records), recordsPath: path };
+  } catch (err) {
+    throw new Error(`Failed to read fields (${file.name}): ${err instanceof Error ? err.message : 'Invalid JSON'}`);
+  }
+};
+
+/** Works out how a file is laid out: its format and the columns or fields it has. */
+export const readLayout = async (file: ImportFile): Promise<FileLayout> => {
+  const format = getFileFormat(file.name);
+  const { text, complete } = await readSample(file, SAMPLE_BYTES);
+  if (format === 'csv') {
+    return { format, headers: readCsvHeaders(text), recordsPath: '' };
+  }
+  return readJsonLayout(file, format, text, complete);
+};
+
+/**
+ * Groups files that share a header layout and works out a mapping for each
+ * group, preferring one remembered from an earlier import.
+ */
+export const groupFilesByHeaders = async (files: ImportFile[]): Promise<HeaderGroup[]> => {
+  const groups = new Map<string, HeaderGroup>();
+
+  for (const file of files) {
+    const layout = await readLayout(file);
+    const signature = getHeaderSignature(layout.headers);
+    const key = `${layout.format}:${layout.recordsPath}:${signature}`;
+    const existing = groups.get(key);
+    if (existing) {
+      existing.files.push(file);
+      continue;
+    }
+
+    const remembered = await loadHeaderMapping(signature);
+    groups.set(key, {
+      ...layout,
+      signature,
+      files: [file],
+      mapping: remembered ?? suggestMapping(layout.headers),
+      remembered: !!remembered
+    });
+  }
+
+  return Array.from(groups.values());
+};
+
+/** Groups whose columns don't line up with the standard export need a look. */
+export const needsReview = (group: HeaderGroup): boolean =>
+  !group.remembered && !isStandardMapping(group.mapping);
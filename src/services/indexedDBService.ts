@@ -1,105 +1,594 @@
+import { BucketMode } from '../lib/time';
+import { CrowdStrikeRow, DateConstraints, DateRange, ImportSummary } from '../lib/types';
+import { HeaderMapping } from '../lib/headerMapping';
+import { EventTypeId } from '../lib/eventTypes';
+import { EncryptedValue, KeyRecord, decryptValue, encryptValue } from '../lib/crypto';
+import { RelationshipRecord } from '../lib/relationshipLedger';
+import { CadenceFilter } from '../lib/periodicity';
+import { BusinessCalendar } from '../lib/businessCalendar';
+import { TimeSlice } from '../lib/activityHeatmap';
+import { SavedView } from '../lib/viewState';
+
 const DB_NAME = 'crowdstrike_analyzer';
-const DB_VERSION = 1;
+const DB_VERSION = 4;
+// Key-value store for settings, header mappings and the active workspace
 const STORE_NAME = 'analyzer_data';
+const WORKSPACE_STORE = 'workspaces';
+const STATE_STORE = 'workspace_state';
+const EVENT_STORE = 'events';
+const RELATIONSHIP_STORE = 'relationships';
+
+// Events are written a chunk per transaction so a large import neither holds
+// one huge transaction open nor loses everything to a single failure
+const EVENT_CHUNK_SIZE = 5000;
+const RELATIONSHIP_CHUNK_SIZE = 5000;
+
+const ACTIVE_WORKSPACE_KEY = 'active_workspace';
+const KEY_RECORD_KEY = 'encryption_key';
+// Past queries and saved views name hosts and accounts from the data, so they
+// are sealed like workspaces
+const SEARCH_HISTORY_KEY = 'search_history';
+const SAVED_VIEWS_KEY = 'saved_views';
+
+export interface WorkspaceMeta {
+  id: string;
+  name: string;
+  notes: string;
+  // File name(s) the data was imported from
+  fileName: string;
+  createdAt: string;
+  lastOpened: string;
+}
 
-interface StorageData {
-  rawData: any[];
-  results: any[] | null;
+/** Filters and view settings of a workspace, saved apart from its events. */
+export interface WorkspaceState {
+  workspaceId: string;
   searchTerm: string;
   selectedSource: string;
-  dateRange: {
-    startDate: string;
-    endDate: string;
-  };
-  dateConstraints: {
-    minDate: string;
-    maxDate: string;
-  };
+  dateRange: DateRange;
+  dateConstraints: DateConstraints;
   currentFile: string;
+  bucketMode?: BucketMode;
+  importSummary?: ImportSummary | null;
+  eventType?: EventTypeId;
+  // Column mappings the events were imported with, keyed by header signature
+  mappings?: Record<string, HeaderMapping>;
+  // Only show relationships that first appeared in this workspace's import
+  newOnly?: boolean;
+  // Only show relationships with this kind of regular cadence
+  cadenceFilter?: CadenceFilter;
+  // Only show rows with events outside business hours
+  offHoursOnly?: boolean;
+  // Only events in this weekday/hour slice of the heatmap
+  timeSlice?: TimeSlice | null;
 }
 
-export const initDB = (): Promise<void> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME, DB_VERSION);
+type StoredEvent = CrowdStrikeRow & { workspaceId: string };
 
-    request.onerror = () => reject(request.error);
-    
-    request.onsuccess = () => resolve();
+// With encryption on, records keep only their key fields in the clear. An
+// encrypted event record holds a whole chunk of rows, so the field indexes
+// only cover unencrypted data.
+interface SealedWorkspaceMeta { id: string; encrypted: EncryptedValue }
+interface SealedWorkspaceState { workspaceId: string; encrypted: EncryptedValue }
+interface SealedEventChunk { workspaceId: string; encrypted: EncryptedValue }
+interface SealedRelationshipChunk { key: string; encrypted: EncryptedValue }
+interface SealedValue { encrypted: EncryptedValue }
 
-    request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
-      const db = (event.target as IDBOpenDBRequest).result;
-      if (!db.objectStoreNames.contains(STORE_NAME)) {
-        db.createObjectStore(STORE_NAME);
+const isSealed = (record: object): record is { encrypted: EncryptedValue } => 'encrypted' in record;
+
+// Version 1 kept each workspace (and before that, the single `current_data`
+// slot) as one value holding the rows and the aggregated results
+interface LegacyWorkspaceData extends Omit<WorkspaceState, 'workspaceId'> {
+  rawData: CrowdStrikeRow[];
+  results: unknown;
+}
+
+export interface StorageStatus {
+  usage: number;
+  quota: number;
+  // False when the browser may evict the data to free up space
+  persisted: boolean;
+}
+
+const isQuotaError = (error: DOMException | null) => error?.name === 'QuotaExceededError';
+
+const toStorageError = (error: DOMException | null): Error => {
+  if (isQuotaError(error)) {
+    return new Error(
+      'Browser storage is full. Delete workspaces you no longer need or allow persistent storage, then try again.'
+    );
+  }
+  return new Error(error?.message || 'Unknown storage error');
+};
+
+export const createWorkspaceId = (): string => crypto.randomUUID();
+
+// Key for encrypting workspace data; held in memory only while unlocked
+let dataKey: CryptoKey | null = null;
+// Set when a wrapped key exists, so writes can't fall back to plaintext while locked
+let encryptionRequired = false;
+
+export const setDataKey = (key: CryptoKey | null, required: boolean) => {
+  dataKey = key;
+  encryptionRequired = required;
+};
+
+// Key records are sealed with; null reads and writes plaintext
+export type SealKey = CryptoKey | null;
+
+const requireKey = (): SealKey => {
+  if (encryptionRequired && !dataKey) throw new Error('Storage is locked');
+  return dataKey;
+};
+
+// Reads and writes under the current key, so a key change can wait them out
+const inFlight = new Set<Promise<unknown>>();
+let keyChange: Promise<unknown> = Promise.resolve();
+
+/**
+ * Runs a read or write with `key`, or with the current key once any key
+ * change has finished. Rewrites during a key change pass their keys explicitly.
+ */
+const withKey = async <T>(key: SealKey | undefined, task: (key: SealKey) => Promise<T>): Promise<T> => {
+  if (key !== undefined) return task(key);
+  let waited: Promise<unknown>;
+  do {
+    waited = keyChange;
+    await waited;
+  } while (waited !== keyChange);
+  const run = task(requireKey());
+  inFlight.add(run);
+  try {
+    return await run;
+  } finally {
+    inFlight.delete(run);
+  }
+};
+
+/**
+ * Runs `task` once the reads and writes in flight have finished, holding back
+ * new ones until it is done, so none of them uses a key that is being replaced.
+ */
+export const changeDataKey = (task: () => Promise<void>): Promise<void> => {
+  const run = keyChange.then(async () => {
+    await Promise.allSettled(inFlight);
+    await task();
+  });
+  keyChange = run.catch(() => undefined);
+  return run;
+};
+
+const seal = async (value: unknown, key: SealKey): Promise<EncryptedValue | null> =>
+  key ? encryptValue(key, value) : null;
+
+const unseal = async <T>(record: T | { encrypted: EncryptedValue }, key: SealKey): Promise<T> => {
+  if (!isSealed(record as object)) return record as T;
+  if (!key) throw new Error('Storage is locked');
+  return decryptValue<T>(key, (record as { encrypted: EncryptedValue }).encrypted);
+};
+
+const moveLegacyWorkspace = (transaction: IDBTransaction, meta: WorkspaceMeta, data: LegacyWorkspaceData) => {
+  transaction.objectStore(WORKSPACE_STORE).put(meta);
+  const state: WorkspaceState = {
+    workspaceId: meta.id,
+    searchTerm: data.searchTerm,
+    selectedSource: data.selectedSource,
+    dateRange: data.dateRange,
+    dateConstraints: data.dateConstraints,
+    currentFile: data.currentFile,
+    bucketMode: data.bucketMode,
+    importSummary: data.importSummary,
+    eventType: data.eventType
+  };
+  transaction.objectStore(STATE_STORE).put(state);
+  const events = transaction.objectStore(EVENT_STORE);
+  data.rawData.forEach(row => events.add({ ...row, workspaceId: meta.id }));
+};
+
+/** Splits the version 1 key-value blobs into the workspace, state and event stores. */
+const migrateToV2 = (transaction: IDBTransaction) => {
+  const legacy = transaction.objectStore(STORE_NAME);
+  const keysRequest = legacy.getAllKeys();
+  keysRequest.onsuccess = () => {
+    const valuesRequest = legacy.getAll();
+    valuesRequest.onsuccess = () => {
+      const values = new Map(keysRequest.result.map((key, index) => [String(key), valuesRequest.result[index]]));
+
+      values.forEach((value, key) => {
+        if (!key.startsWith('workspace-meta:')) return;
+        const meta = value as WorkspaceMeta;
+        const data = values.get(`workspace:${meta.id}`) as LegacyWorkspaceData | undefined;
+        if (data) moveLegacyWorkspace(transaction, meta, data);
+        legacy.delete(key);
+        legacy.delete(`workspace:${meta.id}`);
+      });
+
+      // Data saved before workspaces existed
+      const current = values.get('current_data') as LegacyWorkspaceData | undefined;
+      if (current) {
+        const now = new Date().toISOString();
+        const meta: WorkspaceMeta = {
+          id: createWorkspaceId(),
+          name: current.currentFile || 'Imported data',
+          notes: '',
+          fileName: current.currentFile || '',
+          createdAt: now,
+          lastOpened: now
+        };
+        moveLegacyWorkspace(transaction, meta, current);
+        legacy.put(meta.id, ACTIVE_WORKSPACE_KEY);
+        legacy.delete('current_data');
       }
     };
-  });
+  };
 };
 
-export const saveData = async (data: StorageData): Promise<void> => {
+// Each entry upgrades the schema from the previous version
+const MIGRATIONS: Array<(db: IDBDatabase, transaction: IDBTransaction) => void> = [
+  // 0 -> 1
+  (db) => {
+    db.createObjectStore(STORE_NAME);
+  },
+  // 1 -> 2
+  (db, transaction) => {
+    db.createObjectStore(WORKSPACE_STORE, { keyPath: 'id' });
+    db.createObjectStore(STATE_STORE, { keyPath: 'workspaceId' });
+    // Events are only ever looked up by workspace
+    const events = db.createObjectStore(EVENT_STORE, { autoIncrement: true });
+    events.createIndex('workspaceId', 'workspaceId');
+    migrateToV2(transaction);
+  },
+  // 2 -> 3: the ledger starts with the next import
+  (db) => {
+    db.createObjectStore(RELATIONSHIP_STORE, { keyPath: 'key' });
+  },
+  // 3 -> 4: drop the field indexes earlier versions created; no query used
+  // them and encrypted chunks never filled them
+  (_db, transaction) => {
+    const events = transaction.objectStore(EVENT_STORE);
+    ['IP', 'Target', 'Service', 'Timestamp'].forEach(name => {
+      if (events.indexNames.contains(name)) events.deleteIndex(name);
+    });
+  }
+];
+
+const openDB = (): Promise<IDBDatabase> => {
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME);
-    
-    request.onerror = () => reject(request.error);
-    
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+
+    request.onerror = () => reject(toStorageError(request.error));
+
+    request.onblocked = () => reject(new Error('Close other tabs of the analyzer so its storage can be upgraded'));
+
     request.onsuccess = () => {
       const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      store.put(data, 'current_data');
-      
-      transaction.oncomplete = () => {
-        db.close();
-        resolve();
-      };
-      
-      transaction.onerror = () => reject(transaction.error);
+      // Let a newer version in another tab upgrade the schema
+      db.onversionchange = () => db.close();
+      resolve(db);
     };
-  });
-};
 
-export const loadData = async (): Promise<StorageData | null> => {
-  return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME);
-    
-    request.onerror = () => reject(request.error);
-    
-    request.onsuccess = () => {
+    request.onupgradeneeded = (event: IDBVersionChangeEvent) => {
       const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readonly');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      const getRequest = store.get('current_data');
-      
-      getRequest.onsuccess = () => {
-        db.close();
-        resolve(getRequest.result || null);
-      };
-      
-      getRequest.onerror = () => reject(getRequest.error);
+      const transaction = request.transaction!;
+      for (let version = event.oldVersion; version < DB_VERSION; version++) {
+        MIGRATIONS[version](db, transaction);
+      }
     };
   });
 };
 
-export const clearData = async (): Promise<void> => {
+/**
+ * Runs `work` in one transaction and resolves with the result of the request
+ * it returns, once the transaction has committed.
+ */
+const runTransaction = async <T>(
+  storeNames: string | string[],
+  mode: IDBTransactionMode,
+  work: (transaction: IDBTransaction) => IDBRequest<T> | void
+): Promise<T | undefined> => {
+  const db = await openDB();
   return new Promise((resolve, reject) => {
-    const request = indexedDB.open(DB_NAME);
-    
-    request.onerror = () => reject(request.error);
-    
-    request.onsuccess = () => {
-      const db = request.result;
-      const transaction = db.transaction(STORE_NAME, 'readwrite');
-      const store = transaction.objectStore(STORE_NAME);
-      
-      store.delete('current_data');
-      
-      transaction.oncomplete = () => {
-        db.close();
-        resolve();
-      };
-      
-      transaction.onerror = () => reject(transaction.error);
+    const transaction = db.transaction(storeNames, mode);
+    const request = work(transaction);
+
+    transaction.oncomplete = () => {
+      db.close();
+      resolve(request ? request.result : undefined);
+    };
+
+    // Quota failures surface as an aborted transaction rather than a request error
+    transaction.onabort = () => {
+      db.close();
+      reject(toStorageError(transaction.error));
     };
   });
 };
+
+export const initDB = async (): Promise<void> => {
+  const db = await openDB();
+  db.close();
+};
+
+const deleteEvents = (transaction: IDBTransaction, workspaceId: string) => {
+  const events = transaction.objectStore(EVENT_STORE);
+  const cursorRequest = events.index('workspaceId').openKeyCursor(IDBKeyRange.only(workspaceId));
+  cursorRequest.onsuccess = () => {
+    const cursor = cursorRequest.result;
+    if (!cursor) return;
+    events.delete(cursor.primaryKey);
+    cursor.continue();
+  };
+};
+
+export const listWorkspaces = (key?: SealKey): Promise<WorkspaceMeta[]> => withKey(key, async key => {
+  const records = await runTransaction<Array<WorkspaceMeta | SealedWorkspaceMeta>>(WORKSPACE_STORE, 'readonly', transaction =>
+    transaction.objectStore(WORKSPACE_STORE).getAll()
+  );
+  const workspaces = await Promise.all((records ?? []).map(record => unseal<WorkspaceMeta>(record, key)));
+  return workspaces.sort((a, b) => b.lastOpened.localeCompare(a.lastOpened));
+});
+
+export const saveWorkspaceMeta = (meta: WorkspaceMeta, key?: SealKey): Promise<void> => withKey(key, async key => {
+  const encrypted = await seal(meta, key);
+  const record: WorkspaceMeta | SealedWorkspaceMeta = encrypted ? { id: meta.id, encrypted } : meta;
+  await runTransaction(WORKSPACE_STORE, 'readwrite', transaction => {
+    transaction.objectStore(WORKSPACE_STORE).put(record);
+  });
+});
+
+export const saveWorkspaceState = (state: WorkspaceState, key?: SealKey): Promise<void> => withKey(key, async key => {
+  const encrypted = await seal(state, key);
+  const record: WorkspaceState | SealedWorkspaceState = encrypted ? { workspaceId: state.workspaceId, encrypted } : state;
+  await runTransaction(STATE_STORE, 'readwrite', transaction => {
+    transaction.objectStore(STATE_STORE).put(record);
+  });
+});
+
+export const loadWorkspaceState = (id: string, key?: SealKey): Promise<WorkspaceState | null> => withKey(key, async key => {
+  const record = await runTransaction<WorkspaceState | SealedWorkspaceState>(STATE_STORE, 'readonly', transaction =>
+    transaction.objectStore(STATE_STORE).get(id)
+  );
+  return record ? unseal<WorkspaceState>(record, key) : null;
+});
+
+/**
+ * Replaces a workspace's events, writing them a chunk at a time. The old
+ * events are only deleted once the new ones are in, so an interrupted save
+ * never loses data.
+ */
+export const saveWorkspaceEvents = (
+  workspaceId: string,
+  rows: CrowdStrikeRow[],
+  key?: SealKey
+): Promise<void> => withKey(key, async key => {
+  const previous = await runTransaction<IDBValidKey[]>(EVENT_STORE, 'readonly', transaction =>
+    transaction.objectStore(EVENT_STORE).index('workspaceId').getAllKeys(IDBKeyRange.only(workspaceId))
+  ) ?? [];
+
+  for (let start = 0; start < rows.length; start += EVENT_CHUNK_SIZE) {
+    const chunk = rows.slice(start, start + EVENT_CHUNK_SIZE);
+    // Encrypted before the transaction opens; it would auto-commit while awaiting
+    const encrypted = await seal(chunk, key);
+    await runTransaction(EVENT_STORE, 'readwrite', transaction => {
+      const events = transaction.objectStore(EVENT_STORE);
+      if (encrypted) {
+        const record: SealedEventChunk = { workspaceId, encrypted };
+        events.add(record);
+      } else {
+        chunk.forEach(row => events.add({ ...row, workspaceId }));
+      }
+    });
+  }
+
+  for (let start = 0; start < previous.length; start += EVENT_CHUNK_SIZE) {
+    await runTransaction(EVENT_STORE, 'readwrite', transaction => {
+      const events = transaction.objectStore(EVENT_STORE);
+      previous.slice(start, start + EVENT_CHUNK_SIZE).forEach(primaryKey => events.delete(primaryKey));
+    });
+  }
+});
+
+export const loadWorkspaceEvents = (workspaceId: string, key?: SealKey): Promise<CrowdStrikeRow[]> => withKey(key, async key => {
+  const records = await runTransaction<Array<StoredEvent | SealedEventChunk>>(EVENT_STORE, 'readonly', transaction =>
+    transaction.objectStore(EVENT_STORE).index('workspaceId').getAll(IDBKeyRange.only(workspaceId))
+  );
+  const rows: CrowdStrikeRow[] = [];
+  for (const record of records ?? []) {
+    if (isSealed(record)) {
+      rows.push(...await unseal<CrowdStrikeRow[]>(record, key));
+      continue;
+    }
+    const row: Partial<StoredEvent> = record;
+    delete row.workspaceId;
+    rows.push(row as CrowdStrikeRow);
+  }
+  return rows;
+});
+
+export const deleteWorkspace = async (id: string): Promise<void> => {
+  await runTransaction([WORKSPACE_STORE, STATE_STORE, EVENT_STORE], 'readwrite', transaction => {
+    transaction.objectStore(WORKSPACE_STORE).delete(id);
+    transaction.objectStore(STATE_STORE).delete(id);
+    deleteEvents(transaction, id);
+  });
+};
+
+/** Copies a workspace's events, filters and notes under a new id and name. */
+export const duplicateWorkspace = async (source: WorkspaceMeta, name: string): Promise<WorkspaceMeta> => {
+  const now = new Date().toISOString();
+  const copy: WorkspaceMeta = { ...source, id: createWorkspaceId(), name, createdAt: now, lastOpened: now };
+  const [state, rows] = await Promise.all([loadWorkspaceState(source.id), loadWorkspaceEvents(source.id)]);
+  await saveWorkspaceEvents(copy.id, rows);
+  if (state) await saveWorkspaceState({ ...state, workspaceId: copy.id });
+  await saveWorkspaceMeta(copy);
+  return copy;
+};
+
+export const loadActiveWorkspaceId = async (): Promise<string | null> =>
+  (await runTransaction<string>(STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).get(ACTIVE_WORKSPACE_KEY)
+  )) ?? null;
+
+export const saveActiveWorkspaceId = async (id: string | null): Promise<void> => {
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    const store = transaction.objectStore(STORE_NAME);
+    if (id) store.put(id, ACTIVE_WORKSPACE_KEY);
+    else store.delete(ACTIVE_WORKSPACE_KEY);
+  });
+};
+
+export const loadRelationships = (key?: SealKey): Promise<RelationshipRecord[]> => withKey(key, async key => {
+  const records = await runTransaction<Array<RelationshipRecord | SealedRelationshipChunk>>(RELATIONSHIP_STORE, 'readonly', transaction =>
+    transaction.objectStore(RELATIONSHIP_STORE).getAll()
+  );
+  // Keyed so a record left over from an interrupted save is only counted once
+  const ledger = new Map<string, RelationshipRecord>();
+  for (const record of records ?? []) {
+    const entries = isSealed(record) ? await unseal<RelationshipRecord[]>(record, key) : [record];
+    entries.forEach(entry => ledger.set(entry.key, entry));
+  }
+  return Array.from(ledger.values());
+});
+
+/**
+ * Replaces the relationship ledger. New records go in before stale ones are
+ * deleted, so an interrupted save keeps the earlier history.
+ */
+export const saveRelationships = (ledger: RelationshipRecord[], key?: SealKey): Promise<void> => withKey(key, async key => {
+  const previous = await runTransaction<IDBValidKey[]>(RELATIONSHIP_STORE, 'readonly', transaction =>
+    transaction.objectStore(RELATIONSHIP_STORE).getAllKeys()
+  ) ?? [];
+
+  const written = new Set<IDBValidKey>();
+  for (let start = 0; start < ledger.length; start += RELATIONSHIP_CHUNK_SIZE) {
+    const chunk = ledger.slice(start, start + RELATIONSHIP_CHUNK_SIZE);
+    const encrypted = await seal(chunk, key);
+    await runTransaction(RELATIONSHIP_STORE, 'readwrite', transaction => {
+      const relationships = transaction.objectStore(RELATIONSHIP_STORE);
+      if (encrypted) {
+        // Relationship keys always contain '|', so chunk keys can't collide with them
+        const record: SealedRelationshipChunk = { key: `chunk:${start / RELATIONSHIP_CHUNK_SIZE}`, encrypted };
+        relationships.put(record);
+        written.add(record.key);
+      } else {
+        chunk.forEach(record => {
+          relationships.put(record);
+          written.add(record.key);
+        });
+      }
+    });
+  }
+
+  const stale = previous.filter(key => !written.has(key));
+  for (let start = 0; start < stale.length; start += RELATIONSHIP_CHUNK_SIZE) {
+    await runTransaction(RELATIONSHIP_STORE, 'readwrite', transaction => {
+      const relationships = transaction.objectStore(RELATIONSHIP_STORE);
+      stale.slice(start, start + RELATIONSHIP_CHUNK_SIZE).forEach(primaryKey => relationships.delete(primaryKey));
+    });
+  }
+});
+
+export const loadKeyRecord = async (): Promise<KeyRecord | null> =>
+  (await runTransaction<KeyRecord>(STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).get(KEY_RECORD_KEY)
+  )) ?? null;
+
+export const saveKeyRecord = async (record: KeyRecord): Promise<void> => {
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).put(record, KEY_RECORD_KEY);
+  });
+};
+
+export const deleteKeyRecord = async (): Promise<void> => {
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).delete(KEY_RECORD_KEY);
+  });
+};
+
+/**
+ * Removes every workspace, the relationship ledger, the search history and
+ * the saved views, e.g. once their key is gone and they can't be read.
+ */
+export const clearWorkspaces = async (): Promise<void> => {
+  await runTransaction([WORKSPACE_STORE, STATE_STORE, EVENT_STORE, RELATIONSHIP_STORE, STORE_NAME], 'readwrite', transaction => {
+    transaction.objectStore(WORKSPACE_STORE).clear();
+    transaction.objectStore(STATE_STORE).clear();
+    transaction.objectStore(EVENT_STORE).clear();
+    transaction.objectStore(RELATIONSHIP_STORE).clear();
+    transaction.objectStore(STORE_NAME).delete(ACTIVE_WORKSPACE_KEY);
+    transaction.objectStore(STORE_NAME).delete(SEARCH_HISTORY_KEY);
+    transaction.objectStore(STORE_NAME).delete(SAVED_VIEWS_KEY);
+  });
+};
+
+const saveSealedList = <T>(name: string, list: T[], key?: SealKey): Promise<void> => withKey(key, async key => {
+  const encrypted = await seal(list, key);
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    const record: T[] | SealedValue = encrypted ? { encrypted } : list;
+    transaction.objectStore(STORE_NAME).put(record, name);
+  });
+});
+
+const loadSealedList = <T>(name: string, key?: SealKey): Promise<T[]> => withKey(key, async key => {
+  const record = await runTransaction<T[] | SealedValue>(STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).get(name)
+  );
+  return record ? unseal<T[]>(record, key) : [];
+});
+
+export const saveSearchHistory = (history: string[], key?: SealKey): Promise<void> =>
+  saveSealedList(SEARCH_HISTORY_KEY, history, key);
+
+export const loadSearchHistory = (key?: SealKey): Promise<string[]> => loadSealedList<string>(SEARCH_HISTORY_KEY, key);
+
+export const saveSavedViews = (views: SavedView[], key?: SealKey): Promise<void> => saveSealedList(SAVED_VIEWS_KEY, views, key);
+
+export const loadSavedViews = (key?: SealKey): Promise<SavedView[]> => loadSealedList<SavedView>(SAVED_VIEWS_KEY, key);
+
+export interface AppSettings {
+  timeZone: string;
+  // Minutes of inactivity before encrypted storage locks itself; 0 never locks
+  autoLockMinutes?: number;
+  businessCalendar?: BusinessCalendar;
+}
+
+export const saveSettings = async (settings: AppSettings): Promise<void> => {
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).put(settings, 'settings');
+  });
+};
+
+export const loadSettings = async (): Promise<AppSettings | null> =>
+  (await runTransaction<AppSettings>(STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).get('settings')
+  )) ?? null;
+
+// Header mappings are remembered per header signature so a renamed export
+// only has to be mapped once
+export const saveHeaderMapping = async (signature: string, mapping: HeaderMapping): Promise<void> => {
+  await runTransaction(STORE_NAME, 'readwrite', transaction => {
+    transaction.objectStore(STORE_NAME).put(mapping, `mapping:${signature}`);
+  });
+};
+
+export const loadHeaderMapping = async (signature: string): Promise<HeaderMapping | null> =>
+  (await runTransaction<HeaderMapping>(STORE_NAME, 'readonly', transaction =>
+    transaction.objectStore(STORE_NAME).get(`mapping:${signature}`)
+  )) ?? null;
+
+/** Space used and available to the app, or null where the browser can't tell. */
+export const getStorageStatus = async (): Promise<StorageStatus | null> => {
+  if (!navigator.storage?.estimate) return null;
+  const [estimate, persisted] = await Promise.all([
+    navigator.storage.estimate(),
+    navigator.storage.persisted?.() ?? Promise.resolve(false)
+  ]);
+  return { usage: estimate.usage ?? 0, quota: estimate.quota ?? 0, persisted };
+};
+
+/**
+ * Asks the browser not to evict saved workspaces under storage pressure.
+ * Resolves false when the request is refused or unsupported.
+ */
+export const requestPersistentStorage = async (): Promise<boolean> =>
+  navigator.storage?.persist ? navigator.storage.persist() : false;
@@ -0,0 +1,18 @@
+import { CrowdStrikeRow } from '../lib/types';
+import { RelationshipRecord, mergeRelationships } from '../lib/relationshipLedger';
+import { loadRelationships, saveRelationships } from './indexedDBService';
+import { summarizeRows } from './analyzerWorkerService';
+
+/** Adds an import's relationships to the ledger under the workspace it created; returns the updated ledger. */
+export const recordImport = async (rows: CrowdStrikeRow[], workspaceId: string): Promise<RelationshipRecord[]> => {
+  try {
+    const [ledger, summaries] = await Promise.all([loadRelationships(), summarizeRows(rows)]);
+    const byKey = new Map(ledger.map(record => [record.key, record]));
+    mergeRelationships(byKey, summaries, new Date().toISOString(), workspaceId).forEach(record => byKey.set(record.key, record));
+    const updated = Array.from(byKey.values());
+    await saveRelationships(updated);
+    return updated;
+  } catch (error) {
+    throw new Error(`Failed to update relationship history: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
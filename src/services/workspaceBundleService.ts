@@ -0,0 +1,159 @@
+import { CrowdStrikeRow } from '../lib/types';
+import { PassphraseEncrypted, decryptWithPassphrase, encryptWithPassphrase } from '../lib/crypto';
+import {
+  WorkspaceMeta,
+  WorkspaceState,
+  createWorkspaceId,
+  listWorkspaces,
+  loadWorkspaceEvents,
+  loadWorkspaceState,
+  saveHeaderMapping,
+  saveWorkspaceEvents,
+  saveWorkspaceMeta,
+  saveWorkspaceState
+} from './indexedDBService';
+
+export const BUNDLE_EXTENSION = '.csworkspace';
+
+const BUNDLE_FORMAT = 'crowdstrike-analyzer-workspace';
+// Bump when the bundle layout changes, and teach readBundle to upgrade older ones
+const BUNDLE_SCHEMA_VERSION = 1;
+
+/** Everything needed to restore a workspace on another machine. */
+export interface WorkspaceBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  exportedAt: string;
+  workspace: Pick<WorkspaceMeta, 'name' | 'notes' | 'fileName' | 'createdAt'>;
+  state: Omit<WorkspaceState, 'workspaceId'>;
+  events: CrowdStrikeRow[];
+}
+
+// Encrypted bundles are stored as this envelope, with binary fields in base64
+export interface EncryptedBundle {
+  format: typeof BUNDLE_FORMAT;
+  schemaVersion: number;
+  encrypted: { salt: string; iterations: number; iv: string; data: string };
+}
+
+export type BundleFile =
+  | { encrypted: false; bundle: WorkspaceBundle }
+  | { encrypted: true; envelope: EncryptedBundle };
+
+const GZIP_MAGIC = [0x1f, 0x8b];
+
+export const isBundleFile = (name: string): boolean => name.toLowerCase().endsWith(BUNDLE_EXTENSION);
+
+const toBase64 = (bytes: Uint8Array): string => {
+  let binary = '';
+  // Chunked so large payloads don't exceed the argument limit
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+};
+
+const fromBase64 = (text: string): Uint8Array => Uint8Array.from(atob(text), char => char.charCodeAt(0));
+
+const gzip = (bytes: BufferSource): Promise<ArrayBuffer> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new CompressionStream('gzip'))).arrayBuffer();
+
+const gunzip = (bytes: BufferSource): Promise<ArrayBuffer> =>
+  new Response(new Blob([bytes]).stream().pipeThrough(new DecompressionStream('gzip'))).arrayBuffer();
+
+const checkVersion = (value: { format?: unknown; schemaVersion?: unknown }) => {
+  if (value.format !== BUNDLE_FORMAT) throw new Error('Not a workspace bundle');
+  if (typeof value.schemaVersion !== 'number' || value.schemaVersion > BUNDLE_SCHEMA_VERSION) {
+    throw new Error('The bundle was made by a newer version of the analyzer');
+  }
+};
+
+const parseBundle = (bytes: ArrayBuffer): WorkspaceBundle => {
+  const bundle = JSON.parse(new TextDecoder().decode(bytes)) as WorkspaceBundle;
+  checkVersion(bundle);
+  if (!Array.isArray(bundle.events) || !bundle.workspace || !bundle.state) {
+    throw new Error('The bundle is incomplete');
+  }
+  return bundle;
+};
+
+/**
+ * Packs a saved workspace into a single file. Plain bundles are gzipped JSON;
+ * with a passphrase the gzipped JSON is encrypted and wrapped in a small JSON
+ * envelope.
+ */
+export const exportWorkspace = async (id: string, passphrase?: string): Promise<Blob> => {
+  try {
+    const [list, state, events] = await Promise.all([listWorkspaces(), loadWorkspaceState(id), loadWorkspaceEvents(id)]);
+    const meta = list.find(workspace => workspace.id === id);
+    if (!meta || !state) throw new Error('The workspace no longer exists');
+
+    const view: Partial<WorkspaceState> = { ...state };
+    delete view.workspaceId;
+    const bundle: WorkspaceBundle = {
+      format: BUNDLE_FORMAT,
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      exportedAt: new Date().toISOString(),
+      workspace: { name: meta.name, notes: meta.notes, fileName: meta.fileName, createdAt: meta.createdAt },
+      state: view as WorkspaceBundle['state'],
+      events
+    };
+    const compressed = await gzip(new TextEncoder().encode(JSON.stringify(bundle)));
+    if (!passphrase) return new Blob([compressed], { type: 'application/gzip' });
+
+    const { salt, iterations, iv, data } = await encryptWithPassphrase(passphrase, compressed);
+    const envelope: EncryptedBundle = {
+      format: BUNDLE_FORMAT,
+      schemaVersion: BUNDLE_SCHEMA_VERSION,
+      encrypted: { salt: toBase64(salt), iterations, iv: toBase64(iv), data: toBase64(new Uint8Array(data)) }
+    };
+    return new Blob([JSON.stringify(envelope)], { type: 'application/json' });
+  } catch (error) {
+    throw new Error(`Failed to export workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+/** Reads a bundle file; encrypted ones still need `decryptBundle`. */
+export const readBundle = async (file: File): Promise<BundleFile> => {
+  try {
+    const bytes = await file.arrayBuffer();
+    const head = new Uint8Array(bytes, 0, Math.min(2, bytes.byteLength));
+    if (GZIP_MAGIC.every((byte, i) => head[i] === byte)) {
+      return { encrypted: false, bundle: parseBundle(await gunzip(bytes)) };
+    }
+    const envelope = JSON.parse(new TextDecoder().decode(bytes)) as EncryptedBundle;
+    checkVersion(envelope);
+    if (!envelope.encrypted) throw new Error('Not a workspace bundle');
+    return { encrypted: true, envelope };
+  } catch (error) {
+    throw new Error(`Failed to read ${file.name}: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
+
+export const decryptBundle = async (envelope: EncryptedBundle, passphrase: string): Promise<WorkspaceBundle> => {
+  const { salt, iterations, iv, data } = envelope.encrypted;
+  const value: PassphraseEncrypted = {
+    salt: fromBase64(salt),
+    iterations,
+    iv: fromBase64(iv),
+    data: fromBase64(data).buffer as ArrayBuffer
+  };
+  return parseBundle(await gunzip(await decryptWithPassphrase(passphrase, value)));
+};
+
+/** Saves a bundle as a new workspace and returns its id. */
+export const importWorkspace = async (bundle: WorkspaceBundle): Promise<string> => {
+  try {
+    const id = createWorkspaceId();
+    const now = new Date().toISOString();
+    // Events first, so a workspace never shows up in the list without its data
+    await saveWorkspaceEvents(id, bundle.events);
+    await saveWorkspaceState({ ...bundle.state, workspaceId: id });
+    // Remember the mappings too, so further exports with the same layout import directly
+    await Promise.all(Object.entries(bundle.state.mappings ?? {}).map(([signature, mapping]) => saveHeaderMapping(signature, mapping)));
+    await saveWorkspaceMeta({ ...bundle.workspace, id, lastOpened: now });
+    return id;
+  } catch (error) {
+    throw new Error(`Failed to import workspace: ${error instanceof Error ? error.message : 'Unknown error'}`);
+  }
+};
@@ -0,0 +1,341 @@
+import Papa from 'papaparse';
+import { getDateConstraints, listEvents, processData, ProcessOptions } from '../lib/processData';
+import { compareData } from '../lib/compareData';
+import { summarizeRelationships } from '../lib/relationshipLedger';
+import { scoreAnomalies } from '../lib/anomalyScore';
+import { detectPeriodicity } from '../lib/periodicity';
+import { findMovementPaths } from '../lib/lateralMovement';
+import { buildHeatmap } from '../lib/activityHeatmap';
+import { buildTimeline } from '../lib/timeline';
+import { buildHostProfile } from '../lib/hostProfile';
+import { CrowdStrikeRow, ImportFileSummary } from '../lib/types';
+import { ImportSource, ParseProgress, WorkerRequest, WorkerResponse } from './protocol';
+import { applyMapping, inferEventType } from '../lib/headerMapping';
+import { findRecords, flattenRecord } from '../lib/jsonRecords';
+import { ImportFile, getImportSize, openStream } from '../lib/importFiles';
+import { countEventTypes, pickEventType } from '../lib/eventTypes';
+import { validateRows } from '../lib/validation';
+
+// Parsed rows stay resident in the worker so re-aggregation (date range,
+// filters) does not need to copy the whole dataset back across threads.
+let dataset: CrowdStrikeRow[] = [];
+
+const CHUNK_SIZE = 1024 * 1024 * 4;
+
+const post = (message: WorkerResponse) => {
+  self.postMessage(message);
+};
+
+// Two rows are the same event when every exported column matches
+const eventKey = (row: CrowdStrikeRow) =>
+  `${row.eventType}|${row.Timestamp}|${row.Source}|${row['Source Name']}|${row.IP}|${row.Service}|${row.Target}|` +
+  `${row.Account ?? ''}|${row.Protocol ?? ''}|${row.Result ?? ''}`;
+
+type ChunkHandler = (records: Record<string, unknown>[], cursor: number) => void;
+
+/**
+ * Decompressed text of `file` as it streams in. `bytesRead()` counts stored
+ * bytes, so progress is measured against the size on disk.
+ */
+const openText = (file: ImportFile) => {
+  let bytesRead = 0;
+  const reader = openStream(file, bytes => { bytesRead += bytes; })
+    .pipeThrough(new TextDecoderStream())
+    .getReader();
+  return { reader, bytesRead: () => bytesRead };
+};
+
+/**
+ * Adapts a text stream to the Node-style readable Papa's stream parser
+ * expects, handing it roughly CHUNK_SIZE of text at a time so CSV inside an
+ * archive is parsed as it is inflated rather than after.
+ */
+const toPapaInput = (reader: ReadableStreamDefaultReader<string>) => {
+  const listeners = new Map<string, Array<(value?: unknown) => void>>();
+  const emit = (event: string, value?: unknown) => listeners.get(event)?.slice().forEach(listener => listener(value));
+  const input = {
+    readable: true,
+    read: () => null,
+    pause: () => {},
+    resume: () => {},
+    on: (event: string, listener: (value?: unknown) => void) => {
+      listeners.set(event, [...(listeners.get(event) ?? []), listener]);
+      return input;
+    },
+    removeListener: (event: string, listener: (value?: unknown) => void) => {
+      listeners.set(event, (listeners.get(event) ?? []).filter(existing => existing !== listener));
+      return input;
+    }
+  };
+
+  const start = async () => {
+    try {
+      let buffered = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (done) break;
+        buffered += value;
+        if (buffered.length >= CHUNK_SIZE) {
+          emit('data', buffered);
+          buffered = '';
+        }
+      }
+      if (buffered) emit('data', buffered);
+      emit('end');
+    } catch (err) {
+      emit('error', err);
+    }
+  };
+
+  return { input: input as unknown as NodeJS.ReadableStream, start };
+};
+
+const parseCsv = (file: ImportFile, onChunk: ChunkHandler): Promise<void> => {
+  return new Promise((resolve, reject) => {
+    const { reader, bytesRead } = openText(file);
+    const { input, start } = toPapaInput(reader);
+    Papa.parse<Record<string, unknown>>(input, {
+      header: true,
+      skipEmptyLines: true,
+      chunk: (results) => onChunk(results.data, bytesRead()),
+      complete: () => resolve(),
+      error: (err) => reject(new Error(`File parsing failed (${file.name}): ${err.message}`))
+    });
+    start();
+  });
+};
+
+/**
+ * Streams an NDJSON file line by line, handing over flattened records roughly
+ * every CHUNK_SIZE bytes so memory stays flat however large the file is.
+ */
+const parseNdjson = async (file: ImportFile, onChunk: ChunkHandler): Promise<void> => {
+  const { reader, bytesRead } = openText(file);
+  let records: Record<string, unknown>[] = [];
+  let flushedAt = 0;
+  let partial = '';
+  let lineNumber = 0;
+
+  const parseLine = (line: string) => {
+    lineNumber++;
+    if (!line.trim()) return;
+    let value: unknown;
+    try {
+      value = JSON.parse(line);
+    } catch {
+      throw new Error(`File parsing failed (${file.name}): invalid JSON on line ${lineNumber}`);
+    }
+    if (typeof value === 'object' && value !== null && !Array.isArray(value)) {
+      records.push(flattenRecord(value as Record<string, unknown>));
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read().catch((err: unknown) => {
+      throw new Error(`File parsing failed (${file.name}): ${err instanceof Error ? err.message : 'Unknown error'}`);
+    });
+    if (done) break;
+    const lines = (partial + value).split(/\r?\n/);
+    partial = lines.pop() ?? '';
+    lines.forEach(parseLine);
+    if (bytesRead() - flushedAt >= CHUNK_SIZE) {
+      onChunk(records, bytesRead());
+      records = [];
+      flushedAt = bytesRead();
+    }
+  }
+  parseLine(partial);
+  onChunk(records, bytesRead());
+};
+
+// A JSON document has to be parsed whole; records are then handed over in
+// batches so progress still moves
+const JSON_BATCH = 10000;
+
+const parseJson = async (file: ImportFile, recordsPath: string, onChunk: ChunkHandler): Promise<void> => {
+  let root: unknown;
+  try {
+    root = JSON.parse(await new Response(openStream(file)).text());
+  } catch (err) {
+    throw new Error(`File parsing failed (${file.name}): ${err instanceof Error ? err.message : 'invalid JSON'}`);
+  }
+  const { records } = findRecords(root, recordsPath);
+  const size = getImportSize(file);
+  for (let start = 0; start < records.length; start += JSON_BATCH) {
+    const end = Math.min(start + JSON_BATCH, records.length);
+    onChunk(records.slice(start, end).map(record => flattenRecord(record)), Math.round(size * end / records.length));
+  }
+};
+
+const parseSource = (source: ImportSource, onChunk: ChunkHandler): Promise<void> => {
+  switch (source.format) {
+    case 'ndjson':
+      return parseNdjson(source.file, onChunk);
+    case 'json':
+      return parseJson(source.file, source.recordsPath, onChunk);
+    case 'csv':
+      return parseCsv(source.file, onChunk);
+  }
+};
+
+const handleParse = async (id: number, sources: ImportSource[], options: ProcessOptions) => {
+  const files = sources.map(source => source.file);
+  const rows: CrowdStrikeRow[] = [];
+  // Event key -> index of the file that first contained it
+  const seen = new Map<string, number>();
+  const summaries: ImportFileSummary[] = [];
+  const totalBytes = files.reduce((total, file) => total + getImportSize(file), 0);
+  let completedBytes = 0;
+
+  const progress = (phase: ParseProgress['phase'], fileIndex: number, bytesRead: number): ParseProgress => ({
+    phase,
+    rowsParsed: rows.length,
+    bytesRead,
+    totalBytes,
+    fileName: files[fileIndex]?.name ?? '',
+    fileIndex,
+    fileCount: files.length
+  });
+
+  try {
+    for (let fileIndex = 0; fileIndex < files.length; fileIndex++) {
+      const file = files[fileIndex];
+      const summary: ImportFileSummary = { name: file.name, rows: 0, added: 0, duplicates: 0, overlaps: {} };
+      summaries.push(summary);
+      const { mapping } = sources[fileIndex];
+      const fallbackType = inferEventType(mapping);
+
+      await parseSource(sources[fileIndex], (chunk, cursor) => {
+        for (const record of chunk) {
+          const row = applyMapping(record, mapping, fallbackType);
+          summary.rows++;
+          const key = eventKey(row);
+          const firstFile = seen.get(key);
+          if (firstFile !== undefined) {
+            summary.duplicates++;
+            const overlapName = files[firstFile].name;
+            summary.overlaps[overlapName] = (summary.overlaps[overlapName] || 0) + 1;
+            continue;
+          }
+          seen.set(key, fileIndex);
+          row.sourceFile = file.name;
+          rows.push(row);
+          summary.added++;
+        }
+        post({ id, type: 'progress', progress: progress('parsing', fileIndex, completedBytes + Math.min(cursor, getImportSize(file))) });
+      });
+
+      completedBytes += getImportSize(file);
+    }
+
+    post({ id, type: 'progress', progress: progress('aggregating', files.length - 1, totalBytes) });
+    dataset = rows;
+    // Mixed files are split by type; analysis starts on the requested type
+    // when present, otherwise on the most common one
+    const eventTypes = countEventTypes(rows);
+    const eventType = pickEventType(eventTypes, options.eventType);
+    post({
+      id,
+      type: 'parsed',
+      result: {
+        rows,
+        results: processData(rows, { ...options, eventType }),
+        eventType,
+        dateConstraints: getDateConstraints(rows, options.timeZone),
+        validation: validateRows(rows),
+        summary: {
+          files: summaries,
+          totalRows: rows.length,
+          duplicates: summaries.reduce((total, summary) => total + summary.duplicates, 0),
+          eventTypes
+        }
+      }
+    });
+  } catch (err) {
+    post({ id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+  }
+};
+
+self.onmessage = (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+  switch (request.type) {
+    case 'parse':
+      handleParse(request.id, request.sources, request.options);
+      break;
+    case 'setRows':
+      dataset = request.rows;
+      post({ id: request.id, type: 'rowsSet' });
+      break;
+    case 'aggregate':
+      try {
+        post({ id: request.id, type: 'aggregated', results: processData(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'compare':
+      try {
+        const results = compareData(request.baselineRows ?? dataset, dataset, request.options);
+        post({ id: request.id, type: 'compared', results });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'summarize':
+      try {
+        post({ id: request.id, type: 'summarized', relationships: summarizeRelationships(dataset) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'score':
+      try {
+        post({ id: request.id, type: 'scored', scores: scoreAnomalies(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'periodicity':
+      try {
+        post({ id: request.id, type: 'periodic', periodicity: detectPeriodicity(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'paths':
+      try {
+        post({ id: request.id, type: 'pathsFound', paths: findMovementPaths(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'heatmap':
+      try {
+        post({ id: request.id, type: 'heatmapBuilt', counts: buildHeatmap(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'timeline':
+      try {
+        post({ id: request.id, type: 'timelineBuilt', timeline: buildTimeline(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'host':
+      try {
+        post({ id: request.id, type: 'hostProfiled', profile: buildHostProfile(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+    case 'events':
+      try {
+        post({ id: request.id, type: 'eventsListed', list: listEvents(dataset, request.options) });
+      } catch (err) {
+        post({ id: request.id, type: 'error', message: err instanceof Error ? err.message : 'Unknown error' });
+      }
+      break;
+  }
+};
@@ -0,0 +1,76 @@
+import { CrowdStrikeRow, DateConstraints, ImportSummary, ProcessedRow } from '../lib/types';
+import { EventList, EventOptions, ProcessOptions } from '../lib/processData';
+import { CompareOptions } from '../lib/compareData';
+import { RelationshipSummary } from '../lib/relationshipLedger';
+import { AnomalyOptions, AnomalyScore } from '../lib/anomalyScore';
+import { Periodicity, PeriodicityOptions } from '../lib/periodicity';
+import { MovementPath, PathOptions } from '../lib/lateralMovement';
+import { HeatmapOptions } from '../lib/activityHeatmap';
+import { Timeline, TimelineOptions } from '../lib/timeline';
+import { HostOptions, HostProfile } from '../lib/hostProfile';
+import { HeaderMapping } from '../lib/headerMapping';
+import { ValidationReport } from '../lib/validation';
+import { EventTypeId } from '../lib/eventTypes';
+import { FileFormat, ImportFile } from '../lib/importFiles';
+
+export interface ParseProgress {
+  phase: 'parsing' | 'aggregating';
+  rowsParsed: number;
+  bytesRead: number;
+  totalBytes: number;
+  fileName: string;
+  fileIndex: number;
+  fileCount: number;
+}
+
+/** A file to import and how to read it. */
+export interface ImportSource {
+  file: ImportFile;
+  format: FileFormat;
+  // Key path of the records array in a JSON document, '' for the root
+  recordsPath: string;
+  // Maps the file's columns or field paths onto CrowdStrikeRow fields
+  mapping: HeaderMapping;
+}
+
+export type WorkerRequest =
+  | { id: number; type: 'parse'; sources: ImportSource[]; options: ProcessOptions }
+  | { id: number; type: 'setRows'; rows: CrowdStrikeRow[] }
+  | { id: number; type: 'aggregate'; options: ProcessOptions }
+  // Without baseline rows the worker's own dataset is the baseline too
+  | { id: number; type: 'compare'; baselineRows: CrowdStrikeRow[] | null; options: CompareOptions }
+  | { id: number; type: 'summarize' }
+  | { id: number; type: 'score'; options: AnomalyOptions }
+  | { id: number; type: 'periodicity'; options: PeriodicityOptions }
+  | { id: number; type: 'paths'; options: PathOptions }
+  | { id: number; type: 'heatmap'; options: HeatmapOptions }
+  | { id: number; type: 'timeline'; options: TimelineOptions }
+  | { id: number; type: 'host'; options: HostOptions }
+  | { id: number; type: 'events'; options: EventOptions };
+
+export interface ParseResult {
+  rows: CrowdStrikeRow[];
+  results: ProcessedRow[];
+  // Event type the results were aggregated for
+  eventType: EventTypeId;
+  dateConstraints: DateConstraints;
+  summary: ImportSummary;
+  validation: ValidationReport;
+}
+
+export type WorkerResponse =
+  | { id: number; type: 'progress'; progress: ParseProgress }
+  | { id: number; type: 'parsed'; result: ParseResult }
+  | { id: number; type: 'rowsSet' }
+  | { id: number; type: 'aggregated'; results: ProcessedRow[] }
+  | { id: number; type: 'compared'; results: ProcessedRow[] }
+  | { id: number; type: 'summarized'; relationships: RelationshipSummary[] }
+  | { id: number; type: 'scored'; scores: AnomalyScore[] }
+  | { id: number; type: 'periodic'; periodicity: Periodicity[] }
+  | { id: number; type: 'pathsFound'; paths: MovementPath[] }
+  // Event counts indexed [weekday][hour]
+  | { id: number; type: 'heatmapBuilt'; counts: number[][] }
+  | { id: number; type: 'timelineBuilt'; timeline: Timeline }
+  | { id: number; type: 'hostProfiled'; profile: HostProfile }
+  | { id: number; type: 'eventsListed'; list: EventList }
+  | { id: number; type: 'error'; message: string };